@@ -5,11 +5,35 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
+import History from "@/pages/history";
+import ExtractionDetail from "@/pages/extraction-detail";
+import Login from "@/pages/login";
+import Signup from "@/pages/signup";
+import Profiles from "@/pages/profiles";
+import Admin from "@/pages/admin";
+import ApiTokens from "@/pages/api-tokens";
+import Webhooks from "@/pages/webhooks";
+import Costs from "@/pages/costs";
+import Batches from "@/pages/batches";
+import BatchDetail from "@/pages/batch-detail";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Home} />
+      <ProtectedRoute path="/" component={Home} />
+      <ProtectedRoute path="/history" component={History} />
+      <ProtectedRoute path="/history/:id" component={ExtractionDetail} />
+      <ProtectedRoute path="/profiles" component={Profiles} />
+      <ProtectedRoute path="/admin" component={Admin} />
+      <ProtectedRoute path="/tokens" component={ApiTokens} />
+      <ProtectedRoute path="/webhooks" component={Webhooks} />
+      <ProtectedRoute path="/costs" component={Costs} />
+      <ProtectedRoute path="/batches" component={Batches} />
+      <ProtectedRoute path="/batches/:id" component={BatchDetail} />
+      <Route path="/login" component={Login} />
+      <Route path="/signup" component={Signup} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -18,10 +42,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,106 @@
+import { useState, type ReactNode } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import type { InsertUser } from "@shared/schema";
+
+export type AuthCredentials = InsertUser & { organizationName?: string };
+
+interface AuthFormProps {
+  title: string;
+  submitLabel: string;
+  passwordAutoComplete: "current-password" | "new-password";
+  isPending: boolean;
+  // Also ask for the name of a new organization, when signing up
+  withOrganization?: boolean;
+  onSubmit: (credentials: AuthCredentials) => void;
+  // Shown under the form, e.g. a link to the other auth page
+  footer: ReactNode;
+  // Checked before submitting; returns an error message or null
+  validate?: (credentials: AuthCredentials) => string | null;
+}
+
+// Username and password form shared by the login and signup pages
+export default function AuthForm({
+  title,
+  submitLabel,
+  passwordAutoComplete,
+  isPending,
+  withOrganization = false,
+  onSubmit,
+  footer,
+  validate,
+}: AuthFormProps) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [organizationName, setOrganizationName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const credentials: AuthCredentials = withOrganization
+      ? { username: username.trim(), password, organizationName: organizationName.trim() }
+      : { username: username.trim(), password };
+    const validationError = validate?.(credentials) ?? null;
+    setError(validationError);
+    if (!validationError) {
+      onSubmit(credentials);
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6">
+          <h1 className="text-2xl font-semibold text-secondary mb-6">{title}</h1>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {withOrganization && (
+              <div>
+                <Label htmlFor="organization" className="block text-sm font-medium mb-1">
+                  Organization
+                </Label>
+                <Input
+                  id="organization"
+                  autoComplete="organization"
+                  value={organizationName}
+                  onChange={(e) => setOrganizationName(e.target.value)}
+                />
+              </div>
+            )}
+            <div>
+              <Label htmlFor="username" className="block text-sm font-medium mb-1">
+                Username
+              </Label>
+              <Input
+                id="username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="password" className="block text-sm font-medium mb-1">
+                Password
+              </Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete={passwordAutoComplete}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            {error && <p className="text-sm text-error">{error}</p>}
+            <Button type="submit" className="w-full" disabled={isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {submitLabel}
+            </Button>
+          </form>
+          <p className="text-sm text-gray-500 mt-4 text-center">{footer}</p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,10 +1,21 @@
-import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
-import { Eye, EyeOff, Info } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Info, Settings } from "lucide-react";
+import type { ProfileSummary } from "@shared/schema";
 import { ConfigState } from "@/lib/types";
+import { getProviderOption } from "@/lib/providers";
+import { documentTypeLabels } from "@/lib/history";
+import { useAuth } from "@/hooks/use-auth";
 
 interface ConfigurationSectionProps {
   config: ConfigState;
@@ -15,77 +26,93 @@ export default function ConfigurationSection({
   config,
   onConfigChange,
 }: ConfigurationSectionProps) {
-  const [showApiKey, setShowApiKey] = useState(false);
+  const { can } = useAuth();
+  const { data: profiles = [], isLoading } = useQuery<ProfileSummary[]>({
+    queryKey: ["/api/profiles"],
+  });
 
-  const toggleApiKeyVisibility = () => {
-    setShowApiKey(!showApiKey);
-  };
+  const profile = profiles.find((option) => String(option.id) === config.profileId);
+  const providerOption = profile ? getProviderOption(profile.provider) : null;
 
-  const isConfigured = Boolean(config.apiKey && config.assistantId);
+  // Settings of the selected profile; the API key itself stays on the server
+  const details: Array<[string, string | null]> = profile
+    ? [
+        ["Provider", providerOption!.label],
+        ["Document type", documentTypeLabels[profile.documentType]],
+        ["Assistant ID", profile.assistantId],
+        ["Model", profile.model],
+        ["API key", profile.hasApiKey ? `Stored (ending in ${profile.apiKeyHint})` : null],
+      ]
+    : [];
 
   return (
     <section className="mb-8">
       <Card>
         <CardContent className="pt-6">
-          <h2 className="text-xl font-medium mb-4">Configuration</h2>
-
-          {/* API Key Input Group */}
-          <div className="mb-4">
-            <Label htmlFor="apiKey" className="block text-sm font-medium mb-1">
-              OpenAI API Key
-            </Label>
-            <div className="relative">
-              <Input
-                type={showApiKey ? "text" : "password"}
-                id="apiKey"
-                value={config.apiKey}
-                onChange={(e) => onConfigChange("apiKey", e.target.value)}
-                className="pr-10"
-                placeholder="sk-..."
-              />
-              <Button
-                type="button"
-                variant="ghost"
-                size="icon"
-                className="absolute inset-y-0 right-0 flex items-center pr-3"
-                onClick={toggleApiKeyVisibility}
-              >
-                {showApiKey ? (
-                  <EyeOff className="h-4 w-4 text-gray-400" />
-                ) : (
-                  <Eye className="h-4 w-4 text-gray-400" />
-                )}
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-medium">Configuration</h2>
+            {can("profiles:manage") && (
+              <Button variant="ghost" size="sm" asChild>
+                <Link href="/profiles">
+                  <Settings className="h-4 w-4 mr-1" />
+                  Manage profiles
+                </Link>
               </Button>
-            </div>
-            <p className="mt-1 text-xs text-gray-500">
-              Your API key will be used only for requests and not stored.
-            </p>
+            )}
           </div>
 
-          {/* Assistant ID Input */}
+          {/* Extraction Profile Select */}
           <div className="mb-4">
-            <Label htmlFor="assistantId" className="block text-sm font-medium mb-1">
-              Assistant ID
+            <Label htmlFor="profile" className="block text-sm font-medium mb-1">
+              Extraction Profile
             </Label>
-            <Input
-              type="text"
-              id="assistantId"
-              value={config.assistantId}
-              onChange={(e) => onConfigChange("assistantId", e.target.value)}
-              placeholder="asst_..."
-            />
-            <p className="mt-1 text-xs text-gray-500">
-              The ID of your OpenAI Assistant that can process images.
-            </p>
+            <Select
+              value={config.profileId}
+              onValueChange={(value) => onConfigChange("profileId", value)}
+              disabled={profiles.length === 0}
+            >
+              <SelectTrigger id="profile">
+                <SelectValue placeholder={isLoading ? "Loading profiles..." : "Choose a profile"} />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map((option) => (
+                  <SelectItem key={option.id} value={String(option.id)}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {providerOption && (
+              <p className="mt-1 text-xs text-gray-500">
+                {providerOption.description}
+              </p>
+            )}
           </div>
 
+          {profile && (
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 mb-4">
+              {details.map(([label, value]) => (
+                <div key={label} className="flex justify-between border-b border-gray-100 py-1">
+                  <dt className="text-sm text-gray-500">{label}</dt>
+                  <dd className="text-sm font-medium text-right">
+                    {value || <span className="text-gray-300">—</span>}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          )}
+
           {/* Configuration Status */}
           <div className="p-3 bg-gray-50 rounded-md mt-4 flex items-center">
-            {!isConfigured ? (
+            {!profile ? (
               <div className="flex items-center">
                 <Info className="h-4 w-4 text-blue-500 mr-2" />
                 <span className="text-sm">
-                  Enter your API Key and Assistant ID to get started
+                  {isLoading || profiles.length > 0
+                    ? "Choose an extraction profile to get started"
+                    : can("profiles:manage")
+                      ? "Create an extraction profile to get started"
+                      : "Ask an admin to create an extraction profile"}
                 </span>
               </div>
             ) : (
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import type { DriverLicenseExtraction, LicenseAddress } from "@shared/schema";
+import { FIELD_LABELS } from "@/components/license-field-list";
+
+type TextField = Exclude<keyof DriverLicenseExtraction, "address">;
+type AddressField = keyof LicenseAddress;
+
+const TEXT_FIELDS = FIELD_LABELS.filter(
+  (entry): entry is [TextField, string] => entry[0] !== "address",
+);
+
+const ADDRESS_LABELS: Array<[AddressField, string]> = [
+  ["street", "Street"],
+  ["city", "City"],
+  ["state", "State"],
+  ["postalCode", "Postal code"],
+  ["country", "Country"],
+];
+
+type FormValues = Record<TextField | `address.${AddressField}`, string>;
+
+function toFormValues(fields: DriverLicenseExtraction): FormValues {
+  const values = {} as FormValues;
+  for (const [key] of TEXT_FIELDS) {
+    values[key] = fields[key] ?? "";
+  }
+  for (const [key] of ADDRESS_LABELS) {
+    values[`address.${key}`] = fields.address?.[key] ?? "";
+  }
+  return values;
+}
+
+// Empty inputs become null, and an address without any part is left out
+function toFields(values: FormValues): DriverLicenseExtraction {
+  const fields: Record<string, unknown> = {};
+  for (const [key] of TEXT_FIELDS) {
+    fields[key] = values[key].trim() || null;
+  }
+  const address: LicenseAddress = {};
+  for (const [key] of ADDRESS_LABELS) {
+    address[key] = values[`address.${key}`].trim() || null;
+  }
+  fields.address = Object.values(address).some(Boolean) ? address : null;
+  return fields as DriverLicenseExtraction;
+}
+
+interface CorrectionFormProps {
+  fields: DriverLicenseExtraction;
+  isSaving: boolean;
+  onSave: (fields: DriverLicenseExtraction) => void;
+  onCancel: () => void;
+}
+
+// Editable copy of the extracted license fields for reviewers
+export default function CorrectionForm({ fields, isSaving, onSave, onCancel }: CorrectionFormProps) {
+  const [values, setValues] = useState<FormValues>(() => toFormValues(fields));
+
+  const handleChange = (key: keyof FormValues, value: string) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSave(toFields(values));
+  };
+
+  const renderInput = (key: keyof FormValues, label: string) => (
+    <div key={key}>
+      <Label htmlFor={`correction-${key}`} className="block text-sm font-medium mb-1">
+        {label}
+      </Label>
+      <Input
+        id={`correction-${key}`}
+        value={values[key]}
+        onChange={(e) => handleChange(key, e.target.value)}
+      />
+    </div>
+  );
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <p className="text-xs text-gray-500 mb-4">Dates use the YYYY-MM-DD format.</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+        {TEXT_FIELDS.map(([key, label]) => renderInput(key, label))}
+      </div>
+
+      <h3 className="text-sm font-medium mb-2">Address</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+        {ADDRESS_LABELS.map(([key, label]) => renderInput(`address.${key}`, label))}
+      </div>
+
+      <div className="text-right">
+        <Button type="button" variant="outline" className="mr-2" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save corrections
+        </Button>
+      </div>
+    </form>
+  );
+}
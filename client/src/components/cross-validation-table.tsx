@@ -0,0 +1,80 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { ShieldAlert, ShieldCheck } from "lucide-react";
+import type { CrossValidationResult, FieldAgreementStatus } from "@shared/schema";
+
+const FIELD_NAMES: Record<string, string> = {
+  firstName: "First name",
+  lastName: "Last name",
+  dateOfBirth: "Date of birth",
+  licenseNumber: "License number",
+  expiryDate: "Expiry date",
+  address: "Address",
+};
+
+const STATUS_BADGES: Record<FieldAgreementStatus, { label: string; className: string }> = {
+  match: { label: "Match", className: "bg-green-100 text-green-800 border-transparent" },
+  mismatch: { label: "Mismatch", className: "bg-red-100 text-red-800 border-transparent" },
+  visual_only: { label: "Card only", className: "bg-gray-100 text-gray-700 border-transparent" },
+  barcode_only: { label: "Barcode only", className: "bg-gray-100 text-gray-700 border-transparent" },
+};
+
+interface CrossValidationTableProps {
+  result: CrossValidationResult;
+}
+
+export default function CrossValidationTable({ result }: CrossValidationTableProps) {
+  return (
+    <div className="border border-gray-200 rounded-md mb-4">
+      <div className="flex items-center px-4 py-3 border-b border-gray-200">
+        {result.mismatchCount > 0 ? (
+          <ShieldAlert className="h-4 w-4 text-error mr-2" />
+        ) : (
+          <ShieldCheck className="h-4 w-4 text-green-600 mr-2" />
+        )}
+        <span className="text-sm font-medium">
+          {result.mismatchCount > 0
+            ? `Barcode and card disagree on ${result.mismatchCount} field${result.mismatchCount === 1 ? "" : "s"}`
+            : "Barcode and card agree"}
+        </span>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Field</TableHead>
+            <TableHead>Card (OCR)</TableHead>
+            <TableHead>Barcode</TableHead>
+            <TableHead className="text-right">Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {result.comparisons.map((comparison) => {
+            const badge = STATUS_BADGES[comparison.status];
+            return (
+              <TableRow
+                key={comparison.field}
+                className={comparison.status === "mismatch" ? "bg-red-50" : undefined}
+              >
+                <TableCell className="font-medium">
+                  {FIELD_NAMES[comparison.field] ?? comparison.field}
+                </TableCell>
+                <TableCell>{comparison.visual ?? "—"}</TableCell>
+                <TableCell>{comparison.barcode ?? "—"}</TableCell>
+                <TableCell className="text-right">
+                  <Badge className={badge.className}>{badge.label}</Badge>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -1,21 +1,75 @@
 import { useRef, useState, useCallback } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { FileWithPreview } from "@/lib/types";
-import { CloudUpload, X, Loader2 } from "lucide-react";
+import type { ImageQuality } from "@shared/schema";
+import { AlertCircle, AlertTriangle, CheckCircle2, CloudUpload, X, Loader2 } from "lucide-react";
 
 interface ImageUploadSectionProps {
   files: FileWithPreview[];
+  // Quality check of each file; files without an entry are still being checked
+  quality?: Map<File, ImageQuality | null>;
+  // Document and side each file was sorted into by the current job
+  placements?: Map<File, string>;
   onFilesChange: (files: FileWithPreview[]) => void;
   onProcessImages: () => void;
   isProcessing: boolean;
+  onCancel?: () => void;
+  // False when the user's role may not submit images
+  canSubmit?: boolean;
+}
+
+// Guidance for retaking a photo, shown under its name
+function QualityNotes({ quality }: { quality: ImageQuality | null | undefined }) {
+  if (quality === undefined) {
+    return (
+      <div className="flex items-center text-xs text-gray-500 mt-1">
+        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+        Checking image quality...
+      </div>
+    );
+  }
+  // The check failed or could not read the file; the server decides on submit
+  if (quality === null || quality.error) return null;
+  if (quality.issues.length === 0) {
+    return (
+      <div className="flex items-center text-xs text-green-700 mt-1">
+        <CheckCircle2 className="h-3 w-3 mr-1" />
+        Looks good
+      </div>
+    );
+  }
+  return (
+    <ul className="mt-1 space-y-1">
+      {quality.issues.map((issue) => (
+        <li
+          key={issue.code}
+          className={`flex items-start text-xs ${
+            issue.severity === "error" ? "text-error" : "text-yellow-700"
+          }`}
+        >
+          {issue.severity === "error" ? (
+            <AlertCircle className="h-3 w-3 mr-1 mt-0.5 shrink-0" />
+          ) : (
+            <AlertTriangle className="h-3 w-3 mr-1 mt-0.5 shrink-0" />
+          )}
+          {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
 }
 
 export default function ImageUploadSection({
   files,
+  quality,
+  placements,
   onFilesChange,
   onProcessImages,
   isProcessing,
+  onCancel,
+  canSubmit = true,
 }: ImageUploadSectionProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
@@ -129,7 +183,7 @@ export default function ImageUploadSection({
                 {files.map((file, index) => (
                   <div
                     key={`${file.name}-${index}`}
-                    className="flex items-center p-2 bg-gray-50 rounded mb-2"
+                    className="flex items-start p-2 bg-gray-50 rounded mb-2"
                   >
                     <div className="w-12 h-12 bg-gray-200 rounded overflow-hidden mr-3">
                       <img
@@ -138,11 +192,17 @@ export default function ImageUploadSection({
                         className="w-full h-full object-cover"
                       />
                     </div>
-                    <div className="flex-1">
+                    <div className="flex-1 min-w-0">
                       <div className="text-sm font-medium truncate">{file.name}</div>
                       <div className="text-xs text-gray-500">
                         {formatFileSize(file.size)}
+                        {placements?.has(file) && (
+                          <Badge variant="outline" className="ml-2 font-normal">
+                            {placements.get(file)}
+                          </Badge>
+                        )}
                       </div>
+                      {quality && <QualityNotes quality={quality.get(file)} />}
                     </div>
                     <Button
                       type="button"
@@ -164,10 +224,25 @@ export default function ImageUploadSection({
 
           {/* Upload Button */}
           <div className="text-right">
+            {!canSubmit && (
+              <span className="text-sm text-gray-500 mr-3">
+                Your role does not allow submitting images
+              </span>
+            )}
+            {isProcessing && onCancel && (
+              <Button
+                type="button"
+                variant="outline"
+                className="mr-2"
+                onClick={onCancel}
+              >
+                Cancel
+              </Button>
+            )}
             <Button
               type="button"
               onClick={onProcessImages}
-              disabled={isProcessing || files.length === 0}
+              disabled={!canSubmit || isProcessing || files.length === 0}
             >
               {isProcessing ? (
                 <>
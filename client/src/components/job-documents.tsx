@@ -0,0 +1,47 @@
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { FileText } from "lucide-react";
+import type { JobDocument } from "@shared/schema";
+import { documentSideLabels, jobStatusLabels, jobStatusVariants } from "@/lib/history";
+
+interface JobDocumentsProps {
+  documents: JobDocument[];
+}
+
+// The documents a job's images were paired into, each with its own extraction
+export default function JobDocuments({ documents }: JobDocumentsProps) {
+  return (
+    <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+      {documents.map((document, index) => (
+        <li key={index} className="flex items-start p-3">
+          <FileText className="h-4 w-4 text-gray-400 mr-3 mt-0.5 shrink-0" />
+          <div className="flex-1 min-w-0">
+            <div className="text-sm font-medium">
+              Document {index + 1}
+              {document.result?.fields?.lastName && (
+                <span className="font-normal text-gray-500">
+                  {" "}
+                  · {[document.result.fields.firstName, document.result.fields.lastName].filter(Boolean).join(" ")}
+                </span>
+              )}
+            </div>
+            <div className="text-xs text-gray-500 truncate">
+              {document.images
+                .map((image) => `${documentSideLabels[image.side]}: ${image.fileName}`)
+                .join(", ")}
+            </div>
+            {document.error && <div className="text-xs text-error mt-1">{document.error}</div>}
+          </div>
+          <Badge variant={jobStatusVariants[document.status]} className="ml-2">
+            {jobStatusLabels[document.status]}
+          </Badge>
+          {document.extractionId !== null && (
+            <Link href={`/history/${document.extractionId}`} className="text-sm text-primary ml-3">
+              View
+            </Link>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,49 @@
+import type { DriverLicenseExtraction } from "@shared/schema";
+
+// Display labels for the typed license fields, in display order
+export const FIELD_LABELS: Array<[keyof DriverLicenseExtraction, string]> = [
+  ["firstName", "First name"],
+  ["middleName", "Middle name"],
+  ["lastName", "Last name"],
+  ["dateOfBirth", "Date of birth"],
+  ["licenseNumber", "License number"],
+  ["licenseClass", "Class"],
+  ["issueDate", "Issue date"],
+  ["expiryDate", "Expiry date"],
+  ["address", "Address"],
+  ["sex", "Sex"],
+  ["height", "Height"],
+  ["eyeColor", "Eye color"],
+  ["restrictions", "Restrictions"],
+  ["endorsements", "Endorsements"],
+  ["issuingJurisdiction", "Issuing jurisdiction"],
+];
+
+const formatFieldValue = (value: DriverLicenseExtraction[keyof DriverLicenseExtraction]) => {
+  if (value && typeof value === "object") {
+    const { street, city, state, postalCode, country } = value;
+    return [street, city, [state, postalCode].filter(Boolean).join(" "), country]
+      .filter(Boolean)
+      .join(", ");
+  }
+  return value;
+};
+
+// Definition list of license fields, shared by the assistant and barcode results
+export default function LicenseFieldList({ fields }: { fields?: DriverLicenseExtraction }) {
+  return (
+    <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+      {FIELD_LABELS.map(([key, label]) => {
+        const value = formatFieldValue(fields?.[key]);
+        return (
+          <div key={key} className="flex justify-between border-b border-gray-100 py-1">
+            <dt className="text-sm text-gray-500">{label}</dt>
+            <dd className="text-sm font-medium text-right">
+              {value || <span className="text-gray-300">—</span>}
+            </dd>
+          </div>
+        );
+      })}
+    </dl>
+  );
+}
@@ -0,0 +1,84 @@
+import { AlertCircle, CheckCircle2, XCircle } from "lucide-react";
+import type { MrzResult } from "@shared/schema";
+
+const CHECK_DIGIT_NAMES: Record<string, string> = {
+  documentNumber: "Document number",
+  dateOfBirth: "Date of birth",
+  expiryDate: "Expiry date",
+  personalNumber: "Personal number",
+  composite: "Composite",
+};
+
+interface MrzPanelProps {
+  mrz: MrzResult;
+}
+
+export default function MrzPanel({ mrz }: MrzPanelProps) {
+  const failedChecks = mrz.checkDigits.filter((digit) => !digit.valid);
+
+  const rows: Array<[string, string | null]> = [
+    ["Document code", mrz.documentCode],
+    ["Issuing state", mrz.issuingState],
+    ["Document number", mrz.documentNumber],
+    ["Surname", mrz.lastName],
+    ["Given names", mrz.givenNames],
+    ["Nationality", mrz.nationality],
+    ["Date of birth", mrz.dateOfBirth],
+    ["Sex", mrz.sex],
+    ["Expiry date", mrz.expiryDate],
+  ];
+
+  return (
+    <div className="mb-4">
+      {/* A failed check digit means the MRZ was misread or altered */}
+      {failedChecks.length > 0 && (
+        <div className="bg-red-50 border-l-4 border-error p-4 rounded mb-4">
+          <div className="flex items-center">
+            <AlertCircle className="h-5 w-5 text-error mr-3" />
+            <div>
+              <p className="font-medium text-error">
+                MRZ check digit verification failed
+              </p>
+              <p className="text-sm text-gray-700 mt-1">
+                {failedChecks
+                  .map((digit) => `${CHECK_DIGIT_NAMES[digit.field] ?? digit.field} (read ${digit.actual}, expected ${digit.expected})`)
+                  .join("; ")}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="border border-gray-200 rounded-md p-4">
+        <div className="text-sm font-medium mb-3">
+          Machine-readable zone ({mrz.format})
+        </div>
+        <pre className="text-xs font-mono bg-gray-50 rounded p-2 mb-3 overflow-x-auto">
+          {mrz.lines.join("\n")}
+        </pre>
+        <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 mb-3">
+          {rows.map(([label, value]) => (
+            <div key={label} className="flex justify-between border-b border-gray-100 py-1">
+              <dt className="text-sm text-gray-500">{label}</dt>
+              <dd className="text-sm font-medium text-right">
+                {value || <span className="text-gray-300">—</span>}
+              </dd>
+            </div>
+          ))}
+        </dl>
+        <div className="flex flex-wrap gap-3">
+          {mrz.checkDigits.map((digit) => (
+            <div key={digit.field} className="flex items-center text-xs">
+              {digit.valid ? (
+                <CheckCircle2 className="h-4 w-4 text-green-600 mr-1" />
+              ) : (
+                <XCircle className="h-4 w-4 text-error mr-1" />
+              )}
+              {CHECK_DIGIT_NAMES[digit.field] ?? digit.field}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Eye, EyeOff, Loader2 } from "lucide-react";
+import { documentTypes, type ExtractionProviderName, type ProfileSummary } from "@shared/schema";
+import { ProfileFormState } from "@/lib/types";
+import { getMissingConfig, getProviderOption, providerOptions } from "@/lib/providers";
+import { documentTypeLabels } from "@/lib/history";
+
+interface ProfileFormProps {
+  // The profile being edited, or undefined for a new one
+  profile?: ProfileSummary;
+  isSaving: boolean;
+  onSave: (values: ProfileFormState) => void;
+  onCancel: () => void;
+}
+
+export default function ProfileForm({ profile, isSaving, onSave, onCancel }: ProfileFormProps) {
+  const [values, setValues] = useState<ProfileFormState>({
+    name: profile?.name ?? "",
+    provider: profile?.provider ?? "assistants",
+    apiKey: "",
+    assistantId: profile?.assistantId ?? "",
+    model: profile?.model ?? "",
+    documentType: profile?.documentType ?? "driver_license",
+  });
+  const [showApiKey, setShowApiKey] = useState(false);
+
+  const providerOption = getProviderOption(values.provider);
+  const missing = getMissingConfig(values, Boolean(profile?.hasApiKey));
+  const canSave = values.name.trim() !== "" && missing.length === 0;
+
+  const handleChange = (key: keyof ProfileFormState, value: string) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (canSave) {
+      onSave(values);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <div className="mb-4">
+        <Label htmlFor="profile-name" className="block text-sm font-medium mb-1">
+          Name
+        </Label>
+        <Input
+          id="profile-name"
+          value={values.name}
+          onChange={(e) => handleChange("name", e.target.value)}
+          placeholder="e.g. California licenses"
+        />
+      </div>
+
+      {/* Extraction Provider Select */}
+      <div className="mb-4">
+        <Label htmlFor="profile-provider" className="block text-sm font-medium mb-1">
+          Extraction Provider
+        </Label>
+        <Select
+          value={values.provider}
+          onValueChange={(value) => handleChange("provider", value as ExtractionProviderName)}
+        >
+          <SelectTrigger id="profile-provider">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {providerOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="mt-1 text-xs text-gray-500">{providerOption.description}</p>
+      </div>
+
+      {/* API Key Input Group */}
+      {providerOption.requires.includes("apiKey") && (
+        <div className="mb-4">
+          <Label htmlFor="profile-api-key" className="block text-sm font-medium mb-1">
+            OpenAI API Key
+          </Label>
+          <div className="relative">
+            <Input
+              type={showApiKey ? "text" : "password"}
+              id="profile-api-key"
+              autoComplete="off"
+              value={values.apiKey}
+              onChange={(e) => handleChange("apiKey", e.target.value)}
+              className="pr-10"
+              placeholder={profile?.hasApiKey ? `Stored key ending in ${profile.apiKeyHint}` : "sk-..."}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="absolute inset-y-0 right-0 flex items-center pr-3"
+              onClick={() => setShowApiKey(!showApiKey)}
+            >
+              {showApiKey ? (
+                <EyeOff className="h-4 w-4 text-gray-400" />
+              ) : (
+                <Eye className="h-4 w-4 text-gray-400" />
+              )}
+            </Button>
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            {profile?.hasApiKey
+              ? "Leave empty to keep the stored key. Keys are encrypted and never shown again."
+              : "The key is encrypted on the server and never shown again."}
+          </p>
+        </div>
+      )}
+
+      {/* Assistant ID Input */}
+      {providerOption.requires.includes("assistantId") && (
+        <div className="mb-4">
+          <Label htmlFor="profile-assistant-id" className="block text-sm font-medium mb-1">
+            Assistant ID
+          </Label>
+          <Input
+            id="profile-assistant-id"
+            value={values.assistantId}
+            onChange={(e) => handleChange("assistantId", e.target.value)}
+            placeholder="asst_..."
+          />
+        </div>
+      )}
+
+      {/* Model Input */}
+      {values.provider === "chat-completions" && (
+        <div className="mb-4">
+          <Label htmlFor="profile-model" className="block text-sm font-medium mb-1">
+            Model
+          </Label>
+          <Input
+            id="profile-model"
+            value={values.model}
+            onChange={(e) => handleChange("model", e.target.value)}
+            placeholder="gpt-4o"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Any vision-capable chat model. Leave empty to use the server default.
+          </p>
+        </div>
+      )}
+
+      <div className="mb-4">
+        <Label htmlFor="profile-document-type" className="block text-sm font-medium mb-1">
+          Document type
+        </Label>
+        <Select
+          value={values.documentType}
+          onValueChange={(value) => handleChange("documentType", value)}
+        >
+          <SelectTrigger id="profile-document-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {documentTypes.map((documentType) => (
+              <SelectItem key={documentType} value={documentType}>
+                {documentTypeLabels[documentType]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!canSave || isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save profile
+        </Button>
+      </div>
+    </form>
+  );
+}
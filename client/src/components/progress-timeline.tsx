@@ -0,0 +1,102 @@
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, Circle, Loader2, XCircle } from "lucide-react";
+import type { ProgressEvent } from "@shared/schema";
+
+interface ProgressTimelineProps {
+  events: ProgressEvent[];
+}
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+export default function ProgressTimeline({ events }: ProgressTimelineProps) {
+  // In a job with several documents, uploads are shown for the current one
+  const documentIndex = [...events].reverse().find((event) => event.documentIndex !== undefined)?.documentIndex;
+
+  // Per-file upload state, keyed by file index
+  const uploads = new Map<number, { name?: string; done: boolean }>();
+  let fileCount = 0;
+  for (const event of events) {
+    if (event.fileIndex === undefined || event.documentIndex !== documentIndex) continue;
+    fileCount = event.fileCount ?? fileCount;
+    uploads.set(event.fileIndex, {
+      name: event.fileName,
+      done: event.phase === "uploaded" || Boolean(uploads.get(event.fileIndex)?.done),
+    });
+  }
+  const uploadedCount = Array.from(uploads.values()).filter((upload) => upload.done).length;
+
+  const runStatus = [...events].reverse().find((event) => event.runStatus)?.runStatus;
+
+  // Per-file events are summarised above, the rest form the timeline
+  const steps = events.filter((event) => event.fileIndex === undefined);
+  const lastStep = steps[steps.length - 1];
+
+  return (
+    <div className="py-4">
+      {fileCount > 0 && (
+        <div className="mb-4">
+          <div className="flex justify-between text-sm mb-1">
+            <span className="font-medium">
+              Uploading images{documentIndex !== undefined && ` of document ${documentIndex + 1}`}
+            </span>
+            <span className="text-gray-500">
+              {uploadedCount} of {fileCount}
+            </span>
+          </div>
+          <Progress value={(uploadedCount / fileCount) * 100} className="h-2 mb-2" />
+          <ul className="text-xs text-gray-500 space-y-1">
+            {Array.from(uploads.entries()).map(([index, upload]) => (
+              <li key={index} className="flex items-center">
+                {upload.done ? (
+                  <CheckCircle2 className="h-3 w-3 text-green-600 mr-1" />
+                ) : (
+                  <Loader2 className="h-3 w-3 animate-spin mr-1" />
+                )}
+                {upload.name ?? `File ${index + 1}`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {runStatus && (
+        <div className="flex items-center text-sm mb-4">
+          <span className="font-medium mr-2">Run status</span>
+          <Badge variant="outline">{runStatus}</Badge>
+        </div>
+      )}
+
+      <ol className="space-y-2">
+        {steps.map((event, index) => {
+          const isCurrent = event === lastStep;
+          const isFailure = event.phase === "failed" || event.phase === "cancelled";
+          return (
+            <li key={`${event.timestamp}-${index}`} className="flex items-start text-sm">
+              {isFailure ? (
+                <XCircle className="h-4 w-4 text-error mr-2 mt-0.5" />
+              ) : isCurrent && event.phase !== "completed" ? (
+                <Loader2 className="h-4 w-4 text-primary animate-spin mr-2 mt-0.5" />
+              ) : event.phase === "completed" ? (
+                <CheckCircle2 className="h-4 w-4 text-green-600 mr-2 mt-0.5" />
+              ) : (
+                <Circle className="h-4 w-4 text-gray-300 mr-2 mt-0.5" />
+              )}
+              <span className={isCurrent ? "font-medium" : "text-gray-600"}>
+                {event.message}
+              </span>
+              <span className="ml-auto text-xs text-gray-400">
+                {formatTime(event.timestamp)}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
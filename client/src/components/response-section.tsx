@@ -1,20 +1,33 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Bot, Copy, AlertCircle, Loader2 } from "lucide-react";
+import { Bot, Copy, AlertCircle, AlertTriangle, Barcode, Loader2 } from "lucide-react";
 import JsonViewer from "@/components/ui/json-viewer";
+import CrossValidationTable from "@/components/cross-validation-table";
+import MrzPanel from "@/components/mrz-panel";
+import ProgressTimeline from "@/components/progress-timeline";
+import JobDocuments from "@/components/job-documents";
+import LicenseFieldList from "@/components/license-field-list";
 import { useRef } from "react";
+import type { JobDocument, ProgressEvent } from "@shared/schema";
+import { OpenAIResponse } from "@/lib/types";
 
 interface ResponseSectionProps {
-  response: any;
+  response: OpenAIResponse | null;
   isLoading: boolean;
+  progress: ProgressEvent[];
   error: string | null;
+  // Set when the images were paired into several documents, which have no
+  // single response
+  documents?: JobDocument[];
   onCopyResponse: () => void;
 }
 
 export default function ResponseSection({
   response,
   isLoading,
+  progress,
   error,
+  documents,
   onCopyResponse,
 }: ResponseSectionProps) {
   // Reference to the JSON viewer content for direct copying
@@ -47,7 +60,9 @@ export default function ResponseSection({
           <h2 className="text-xl font-medium mb-4">Assistant Response</h2>
 
           {/* Response Display Area */}
-          {isLoading ? (
+          {isLoading && progress.length > 0 ? (
+            <ProgressTimeline events={progress} />
+          ) : isLoading ? (
             <div className="py-12 text-center">
               <Loader2 className="h-12 w-12 text-gray-400 mx-auto animate-spin mb-3" />
               <p className="text-gray-500">Processing your request...</p>
@@ -66,24 +81,78 @@ export default function ResponseSection({
                 </div>
               </div>
             </div>
+          ) : documents && documents.length > 1 ? (
+            <JobDocuments documents={documents} />
           ) : response ? (
-            <div className="bg-gray-50 rounded-md">
-              <div className="flex items-center justify-between border-b border-gray-200 px-4 py-3">
-                <div className="text-sm font-medium">JSON Response</div>
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="sm"
-                  className="text-sm text-primary hover:text-blue-700"
-                  onClick={handleCopy}
-                >
-                  <Copy className="h-4 w-4 mr-1" />
-                  Copy
-                </Button>
+            <div>
+              {/* Validation issues reported by the server */}
+              {response.issues && response.issues.length > 0 && (
+                <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 rounded mb-4">
+                  <div className="flex items-start">
+                    <AlertTriangle className="h-5 w-5 text-yellow-500 mr-3 mt-0.5" />
+                    <div>
+                      <p className="font-medium text-sm">
+                        {response.issues.length} field{response.issues.length === 1 ? "" : "s"} failed validation
+                      </p>
+                      <ul className="text-sm text-gray-700 mt-1 list-disc pl-4">
+                        {response.issues.map((issue, index) => (
+                          <li key={`${issue.path}-${index}`}>
+                            {issue.path ? <span className="font-mono">{issue.path}</span> : "response"}: {issue.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Machine-readable zone of passports and ID cards */}
+              {response.mrz && <MrzPanel mrz={response.mrz} />}
+
+              {/* Field-by-field agreement between the barcode and the card */}
+              {response.crossValidation && (
+                <CrossValidationTable result={response.crossValidation} />
+              )}
+
+              {/* Typed license fields */}
+              <div className="mb-4">
+                <LicenseFieldList fields={response.fields} />
               </div>
-              <div className="p-4 overflow-auto max-h-[400px]">
-                <div ref={jsonViewerRef}>
-                  <JsonViewer data={response} />
+
+              {/* Fields decoded from the PDF417 barcode on the back */}
+              {response.barcode && (
+                <div className="border border-gray-200 rounded-md p-4 mb-4">
+                  <div className="flex items-center mb-3">
+                    <Barcode className="h-4 w-4 text-gray-500 mr-2" />
+                    <span className="text-sm font-medium">
+                      Barcode data (AAMVA version {response.barcode.aamvaVersion})
+                    </span>
+                    <span className="text-xs text-gray-500 ml-auto">
+                      {response.barcode.fileName}
+                    </span>
+                  </div>
+                  <LicenseFieldList fields={response.barcode.fields} />
+                </div>
+              )}
+
+              <div className="bg-gray-50 rounded-md">
+                <div className="flex items-center justify-between border-b border-gray-200 px-4 py-3">
+                  <div className="text-sm font-medium">JSON Response</div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="text-sm text-primary hover:text-blue-700"
+                    onClick={handleCopy}
+                  >
+                    <Copy className="h-4 w-4 mr-1" />
+                    Copy
+                  </Button>
+                </div>
+                <div className="p-4 overflow-auto max-h-[400px]">
+                  <div ref={jsonViewerRef}>
+                    <JsonViewer data={response.fields ?? {}} />
+                  </div>
                 </div>
               </div>
             </div>
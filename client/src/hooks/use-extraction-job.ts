@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Job } from "@shared/schema";
+import { apiRequest, queryClient, readErrorMessage } from "@/lib/queryClient";
+
+// The active job id is kept in localStorage so a refresh resumes polling
+const STORAGE_KEY = "extraction-job-id";
+const POLL_INTERVAL_MS = 1000;
+
+export function isJobActive(job: Job | undefined): boolean {
+  return job?.status === "queued" || job?.status === "running";
+}
+
+export function useExtractionJob() {
+  const [jobId, setJobId] = useState<string | null>(() =>
+    localStorage.getItem(STORAGE_KEY),
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const query = useQuery<Job>({
+    queryKey: [`/api/jobs/${jobId}`],
+    enabled: Boolean(jobId),
+    staleTime: 0,
+    refetchInterval: (query) =>
+      !query.state.data || isJobActive(query.state.data) ? POLL_INTERVAL_MS : false,
+  });
+
+  // Forget jobs the server no longer knows about, e.g. after a restart
+  useEffect(() => {
+    if (query.isError) {
+      console.log(`[useExtractionJob] Could not load job ${jobId}, clearing it`);
+      localStorage.removeItem(STORAGE_KEY);
+      setJobId(null);
+    }
+  }, [query.isError, jobId]);
+
+  // Sending the same idempotency key again returns the job it started
+  const submitJob = useCallback(async (formData: FormData, idempotencyKey?: string) => {
+    setIsSubmitting(true);
+    try {
+      const res = await fetch("/api/jobs", {
+        method: "POST",
+        body: formData,
+        headers: idempotencyKey ? { "Idempotency-Key": idempotencyKey } : undefined,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        throw new Error(await readErrorMessage(res));
+      }
+
+      const job: Job = await res.json();
+      localStorage.setItem(STORAGE_KEY, job.id);
+      setJobId(job.id);
+      return job;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, []);
+
+  // Ask the server to stop the job; the cancelled job replaces the cached one
+  const cancelJob = useCallback(async () => {
+    if (!jobId) return;
+    const res = await apiRequest("DELETE", `/api/jobs/${jobId}`);
+    const job: Job = await res.json();
+    queryClient.setQueryData([`/api/jobs/${jobId}`], job);
+    return job;
+  }, [jobId]);
+
+  const clearJob = useCallback(() => {
+    localStorage.removeItem(STORAGE_KEY);
+    setJobId(null);
+  }, []);
+
+  return {
+    job: jobId ? query.data : undefined,
+    isSubmitting,
+    submitJob,
+    cancelJob,
+    clearJob,
+  };
+}
@@ -0,0 +1,47 @@
+import { useEffect, useRef, useState } from "react";
+import type { ImageQuality } from "@shared/schema";
+import { readErrorMessage } from "@/lib/queryClient";
+
+// Quality of each selected file, checked on the server as soon as the file is
+// added. A file without an entry is still being checked; null means the check
+// itself failed, which never blocks a submission.
+export function useImageQuality(files: File[], enabled: boolean): Map<File, ImageQuality | null> {
+  const [results, setResults] = useState<Map<File, ImageQuality | null>>(new Map());
+  // Files already sent, so a re-render does not check them twice
+  const requested = useRef(new Set<File>());
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    for (const file of files) {
+      if (requested.current.has(file)) continue;
+      requested.current.add(file);
+
+      const formData = new FormData();
+      formData.append("files", file);
+      fetch("/api/images/quality", { method: "POST", body: formData, credentials: "include" })
+        .then(async (res) => {
+          if (!res.ok) throw new Error(await readErrorMessage(res));
+          const [quality]: ImageQuality[] = await res.json();
+          return quality;
+        })
+        .catch((error: Error) => {
+          console.log(`[useImageQuality] Could not check ${file.name}: ${error.message}`);
+          return null;
+        })
+        .then((quality) => setResults((previous) => new Map(previous).set(file, quality)));
+    }
+
+    // Forget files that were removed
+    const selected = new Set(files);
+    requested.current.forEach((file) => {
+      if (!selected.has(file)) requested.current.delete(file);
+    });
+    setResults((previous) => {
+      if (Array.from(previous.keys()).every((file) => selected.has(file))) return previous;
+      return new Map(Array.from(previous).filter(([file]) => selected.has(file)));
+    });
+  }, [files, enabled]);
+
+  return results;
+}
@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+import type { Job, ProgressEvent } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { isJobActive } from "@/hooks/use-extraction-job";
+
+// Subscribe to a running job's progress over Server-Sent Events. Once the
+// job has finished, the timeline stored on the job itself is returned.
+export function useJobProgress(job: Job | undefined): ProgressEvent[] {
+  const [events, setEvents] = useState<ProgressEvent[]>([]);
+  const jobId = job?.id;
+  const active = isJobActive(job);
+
+  useEffect(() => {
+    setEvents([]);
+    if (!jobId || !active) return;
+
+    // The server replays earlier events on connect, so start from scratch
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+
+    source.addEventListener("progress", (message) => {
+      const event: ProgressEvent = JSON.parse((message as MessageEvent).data);
+      setEvents((previous) => [...previous, event]);
+    });
+
+    source.addEventListener("done", () => {
+      source.close();
+      // Fetch the finished job right away instead of waiting for the next poll
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}`] });
+    });
+
+    source.onerror = () => {
+      console.log(`[useJobProgress] Event stream for job ${jobId} closed`);
+      source.close();
+    };
+
+    return () => source.close();
+  }, [jobId, active]);
+
+  if (!job) return [];
+  return events.length > job.progress.length ? events : job.progress;
+}
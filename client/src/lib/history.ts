@@ -0,0 +1,110 @@
+import type {
+  Batch,
+  DocumentSide,
+  DocumentType,
+  ExtractionStatus,
+  ImagePreprocessing,
+  ImageQuality,
+  ImageQualityIssueCode,
+  JobStatus,
+  PreprocessingChange,
+} from "@shared/schema";
+
+export const statusLabels: Record<ExtractionStatus, string> = {
+  running: "Running",
+  completed: "Completed",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+export const documentTypeLabels: Record<DocumentType, string> = {
+  driver_license: "Driver's license",
+  passport: "Passport",
+  id_card: "ID card",
+  unknown: "Unknown",
+};
+
+// Badge variant for each extraction status
+export const statusVariants: Record<ExtractionStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  running: "secondary",
+  completed: "default",
+  failed: "destructive",
+  cancelled: "outline",
+};
+
+// Statuses of jobs, batches and their documents
+export const jobStatusLabels: Record<JobStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  completed: "Completed",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+export const jobStatusVariants: Record<JobStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  running: "secondary",
+  completed: "default",
+  failed: "destructive",
+  cancelled: "outline",
+};
+
+export function isBatchActive(batch: Batch): boolean {
+  return batch.status === "queued" || batch.status === "running";
+}
+
+// Documents of a batch that are no longer waiting or running
+export function countFinishedDocuments(batch: Batch): number {
+  return batch.documents.filter((document) => document.status !== "queued" && document.status !== "running").length;
+}
+
+export const documentSideLabels: Record<DocumentSide, string> = {
+  front: "Front",
+  back: "Back",
+  other: "Other",
+};
+
+export const formatDateTime = (value: string | Date) =>
+  new Date(value).toLocaleString("en-US", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+export const preprocessingChangeLabels: Record<PreprocessingChange, string> = {
+  oriented: "rotated upright",
+  converted: "converted",
+  resized: "resized",
+  metadata_stripped: "metadata removed",
+  recompressed: "recompressed",
+  cropped_to_card: "cropped to the card",
+};
+
+export const imageQualityIssueLabels: Record<ImageQualityIssueCode, string> = {
+  blurry: "blurry",
+  overexposed: "overexposed",
+  glare: "glare",
+  low_resolution: "low resolution",
+  cropped: "card cut off",
+};
+
+// One line on what the quality check found in an image
+export function describeQuality(report: ImageQuality): string {
+  if (report.error) return `Quality not checked: ${report.error}`;
+  if (report.issues.length === 0) return "Quality check passed";
+  return `Quality check: ${report.issues.map((issue) => imageQualityIssueLabels[issue.code]).join(", ")}`;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// One line on how an image was prepared before it was sent to the provider
+export function describePreprocessing(report: ImagePreprocessing): string {
+  if (report.error) return `Sent unchanged: ${report.error}`;
+  if (report.changes.length === 0) return "Sent unchanged";
+  const changes = report.changes.map((change) => preprocessingChangeLabels[change]).join(", ");
+  return (
+    `Sent as ${report.width}×${report.height} ${report.format?.toUpperCase()}, ${formatSize(report.size)} ` +
+    `(was ${report.originalWidth}×${report.originalHeight} ${report.originalFormat?.toUpperCase()}, ` +
+    `${formatSize(report.originalSize)}): ${changes}`
+  );
+}
@@ -0,0 +1,45 @@
+import type { ExtractionProviderName } from "@shared/schema";
+import { ProfileFormState } from "@/lib/types";
+
+interface ProviderOption {
+  value: ExtractionProviderName;
+  label: string;
+  description: string;
+  requires: Array<"apiKey" | "assistantId">;
+}
+
+export const providerOptions: ProviderOption[] = [
+  {
+    value: "assistants",
+    label: "OpenAI Assistant",
+    description: "Runs your Assistant on a thread with the uploaded images.",
+    requires: ["apiKey", "assistantId"],
+  },
+  {
+    value: "chat-completions",
+    label: "OpenAI Chat Completions",
+    description: "Sends the images straight to a vision model.",
+    requires: ["apiKey"],
+  },
+  {
+    value: "fixture",
+    label: "Local fixtures (offline)",
+    description: "Returns canned JSON for each image without calling OpenAI.",
+    requires: [],
+  },
+];
+
+export function getProviderOption(provider: ExtractionProviderName): ProviderOption {
+  return providerOptions.find((option) => option.value === provider) ?? providerOptions[0];
+}
+
+// Returns the profile fields the selected provider still needs. A key that is
+// already stored on the server counts as present.
+export function getMissingConfig(
+  settings: Pick<ProfileFormState, "provider" | "apiKey" | "assistantId">,
+  hasStoredApiKey = false
+): Array<"apiKey" | "assistantId"> {
+  return getProviderOption(settings.provider).requires.filter(
+    (key) => !settings[key] && !(key === "apiKey" && hasStoredApiKey),
+  );
+}
@@ -7,6 +7,28 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Message of a failed API response. Routes reply with { error } and the
+// error handler with { message }, so only that message is returned rather
+// than the raw response body.
+export async function readErrorMessage(res: Response): Promise<string> {
+  const body = await res.json().catch(() => null);
+  return body?.error || body?.message || res.statusText;
+}
+
+// Send a JSON body and return the parsed reply, throwing the route's error message
+export async function sendJson<T>(method: string, url: string, body: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+  if (!res.ok) {
+    throw new Error(await readErrorMessage(res));
+  }
+  return (await res.json()) as T;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -1,6 +1,20 @@
+import type { DocumentType, ExtractionProviderName, OpenAIResponse } from "@shared/schema";
+
+export type { OpenAIResponse };
+
 export interface ConfigState {
+  // Id of the selected extraction profile, as a string for the Select
+  profileId: string;
+}
+
+// Fields of the profile editor; an empty apiKey keeps the stored key
+export interface ProfileFormState {
+  name: string;
+  provider: ExtractionProviderName;
   apiKey: string;
   assistantId: string;
+  model: string;
+  documentType: DocumentType;
 }
 
 export interface FileWithPreview extends File {
@@ -8,12 +22,6 @@ export interface FileWithPreview extends File {
 }
 
 export interface OpenAIRequest {
-  apiKey: string;
-  assistantId: string;
+  profileId: string;
   files: File[];
 }
-
-export interface OpenAIResponse {
-  data: any;
-  error?: string;
-}
@@ -0,0 +1,522 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, DollarSign, Loader2, UserPlus, Webhook } from "lucide-react";
+import {
+  createMemberSchema,
+  imageQualityGateModes,
+  userRoles,
+  type AppSettings,
+  type ImageQualityGateMode,
+  type PublicUser,
+  type QuotaUsage,
+  type Usage,
+  type UserRole,
+} from "@shared/schema";
+import { formatDateTime } from "@/lib/history";
+import { queryClient, sendJson } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+const roleLabels: Record<UserRole, string> = {
+  operator: "Operator",
+  reviewer: "Reviewer",
+  admin: "Admin",
+};
+
+const roleDescriptions: Record<UserRole, string> = {
+  operator: "Submits images and sees their own results",
+  reviewer: "Also sees and corrects everyone's results",
+  admin: "Also manages profiles, users, retention and webhooks",
+};
+
+const qualityGateLabels: Record<ImageQualityGateMode, string> = {
+  off: "Off",
+  warn: "Flag poor photos",
+  reject: "Refuse poor photos",
+};
+
+// Adds a member to the admin's organization with an initial password
+function AddMemberForm() {
+  const { toast } = useToast();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<UserRole>("operator");
+  const [error, setError] = useState<string | null>(null);
+
+  const addMutation = useMutation({
+    mutationFn: (member: { username: string; password: string; role: UserRole }) =>
+      sendJson<PublicUser>("POST", "/api/users", member),
+    onSuccess: (user) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setUsername("");
+      setPassword("");
+      setRole("operator");
+      toast({ title: "Member added", description: user.username });
+    },
+    onError: (error: Error) => setError(error.message),
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const parsed = createMemberSchema.safeParse({ username, password, role });
+    setError(parsed.success ? null : parsed.error.issues[0].message);
+    if (parsed.success) {
+      addMutation.mutate(parsed.data);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="border-t border-gray-100 pt-4 mt-4">
+      <h3 className="text-sm font-medium mb-2">Add a member</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+        <Input
+          aria-label="Username"
+          placeholder="Username"
+          autoComplete="off"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+        />
+        <Input
+          aria-label="Initial password"
+          placeholder="Initial password"
+          type="password"
+          autoComplete="new-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+          <SelectTrigger aria-label="Role">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {userRoles.map((option) => (
+              <SelectItem key={option} value={option}>
+                {roleLabels[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="submit" disabled={addMutation.isPending}>
+          {addMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <UserPlus className="h-4 w-4 mr-1" />
+          )}
+          Add
+        </Button>
+      </div>
+      {error && <p className="text-sm text-error mt-2">{error}</p>}
+    </form>
+  );
+}
+
+function UsersCard() {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+
+  const { data: users = [], isLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+    staleTime: 0,
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: ({ id, role }: { id: number; role: UserRole }) =>
+      sendJson<PublicUser>("PATCH", `/api/users/${id}`, { role }),
+    onSuccess: (user) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      // Changing your own role changes what the UI offers you
+      if (user.id === currentUser?.id) {
+        queryClient.setQueryData(["/api/user"], user);
+      }
+      toast({ title: "Role updated", description: `${user.username} is now ${roleLabels[user.role]}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error updating role", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <h2 className="text-xl font-medium mb-4">Members</h2>
+        <ul className="text-sm text-gray-500 mb-4 space-y-1">
+          {userRoles.map((role) => (
+            <li key={role}>
+              <span className="font-medium text-gray-700">{roleLabels[role]}:</span>{" "}
+              {roleDescriptions[role]}
+            </li>
+          ))}
+        </ul>
+
+        {isLoading ? (
+          <div className="py-12 text-center">
+            <Loader2 className="h-12 w-12 text-gray-400 mx-auto animate-spin mb-3" />
+            <p className="text-gray-500">Loading users...</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Username</TableHead>
+                <TableHead className="w-48">Role</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map((user) => (
+                <TableRow key={user.id}>
+                  <TableCell>
+                    {user.username}
+                    {user.id === currentUser?.id && (
+                      <span className="text-xs text-gray-500 ml-2">(you)</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={user.role}
+                      disabled={roleMutation.isPending}
+                      onValueChange={(role) =>
+                        roleMutation.mutate({ id: user.id, role: role as UserRole })
+                      }
+                    >
+                      <SelectTrigger aria-label={`Role of ${user.username}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {userRoles.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {roleLabels[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        <AddMemberForm />
+      </CardContent>
+    </Card>
+  );
+}
+
+function SettingsCard() {
+  const { toast } = useToast();
+  const [retentionDays, setRetentionDays] = useState("");
+  const [duplicateWindow, setDuplicateWindow] = useState("");
+  const [qualityGate, setQualityGate] = useState<ImageQualityGateMode>("warn");
+
+  const { data: settings } = useQuery<AppSettings>({
+    queryKey: ["/api/settings"],
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setRetentionDays(settings.retentionDays === null ? "" : String(settings.retentionDays));
+      setDuplicateWindow(
+        settings.duplicateWindowMinutes === null ? "" : String(settings.duplicateWindowMinutes)
+      );
+      setQualityGate(settings.imageQualityGate);
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: (update: Partial<AppSettings>) =>
+      sendJson<AppSettings>("PUT", "/api/settings", update),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/settings"], saved);
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/extractions"),
+      });
+      toast({ title: "Settings saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error saving settings", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const days = retentionDays.trim();
+    const minutes = duplicateWindow.trim();
+    saveMutation.mutate({
+      retentionDays: days ? Number(days) : null,
+      duplicateWindowMinutes: minutes ? Number(minutes) : null,
+      imageQualityGate: qualityGate,
+    });
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <h2 className="text-xl font-medium mb-4">Retention, reuse and quality</h2>
+        <form onSubmit={handleSubmit}>
+          <div className="mb-4">
+            <Label htmlFor="retention-days" className="block text-sm font-medium mb-1">
+              Keep extractions for (days)
+            </Label>
+            <Input
+              id="retention-days"
+              type="number"
+              min={1}
+              max={3650}
+              placeholder="Keep forever"
+              value={retentionDays}
+              onChange={(e) => setRetentionDays(e.target.value)}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Older extractions and their images are deleted. Leave empty to keep everything.
+            </p>
+          </div>
+          <div className="mb-4">
+            <Label htmlFor="duplicate-window" className="block text-sm font-medium mb-1">
+              Reuse results of identical submissions for (minutes)
+            </Label>
+            <Input
+              id="duplicate-window"
+              type="number"
+              min={1}
+              max={10080}
+              placeholder="Never reuse"
+              value={duplicateWindow}
+              onChange={(e) => setDuplicateWindow(e.target.value)}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              The same images submitted again with the same profile get the earlier result
+              instead of a new run. Leave empty to always run a new extraction.
+            </p>
+          </div>
+          <div className="mb-4">
+            <Label htmlFor="quality-gate" className="block text-sm font-medium mb-1">
+              Image quality check
+            </Label>
+            <Select
+              value={qualityGate}
+              onValueChange={(value) => setQualityGate(value as ImageQualityGateMode)}
+            >
+              <SelectTrigger id="quality-gate">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {imageQualityGateModes.map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {qualityGateLabels[mode]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500 mt-1">
+              Blurry, overexposed and low-resolution photos are caught before the model runs.
+              Flagged photos are still extracted; refused ones are sent back without using a
+              model call or quota.
+            </p>
+          </div>
+          <div className="text-right">
+            <Button type="submit" disabled={!settings || saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function QuotaMeter({ label, usage }: { label: string; usage: QuotaUsage }) {
+  return (
+    <div className="mb-4">
+      <div className="flex justify-between text-sm mb-1">
+        <span className="font-medium">{label}</span>
+        <span>
+          {usage.used} / {usage.limit ?? "unlimited"}
+        </span>
+      </div>
+      <Progress
+        value={usage.limit ? Math.min(100, (usage.used / usage.limit) * 100) : 0}
+        className="h-2"
+      />
+      <p className="text-xs text-gray-500 mt-1">Resets {formatDateTime(usage.resetsAt)}</p>
+    </div>
+  );
+}
+
+function UsageCard() {
+  const { toast } = useToast();
+  const [daily, setDaily] = useState("");
+  const [monthly, setMonthly] = useState("");
+
+  const { data: usage } = useQuery<Usage>({
+    queryKey: ["/api/usage"],
+    staleTime: 0,
+  });
+  const { data: settings } = useQuery<AppSettings>({
+    queryKey: ["/api/settings"],
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setDaily(settings.dailySubmissionQuota === null ? "" : String(settings.dailySubmissionQuota));
+      setMonthly(settings.monthlySubmissionQuota === null ? "" : String(settings.monthlySubmissionQuota));
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: (update: Partial<AppSettings>) =>
+      sendJson<AppSettings>("PUT", "/api/settings", update),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/settings"], saved);
+      queryClient.invalidateQueries({ queryKey: ["/api/usage"] });
+      toast({ title: "Quotas saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error saving quotas", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    saveMutation.mutate({
+      dailySubmissionQuota: daily.trim() ? Number(daily) : null,
+      monthlySubmissionQuota: monthly.trim() ? Number(monthly) : null,
+    });
+  };
+
+  const describeLimit = (limit: number) => (limit === 0 ? "unlimited" : `${limit} per minute`);
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <h2 className="text-xl font-medium mb-4">Usage and quotas</h2>
+        {usage ? (
+          <>
+            <QuotaMeter label="Today" usage={usage.daily} />
+            <QuotaMeter label="This month" usage={usage.monthly} />
+            <p className="text-xs text-gray-500 mb-6">
+              Submissions are also limited to {describeLimit(usage.rateLimits.perUser)} per user,{" "}
+              {describeLimit(usage.rateLimits.perToken)} per API token and{" "}
+              {describeLimit(usage.rateLimits.perIp)} per IP address.
+            </p>
+          </>
+        ) : (
+          <div className="py-6 text-center">
+            <Loader2 className="h-8 w-8 text-gray-400 mx-auto animate-spin" />
+          </div>
+        )}
+        <form onSubmit={handleSubmit}>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div>
+              <Label htmlFor="daily-quota" className="block text-sm font-medium mb-1">
+                Daily quota
+              </Label>
+              <Input
+                id="daily-quota"
+                type="number"
+                min={1}
+                placeholder="Unlimited"
+                value={daily}
+                onChange={(e) => setDaily(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="monthly-quota" className="block text-sm font-medium mb-1">
+                Monthly quota
+              </Label>
+              <Input
+                id="monthly-quota"
+                type="number"
+                min={1}
+                placeholder="Unlimited"
+                value={monthly}
+                onChange={(e) => setMonthly(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 mb-4">
+            Extractions your organization may run per UTC day and calendar month. Reused
+            results of duplicate submissions do not count.
+          </p>
+          <div className="text-right">
+            <Button type="submit" disabled={!settings || saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Admin() {
+  const { can } = useAuth();
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <header className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-secondary mb-2">Administration</h1>
+          <p className="text-gray-500">Members, roles and data settings of your organization</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {can("costs:read") && (
+            <Button variant="outline" asChild>
+              <Link href="/costs">
+                <DollarSign className="h-4 w-4 mr-1" />
+                Costs
+              </Link>
+            </Button>
+          )}
+          {can("webhooks:manage") && (
+            <Button variant="outline" asChild>
+              <Link href="/webhooks">
+                <Webhook className="h-4 w-4 mr-1" />
+                Webhooks
+              </Link>
+            </Button>
+          )}
+          <Button variant="outline" asChild>
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      {!can("users:manage") && !can("settings:manage") ? (
+        <p className="text-sm text-gray-500">Only admins can manage users and settings.</p>
+      ) : (
+        <main className="space-y-8">
+          {can("users:manage") && <UsersCard />}
+          {can("settings:manage") && <SettingsCard />}
+          {can("settings:manage") && <UsageCard />}
+        </main>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, Copy, KeyRound, Loader2, Trash2 } from "lucide-react";
+import {
+  apiTokenScopePermissions,
+  apiTokenScopes,
+  createApiTokenSchema,
+  type ApiTokenScope,
+  type ApiTokenSummary,
+  type CreatedApiToken,
+} from "@shared/schema";
+import { api, type ApiRoute } from "@shared/api";
+import { formatDateTime } from "@/lib/history";
+import { queryClient, readErrorMessage, sendJson } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+const scopeDescriptions: Record<ApiTokenScope, string> = {
+  "jobs:write": "Submit images for extraction",
+  "jobs:read": "Read the status and result of submitted jobs",
+  "extractions:read": "List extractions and download their results",
+};
+
+// Endpoints of the versioned API, shown as a quick reference. They come from
+// the same contracts the server validates requests against.
+const endpoints = Object.values(api as Record<string, ApiRoute>)
+  .filter((route) => route.auth === "token")
+  .map((route) => [route.method.toUpperCase(), route.path, route.permission] as const);
+
+export default function ApiTokens() {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // The new token, shown until the page is left since it cannot be read again
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+
+  // Scopes the user's role allows
+  const availableScopes = apiTokenScopes.filter((scope) => {
+    const permission = apiTokenScopePermissions[scope];
+    return !permission || can(permission);
+  });
+
+  const { data: tokens = [], isLoading } = useQuery<ApiTokenSummary[]>({
+    queryKey: ["/api/tokens"],
+    staleTime: 0,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (input: { name: string; scopes: ApiTokenScope[] }) =>
+      sendJson<CreatedApiToken>("POST", "/api/tokens", input),
+    onSuccess: (token) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+      setCreated(token);
+      setName("");
+      setScopes([]);
+    },
+    onError: (error: Error) => setError(error.message),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (token: ApiTokenSummary) => {
+      const res = await fetch(`/api/tokens/${token.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        throw new Error(await readErrorMessage(res));
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error revoking token", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)));
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const parsed = createApiTokenSchema.safeParse({ name, scopes });
+    setError(parsed.success ? null : parsed.error.issues[0].message);
+    if (parsed.success) {
+      createMutation.mutate(parsed.data);
+    }
+  };
+
+  const handleRevoke = (token: ApiTokenSummary) => {
+    if (window.confirm(`Revoke the token "${token.name}"? Systems using it will stop working.`)) {
+      revokeMutation.mutate(token);
+    }
+  };
+
+  const copyToken = (token: string) => {
+    navigator.clipboard
+      .writeText(token)
+      .then(() => toast({ title: "Copied to clipboard", description: "API token copied" }))
+      .catch(() =>
+        toast({ title: "Error", description: "Failed to copy to clipboard", variant: "destructive" })
+      );
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <header className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-secondary mb-2">API Tokens</h1>
+          <p className="text-gray-500">
+            Personal tokens that let other systems call the extraction API as you
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back
+          </Link>
+        </Button>
+      </header>
+
+      <main className="space-y-8">
+        {/* Create a token */}
+        <Card>
+          <CardContent className="pt-6">
+            <h2 className="text-xl font-medium mb-4">New token</h2>
+
+            {created && (
+              <div className="bg-green-50 border-l-4 border-green-500 p-4 rounded mb-4">
+                <p className="font-medium text-sm mb-2">
+                  Copy this token now. It will not be shown again.
+                </p>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 bg-white border border-gray-200 rounded px-2 py-1 text-xs font-mono break-all">
+                    {created.token}
+                  </code>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => copyToken(created.token)}>
+                    <Copy className="h-4 w-4 mr-1" />
+                    Copy
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit}>
+              <div className="mb-4">
+                <Label htmlFor="token-name" className="block text-sm font-medium mb-1">
+                  Name
+                </Label>
+                <Input
+                  id="token-name"
+                  placeholder="e.g. Onboarding backend"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+
+              <fieldset className="mb-4">
+                <legend className="block text-sm font-medium mb-2">Scopes</legend>
+                <div className="space-y-2">
+                  {availableScopes.map((scope) => (
+                    <div key={scope} className="flex items-start gap-2">
+                      <Checkbox
+                        id={`scope-${scope}`}
+                        checked={scopes.includes(scope)}
+                        onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                      />
+                      <Label htmlFor={`scope-${scope}`} className="text-sm leading-none">
+                        <span className="font-mono">{scope}</span>
+                        <span className="block text-xs text-gray-500 mt-1">
+                          {scopeDescriptions[scope]}
+                        </span>
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </fieldset>
+
+              {error && <p className="text-sm text-error mb-4">{error}</p>}
+              <div className="text-right">
+                <Button type="submit" disabled={createMutation.isPending}>
+                  {createMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <KeyRound className="h-4 w-4 mr-1" />
+                  )}
+                  Create token
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Existing tokens */}
+        <Card>
+          <CardContent className="pt-6">
+            <h2 className="text-xl font-medium mb-4">Your tokens</h2>
+            {isLoading ? (
+              <div className="py-12 text-center">
+                <Loader2 className="h-12 w-12 text-gray-400 mx-auto animate-spin mb-3" />
+                <p className="text-gray-500">Loading tokens...</p>
+              </div>
+            ) : tokens.length === 0 ? (
+              <p className="text-sm text-gray-500">You have not created any tokens</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Token</TableHead>
+                    <TableHead>Scopes</TableHead>
+                    <TableHead>Last used</TableHead>
+                    <TableHead className="w-24" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tokens.map((token) => (
+                    <TableRow key={token.id}>
+                      <TableCell>{token.name}</TableCell>
+                      <TableCell className="font-mono text-xs">{token.tokenPrefix}…</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {token.scopes.map((scope) => (
+                            <Badge key={scope} variant="secondary" className="font-mono">
+                              {scope}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {token.lastUsedAt ? formatDateTime(token.lastUsedAt) : "Never"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {token.revokedAt ? (
+                          <Badge variant="outline">Revoked</Badge>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRevoke(token)}
+                            disabled={revokeMutation.isPending}
+                            aria-label={`Revoke ${token.name}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Quick reference */}
+        <Card>
+          <CardContent className="pt-6">
+            <h2 className="text-xl font-medium mb-4">Using the API</h2>
+            <p className="text-sm text-gray-700 mb-4">
+              Send the token as a bearer token. Jobs run with one of your organization's
+              extraction profiles, chosen by its id. Every endpoint, with its request and
+              response shapes, is described in the{" "}
+              <a href="/api/docs" target="_blank" rel="noreferrer" className="underline">
+                API reference
+              </a>
+              .
+            </p>
+            <pre className="bg-gray-50 rounded-md p-4 text-xs font-mono overflow-auto mb-4">
+{`curl -H "Authorization: Bearer $TOKEN" \\
+  -F profileId=1 -F files=@front.jpg -F files=@back.jpg \\
+  ${window.location.origin}/api/v1/jobs`}
+            </pre>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Scope</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {endpoints.map(([method, path, scope]) => (
+                  <TableRow key={`${method} ${path}`}>
+                    <TableCell className="font-mono text-xs">
+                      {method} {path}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{scope}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
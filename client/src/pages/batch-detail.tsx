@@ -0,0 +1,253 @@
+import { Link, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, ArrowLeft, Download, Loader2, RotateCw, XCircle } from "lucide-react";
+import type { Batch, BatchDocument } from "@shared/schema";
+import {
+  countFinishedDocuments,
+  documentSideLabels,
+  formatDateTime,
+  isBatchActive,
+  jobStatusLabels,
+  jobStatusVariants,
+} from "@/lib/history";
+import { apiRequest, queryClient, sendJson } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+const POLL_INTERVAL_MS = 2000;
+
+const isRetryable = (document: BatchDocument) => document.status === "failed" || document.status === "cancelled";
+
+// Per-document status of a batch, refreshed while it runs
+export default function BatchDetail() {
+  const { id } = useParams<{ id: string }>();
+  const batchKey = `/api/batches/${id}`;
+  const { can } = useAuth();
+  const { toast } = useToast();
+
+  const { data: batch, isLoading, error } = useQuery<Batch>({
+    queryKey: [batchKey],
+    staleTime: 0,
+    refetchInterval: (query) =>
+      !query.state.data || isBatchActive(query.state.data) ? POLL_INTERVAL_MS : false,
+  });
+
+  const onBatchChanged = (updated: Batch) => {
+    queryClient.setQueryData([batchKey], updated);
+    queryClient.invalidateQueries({ queryKey: ["/api/batches"] });
+  };
+
+  const retryMutation = useMutation({
+    // Without an index every failed document is retried
+    mutationFn: (index?: number) =>
+      sendJson<Batch>("POST", index === undefined ? `${batchKey}/retry` : `${batchKey}/documents/${index}/retry`, {}),
+    onSuccess: onBatchChanged,
+    onError: (error: Error) => {
+      toast({ title: "Error retrying", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => (await apiRequest("DELETE", batchKey)).json() as Promise<Batch>,
+    onSuccess: (updated) => {
+      onBatchChanged(updated);
+      toast({ title: "Batch cancelled" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error cancelling the batch", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const finished = batch ? countFinishedDocuments(batch) : 0;
+  const completed = batch?.documents.filter((document) => document.status === "completed").length ?? 0;
+  const retryable = batch?.documents.filter(isRetryable).length ?? 0;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      <header className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-secondary mb-2">Batch</h1>
+          {batch && (
+            <div className="flex items-center gap-2">
+              <Badge variant={jobStatusVariants[batch.status]}>{jobStatusLabels[batch.status]}</Badge>
+              <span className="text-sm text-gray-500">
+                Started {formatDateTime(batch.createdAt)}, {batch.fileCount} images
+              </span>
+            </div>
+          )}
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/batches">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Batches
+          </Link>
+        </Button>
+      </header>
+
+      {isLoading ? (
+        <div className="py-12 text-center">
+          <Loader2 className="h-12 w-12 text-gray-400 mx-auto animate-spin mb-3" />
+          <p className="text-gray-500">Loading batch...</p>
+        </div>
+      ) : error || !batch ? (
+        <div className="bg-red-50 border-l-4 border-error p-4 rounded flex items-center">
+          <AlertCircle className="h-5 w-5 text-error mr-3" />
+          <p className="text-sm text-gray-700">{(error as Error | null)?.message ?? "Batch not found"}</p>
+        </div>
+      ) : (
+        <main className="space-y-8">
+          <Card>
+            <CardContent className="pt-6">
+              {batch.status === "queued" ? (
+                <div className="flex items-center text-sm text-gray-500">
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Sorting {batch.fileCount} images into documents...
+                </div>
+              ) : (
+                <>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="font-medium">
+                      {completed} of {batch.documents.length} documents extracted
+                    </span>
+                    <span className="text-gray-500">
+                      {finished} of {batch.documents.length} finished
+                    </span>
+                  </div>
+                  <Progress
+                    value={batch.documents.length ? (finished / batch.documents.length) * 100 : 0}
+                    className="h-2"
+                  />
+                </>
+              )}
+
+              {batch.error && <p className="text-sm text-error mt-3">{batch.error}</p>}
+
+              <div className="flex flex-wrap justify-end gap-2 mt-4">
+                {isBatchActive(batch) && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => cancelMutation.mutate()}
+                    disabled={cancelMutation.isPending}
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Cancel
+                  </Button>
+                )}
+                {can("extractions:submit") && retryable > 0 && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => retryMutation.mutate(undefined)}
+                    disabled={retryMutation.isPending}
+                  >
+                    <RotateCw className="h-4 w-4 mr-1" />
+                    Retry {retryable} failed
+                  </Button>
+                )}
+                {completed > 0 && (
+                  <Button type="button" asChild>
+                    <a href={`${batchKey}/results`} download>
+                      <Download className="h-4 w-4 mr-1" />
+                      Download results
+                    </a>
+                  </Button>
+                )}
+              </div>
+
+              {batch.skipped.length > 0 && (
+                <details className="mt-4 text-sm">
+                  <summary className="cursor-pointer text-gray-500">
+                    {batch.skipped.length} file{batch.skipped.length === 1 ? " was" : "s were"} skipped
+                  </summary>
+                  <ul className="text-xs text-gray-500 mt-2 space-y-1">
+                    {batch.skipped.map((file, index) => (
+                      <li key={`${file.fileName}-${index}`}>
+                        {file.fileName}: {file.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </CardContent>
+          </Card>
+
+          {batch.documents.length > 0 && (
+            <Card>
+              <CardContent className="pt-6">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>#</TableHead>
+                      <TableHead>Images</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Attempts</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {batch.documents.map((document, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{index + 1}</TableCell>
+                        <TableCell className="max-w-md">
+                          {document.images.map((image) => (
+                            <div key={image.position} className="text-sm truncate">
+                              <span className="text-gray-500">{documentSideLabels[image.side]}:</span>{" "}
+                              {image.fileName}
+                            </div>
+                          ))}
+                          {document.error && (
+                            <div className="text-xs text-error mt-1">
+                              {document.status === "queued" ? `Retrying after: ${document.error}` : document.error}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={jobStatusVariants[document.status]}>
+                            {jobStatusLabels[document.status]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{document.attempts}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {document.extractionId !== null && (
+                            <Link href={`/history/${document.extractionId}`} className="text-sm text-primary mr-3">
+                              View
+                            </Link>
+                          )}
+                          {can("extractions:submit") && isRetryable(document) && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => retryMutation.mutate(index)}
+                              disabled={retryMutation.isPending}
+                            >
+                              <RotateCw className="h-4 w-4 mr-1" />
+                              Retry
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </main>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useRef, useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, FileArchive, Layers, Loader2, X } from "lucide-react";
+import ConfigurationSection from "@/components/configuration-section";
+import type { Batch } from "@shared/schema";
+import { ConfigState } from "@/lib/types";
+import {
+  countFinishedDocuments,
+  formatDateTime,
+  isBatchActive,
+  jobStatusLabels,
+  jobStatusVariants,
+} from "@/lib/history";
+import { queryClient, readErrorMessage } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+const POLL_INTERVAL_MS = 2000;
+
+export default function Batches() {
+  const [config, setConfig] = useState<ConfigState>({ profileId: "" });
+  const [files, setFiles] = useState<File[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [, navigate] = useLocation();
+  const { can } = useAuth();
+  const { toast } = useToast();
+
+  const { data: batches = [], isLoading } = useQuery<Batch[]>({
+    queryKey: ["/api/batches"],
+    staleTime: 0,
+    refetchInterval: (query) => (query.state.data?.some(isBatchActive) ? POLL_INTERVAL_MS : false),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("profileId", config.profileId);
+      files.forEach((file) => formData.append("files", file));
+      const res = await fetch("/api/batches", { method: "POST", body: formData, credentials: "include" });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+      return (await res.json()) as Batch;
+    },
+    onSuccess: (batch) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/batches"] });
+      navigate(`/batches/${batch.id}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error starting the batch", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl">
+      <header className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-secondary mb-2">Batches</h1>
+          <p className="text-gray-500">
+            Upload many scans at once, or ZIP archives of them. Each front and back is paired into a
+            document and extracted on its own.
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back
+          </Link>
+        </Button>
+      </header>
+
+      <main className="space-y-8">
+        <ConfigurationSection
+          config={config}
+          onConfigChange={(key, value) => setConfig((prev) => ({ ...prev, [key]: value }))}
+        />
+
+        <Card>
+          <CardContent className="pt-6">
+            <h2 className="text-xl font-medium mb-4">New batch</h2>
+            <input
+              type="file"
+              ref={fileInputRef}
+              className="hidden"
+              accept="image/*,.zip,application/zip"
+              multiple
+              onChange={(e) => {
+                setFiles((previous) => [...previous, ...Array.from(e.target.files ?? [])]);
+                e.target.value = "";
+              }}
+            />
+            <div className="flex items-center gap-3 mb-4">
+              <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()}>
+                <FileArchive className="h-4 w-4 mr-1" />
+                Select images or ZIP archives
+              </Button>
+              {files.length > 0 && (
+                <>
+                  <span className="text-sm text-gray-500">
+                    {files.length} file{files.length === 1 ? "" : "s"} selected
+                  </span>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setFiles([])}>
+                    <X className="h-4 w-4 mr-1" />
+                    Clear
+                  </Button>
+                </>
+              )}
+            </div>
+            {files.length > 0 && (
+              <ul className="text-xs text-gray-500 mb-4 max-h-32 overflow-auto">
+                {files.map((file, index) => (
+                  <li key={`${file.name}-${index}`} className="truncate">
+                    {file.name}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="text-right">
+              {!can("extractions:submit") && (
+                <span className="text-sm text-gray-500 mr-3">Your role does not allow submitting images</span>
+              )}
+              <Button
+                type="button"
+                onClick={() => createMutation.mutate()}
+                disabled={
+                  !can("extractions:submit") || !config.profileId || files.length === 0 || createMutation.isPending
+                }
+              >
+                {createMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Uploading...
+                  </>
+                ) : (
+                  "Start batch"
+                )}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <h2 className="text-xl font-medium mb-4">Your batches</h2>
+            {isLoading ? (
+              <div className="py-12 text-center">
+                <Loader2 className="h-12 w-12 text-gray-400 mx-auto animate-spin mb-3" />
+                <p className="text-gray-500">Loading batches...</p>
+              </div>
+            ) : batches.length === 0 ? (
+              <div className="py-12 text-center">
+                <Layers className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-500">No batches yet</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Images</TableHead>
+                    <TableHead>Documents</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {batches.map((batch) => (
+                    <TableRow key={batch.id} className="cursor-pointer" onClick={() => navigate(`/batches/${batch.id}`)}>
+                      <TableCell>{formatDateTime(batch.createdAt)}</TableCell>
+                      <TableCell>{batch.fileCount}</TableCell>
+                      <TableCell>
+                        {batch.status === "queued"
+                          ? "Sorting..."
+                          : `${countFinishedDocuments(batch)} of ${batch.documents.length} done`}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={jobStatusVariants[batch.status]}>{jobStatusLabels[batch.status]}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
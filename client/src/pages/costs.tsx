@@ -0,0 +1,372 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { keepPreviousData, useMutation, useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  modelPriceSchema,
+  type AppSettings,
+  type CostReport,
+  type CostTotals,
+  type ModelPrice,
+} from "@shared/schema";
+import { queryClient, sendJson } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+const chartConfig = {
+  estimatedCostUsd: { label: "Estimated cost", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+// Single extractions cost fractions of a cent, so small amounts keep more digits
+const formatCost = (value: number) =>
+  value.toLocaleString("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: value > 0 && value < 1 ? 4 : 2,
+  });
+
+const formatCount = (value: number) => value.toLocaleString("en-US");
+
+function TotalsTable({
+  title,
+  rows,
+}: {
+  title: string;
+  rows: Array<CostTotals & { key: string; name: string }>;
+}) {
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <h2 className="text-xl font-medium mb-4">{title}</h2>
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500">No usage in this period</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead className="text-right">Extractions</TableHead>
+                <TableHead className="text-right">Prompt tokens</TableHead>
+                <TableHead className="text-right">Completion tokens</TableHead>
+                <TableHead className="text-right">Estimated cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell>{row.name}</TableCell>
+                  <TableCell className="text-right">{formatCount(row.extractions)}</TableCell>
+                  <TableCell className="text-right">{formatCount(row.promptTokens)}</TableCell>
+                  <TableCell className="text-right">{formatCount(row.completionTokens)}</TableCell>
+                  <TableCell className="text-right">
+                    {formatCost(row.estimatedCostUsd)}
+                    {row.unpriced > 0 && (
+                      <span className="block text-xs text-gray-500">{row.unpriced} unpriced</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Prices are edited as text and checked against the shared schema on save
+type PriceRow = { model: string; promptPerMillion: string; completionPerMillion: string };
+
+function PricesCard() {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<PriceRow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: settings } = useQuery<AppSettings>({
+    queryKey: ["/api/settings"],
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setRows(
+        settings.modelPrices.map((price) => ({
+          model: price.model,
+          promptPerMillion: String(price.promptPerMillion),
+          completionPerMillion: String(price.completionPerMillion),
+        }))
+      );
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: (modelPrices: ModelPrice[]) =>
+      sendJson<AppSettings>("PUT", "/api/settings", { modelPrices }),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/settings"], saved);
+      toast({ title: "Prices saved", description: "New prices apply to later extractions" });
+    },
+    onError: (error: Error) => setError(error.message),
+  });
+
+  const updateRow = (index: number, key: keyof PriceRow, value: string) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, [key]: value } : row)));
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const prices: ModelPrice[] = [];
+    for (const row of rows) {
+      const parsed = modelPriceSchema.safeParse({
+        model: row.model,
+        promptPerMillion: row.promptPerMillion.trim() === "" ? NaN : Number(row.promptPerMillion),
+        completionPerMillion:
+          row.completionPerMillion.trim() === "" ? NaN : Number(row.completionPerMillion),
+      });
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        setError(`${row.model || "New model"}: ${issue.path.join(".")}: ${issue.message}`);
+        return;
+      }
+      prices.push(parsed.data);
+    }
+    setError(null);
+    saveMutation.mutate(prices);
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <h2 className="text-xl font-medium mb-2">Prices</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          US dollars per million tokens. A price covers every model whose name starts with it,
+          e.g. gpt-4o also covers gpt-4o-2024-08-06.
+        </p>
+        <form onSubmit={handleSubmit}>
+          <Table className="mb-4">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Model</TableHead>
+                <TableHead>Prompt</TableHead>
+                <TableHead>Completion</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <Input
+                      aria-label="Model"
+                      value={row.model}
+                      onChange={(e) => updateRow(index, "model", e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      aria-label="Prompt price"
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={row.promptPerMillion}
+                      onChange={(e) => updateRow(index, "promptPerMillion", e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      aria-label="Completion price"
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={row.completionPerMillion}
+                      onChange={(e) => updateRow(index, "completionPerMillion", e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+                      aria-label={`Remove ${row.model}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {error && <p className="text-sm text-error mb-4">{error}</p>}
+          <div className="flex justify-between">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() =>
+                setRows((prev) => [...prev, { model: "", promptPerMillion: "", completionPerMillion: "" }])
+              }
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add model
+            </Button>
+            <Button type="submit" disabled={!settings || saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save prices
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Costs() {
+  const { can } = useAuth();
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  // Empty dates fall back to the last 30 days on the server
+  const params = new URLSearchParams();
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+
+  const { data: report, isLoading, error } = useQuery<CostReport>({
+    queryKey: [`/api/costs?${params}`],
+    enabled: can("costs:read"),
+    placeholderData: keepPreviousData,
+    staleTime: 0,
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      <header className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-secondary mb-2">Costs</h1>
+          <p className="text-gray-500">
+            Tokens reported by the extraction provider and their estimated cost
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/admin">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back
+          </Link>
+        </Button>
+      </header>
+
+      {!can("costs:read") ? (
+        <p className="text-sm text-gray-500">Only admins can see costs.</p>
+      ) : (
+        <main className="space-y-8">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="grid grid-cols-2 gap-4 max-w-md mb-6">
+                <div>
+                  <Label htmlFor="costs-from" className="block text-sm font-medium mb-1">
+                    From
+                  </Label>
+                  <Input id="costs-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+                </div>
+                <div>
+                  <Label htmlFor="costs-to" className="block text-sm font-medium mb-1">
+                    To
+                  </Label>
+                  <Input id="costs-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+                </div>
+              </div>
+
+              {isLoading ? (
+                <div className="py-12 text-center">
+                  <Loader2 className="h-12 w-12 text-gray-400 mx-auto animate-spin mb-3" />
+                  <p className="text-gray-500">Loading costs...</p>
+                </div>
+              ) : error ? (
+                <p className="text-sm text-error">{(error as Error).message}</p>
+              ) : report ? (
+                <>
+                  <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                    {[
+                      ["Estimated cost", formatCost(report.total.estimatedCostUsd)],
+                      ["Extractions", formatCount(report.total.extractions)],
+                      ["Prompt tokens", formatCount(report.total.promptTokens)],
+                      ["Completion tokens", formatCount(report.total.completionTokens)],
+                    ].map(([label, value]) => (
+                      <div key={label} className="bg-gray-50 rounded-md p-4">
+                        <dt className="text-xs text-gray-500">{label}</dt>
+                        <dd className="text-2xl font-semibold">{value}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                  {report.total.unpriced > 0 && (
+                    <p className="text-xs text-gray-500 mb-4">
+                      {report.total.unpriced} extractions used a model without a price and are
+                      not included in the cost.
+                    </p>
+                  )}
+                  <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                    <BarChart data={report.byDay}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="day" tickLine={false} axisLine={false} tickFormatter={(day: string) => day.slice(5)} />
+                      <YAxis tickLine={false} axisLine={false} width={60} tickFormatter={(value: number) => formatCost(value)} />
+                      <ChartTooltip
+                        content={
+                          <ChartTooltipContent formatter={(value) => formatCost(Number(value))} />
+                        }
+                      />
+                      <Bar dataKey="estimatedCostUsd" fill="var(--color-estimatedCostUsd)" radius={2} />
+                    </BarChart>
+                  </ChartContainer>
+                </>
+              ) : null}
+            </CardContent>
+          </Card>
+
+          {report && (
+            <>
+              <TotalsTable
+                title="By user"
+                rows={report.byUser.map((row) => ({
+                  ...row,
+                  key: String(row.userId),
+                  name: row.username ?? "Deleted user",
+                }))}
+              />
+              <TotalsTable
+                title="By profile"
+                rows={report.byProfile.map((row) => ({
+                  ...row,
+                  key: String(row.profileId),
+                  name:
+                    row.profileName ?? (row.profileId === null ? "No profile" : "Deleted profile"),
+                }))}
+              />
+            </>
+          )}
+
+          {can("settings:manage") && <PricesCard />}
+        </main>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { Link, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, ArrowLeft, Loader2, Pencil } from "lucide-react";
+import LicenseFieldList from "@/components/license-field-list";
+import CorrectionForm from "@/components/correction-form";
+import CrossValidationTable from "@/components/cross-validation-table";
+import MrzPanel from "@/components/mrz-panel";
+import type { DriverLicenseExtraction, ExtractionRecord } from "@shared/schema";
+import {
+  describePreprocessing,
+  describeQuality,
+  documentSideLabels,
+  documentTypeLabels,
+  formatDateTime,
+  statusLabels,
+  statusVariants,
+} from "@/lib/history";
+import { queryClient, sendJson } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+export default function ExtractionDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { data: extraction, isLoading, error } = useQuery<ExtractionRecord>({
+    queryKey: [`/api/extractions/${id}`],
+  });
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const [isCorrecting, setIsCorrecting] = useState(false);
+
+  const correctMutation = useMutation({
+    mutationFn: (fields: DriverLicenseExtraction) =>
+      sendJson<ExtractionRecord>("PATCH", `/api/extractions/${id}/fields`, fields),
+    onSuccess: (updated) => {
+      queryClient.setQueryData([`/api/extractions/${id}`], updated);
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/extractions?"),
+      });
+      setIsCorrecting(false);
+      toast({ title: "Corrections saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error saving corrections", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const details: Array<[string, string | null]> = extraction
+    ? [
+        ["Submitted", formatDateTime(extraction.createdAt)],
+        ["Finished", extraction.completedAt ? formatDateTime(extraction.completedAt) : null],
+        ["Provider", extraction.provider],
+        ["Assistant ID", extraction.assistantId],
+        ["Model", extraction.model],
+        [
+          "Tokens",
+          extraction.promptTokens !== null
+            ? `${extraction.promptTokens.toLocaleString("en-US")} prompt, ${(extraction.completionTokens ?? 0).toLocaleString("en-US")} completion`
+            : null,
+        ],
+        [
+          "Estimated cost",
+          extraction.estimatedCostUsd !== null ? `$${extraction.estimatedCostUsd.toFixed(4)}` : null,
+        ],
+        [
+          "Document",
+          extraction.result ? documentTypeLabels[extraction.result.documentType] : null,
+        ],
+        ["Jurisdiction", extraction.result?.jurisdiction ?? null],
+        [
+          "Corrected",
+          extraction.result?.correctedAt ? formatDateTime(extraction.result.correctedAt) : null,
+        ],
+      ]
+    : [];
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      <header className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-secondary mb-2">
+            Extraction #{id}
+          </h1>
+          {extraction && (
+            <Badge variant={statusVariants[extraction.status]}>
+              {statusLabels[extraction.status]}
+            </Badge>
+          )}
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/history">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            History
+          </Link>
+        </Button>
+      </header>
+
+      {isLoading ? (
+        <div className="py-12 text-center">
+          <Loader2 className="h-12 w-12 text-gray-400 mx-auto animate-spin mb-3" />
+          <p className="text-gray-500">Loading extraction...</p>
+        </div>
+      ) : error || !extraction ? (
+        <div className="bg-red-50 border-l-4 border-error p-4 rounded flex items-center">
+          <AlertCircle className="h-5 w-5 text-error mr-3" />
+          <p className="text-sm text-gray-700">
+            {(error as Error | null)?.message ?? "Extraction not found"}
+          </p>
+        </div>
+      ) : (
+        <main className="space-y-8">
+          {/* Submission details */}
+          <Card>
+            <CardContent className="pt-6">
+              <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+                {details.map(([label, value]) => (
+                  <div key={label} className="flex justify-between border-b border-gray-100 py-1">
+                    <dt className="text-sm text-gray-500">{label}</dt>
+                    <dd className="text-sm font-medium text-right">
+                      {value || <span className="text-gray-300">—</span>}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+
+              {extraction.error && (
+                <div className="bg-red-50 border-l-4 border-error p-4 rounded mt-4">
+                  <p className="font-medium text-error">
+                    {extraction.errorCode ?? "Error"}
+                  </p>
+                  <p className="text-sm text-gray-700 mt-1">{extraction.error}</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {/* Original images */}
+            <Card>
+              <CardContent className="pt-6">
+                <h2 className="text-xl font-medium mb-4">Images</h2>
+                <div className="space-y-4">
+                  {extraction.images.map((image) => (
+                    <figure key={image.id}>
+                      <img
+                        src={`/api/extractions/${extraction.id}/images/${image.position}`}
+                        alt={image.fileName}
+                        className="w-full rounded-md border border-gray-200"
+                      />
+                      {/* The card as the provider saw it, straightened and cropped */}
+                      {image.correctedSha256 && (
+                        <img
+                          src={`/api/extractions/${extraction.id}/images/${image.position}/corrected`}
+                          alt={`${image.fileName}, cropped to the card`}
+                          className="w-full rounded-md border border-gray-200 mt-2"
+                        />
+                      )}
+                      <figcaption className="text-xs text-gray-500 mt-1">
+                        {image.fileName}
+                        {image.side && ` · ${documentSideLabels[image.side]}`}
+                        {extraction.preprocessing?.[image.position] && (
+                          <span className="block">
+                            {describePreprocessing(extraction.preprocessing[image.position])}
+                          </span>
+                        )}
+                        {extraction.quality?.[image.position] && (
+                          <span className="block">
+                            {describeQuality(extraction.quality[image.position])}
+                          </span>
+                        )}
+                      </figcaption>
+                    </figure>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Parsed result */}
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-xl font-medium">Extracted Fields</h2>
+                  {extraction.result && can("extractions:correct") && !isCorrecting && (
+                    <Button variant="ghost" size="sm" onClick={() => setIsCorrecting(true)}>
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Correct
+                    </Button>
+                  )}
+                </div>
+                {extraction.result && isCorrecting ? (
+                  <CorrectionForm
+                    fields={extraction.result.fields}
+                    isSaving={correctMutation.isPending}
+                    onSave={(fields) => correctMutation.mutate(fields)}
+                    onCancel={() => setIsCorrecting(false)}
+                  />
+                ) : extraction.result ? (
+                  <>
+                    {extraction.result.mrz && <MrzPanel mrz={extraction.result.mrz} />}
+                    {extraction.result.crossValidation && (
+                      <CrossValidationTable result={extraction.result.crossValidation} />
+                    )}
+                    <LicenseFieldList fields={extraction.result.fields} />
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-500">No fields were extracted</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Raw provider response */}
+          <Card>
+            <CardContent className="pt-6">
+              <h2 className="text-xl font-medium mb-4">Raw Response</h2>
+              {extraction.rawResponse ? (
+                <pre className="bg-gray-50 rounded-md p-4 text-xs font-mono overflow-auto max-h-[400px] whitespace-pre-wrap">
+                  {extraction.rawResponse}
+                </pre>
+              ) : (
+                <p className="text-sm text-gray-500">No response was received</p>
+              )}
+            </CardContent>
+          </Card>
+        </main>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,367 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { ArrowLeft, History as HistoryIcon, Loader2 } from "lucide-react";
+import {
+  documentTypes,
+  extractionStatuses,
+  type ExtractionPage,
+} from "@shared/schema";
+import {
+  documentTypeLabels,
+  formatDateTime,
+  statusLabels,
+  statusVariants,
+} from "@/lib/history";
+
+const PAGE_SIZE = 20;
+const ALL = "all";
+
+interface HistoryFilters {
+  search: string;
+  from: string;
+  to: string;
+  status: string;
+  documentType: string;
+  jurisdiction: string;
+}
+
+const emptyFilters: HistoryFilters = {
+  search: "",
+  from: "",
+  to: "",
+  status: ALL,
+  documentType: ALL,
+  jurisdiction: "",
+};
+
+// Query string for /api/extractions, leaving out filters that are not set
+function buildQuery(filters: HistoryFilters, page: number): string {
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  for (const [key, value] of Object.entries(filters)) {
+    const trimmed = value.trim();
+    if (trimmed && trimmed !== ALL) {
+      params.set(key, trimmed);
+    }
+  }
+  return params.toString();
+}
+
+// Page numbers to show: the first, the last and two either side of the current
+// one, with null where a gap is collapsed into an ellipsis
+function pageNumbers(page: number, pageCount: number): Array<number | null> {
+  const pages: Array<number | null> = [];
+  for (let number = 1; number <= pageCount; number++) {
+    if (number === 1 || number === pageCount || Math.abs(number - page) <= 2) {
+      pages.push(number);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
+
+export default function History() {
+  const [, navigate] = useLocation();
+  const [filters, setFilters] = useState<HistoryFilters>(emptyFilters);
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading, isFetching, error } = useQuery<ExtractionPage>({
+    queryKey: [`/api/extractions?${buildQuery(filters, page)}`],
+    staleTime: 0,
+    placeholderData: keepPreviousData,
+  });
+
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  // Any filter change starts again from the first page
+  const handleFilterChange = (key: keyof HistoryFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const goToPage = (event: React.MouseEvent, target: number) => {
+    event.preventDefault();
+    if (target >= 1 && target <= pageCount) {
+      setPage(target);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      <header className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-secondary mb-2">
+            Extraction History
+          </h1>
+          <p className="text-gray-500">
+            Every submission with its status and extracted fields
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back
+          </Link>
+        </Button>
+      </header>
+
+      <main>
+        {/* Search and filters */}
+        <section className="mb-8">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="md:col-span-3">
+                  <Label htmlFor="history-search" className="block text-sm font-medium mb-1">
+                    Search
+                  </Label>
+                  <Input
+                    id="history-search"
+                    placeholder="Name or license number"
+                    value={filters.search}
+                    onChange={(e) => handleFilterChange("search", e.target.value)}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="history-from" className="block text-sm font-medium mb-1">
+                    From
+                  </Label>
+                  <Input
+                    id="history-from"
+                    type="date"
+                    value={filters.from}
+                    onChange={(e) => handleFilterChange("from", e.target.value)}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="history-to" className="block text-sm font-medium mb-1">
+                    To
+                  </Label>
+                  <Input
+                    id="history-to"
+                    type="date"
+                    value={filters.to}
+                    onChange={(e) => handleFilterChange("to", e.target.value)}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="history-jurisdiction" className="block text-sm font-medium mb-1">
+                    Jurisdiction
+                  </Label>
+                  <Input
+                    id="history-jurisdiction"
+                    placeholder="e.g. CA or USA"
+                    value={filters.jurisdiction}
+                    onChange={(e) => handleFilterChange("jurisdiction", e.target.value)}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="history-status" className="block text-sm font-medium mb-1">
+                    Status
+                  </Label>
+                  <Select
+                    value={filters.status}
+                    onValueChange={(value) => handleFilterChange("status", value)}
+                  >
+                    <SelectTrigger id="history-status">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All statuses</SelectItem>
+                      {extractionStatuses.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {statusLabels[status]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="history-document-type" className="block text-sm font-medium mb-1">
+                    Document type
+                  </Label>
+                  <Select
+                    value={filters.documentType}
+                    onValueChange={(value) => handleFilterChange("documentType", value)}
+                  >
+                    <SelectTrigger id="history-document-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All documents</SelectItem>
+                      {documentTypes.map((documentType) => (
+                        <SelectItem key={documentType} value={documentType}>
+                          {documentTypeLabels[documentType]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-end">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    onClick={() => {
+                      setFilters(emptyFilters);
+                      setPage(1);
+                    }}
+                  >
+                    Clear filters
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </section>
+
+        {/* Results */}
+        <section>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-medium">Extractions</h2>
+                <span className="text-sm text-gray-500 flex items-center">
+                  {isFetching && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  {data ? `${data.total} total` : null}
+                </span>
+              </div>
+
+              {isLoading ? (
+                <div className="py-12 text-center">
+                  <Loader2 className="h-12 w-12 text-gray-400 mx-auto animate-spin mb-3" />
+                  <p className="text-gray-500">Loading history...</p>
+                </div>
+              ) : error ? (
+                <p className="py-6 text-sm text-error">{(error as Error).message}</p>
+              ) : !data || data.items.length === 0 ? (
+                <div className="py-12 text-center">
+                  <HistoryIcon className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                  <p className="text-gray-500">No extractions match these filters</p>
+                </div>
+              ) : (
+                <>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Name</TableHead>
+                        <TableHead>License number</TableHead>
+                        <TableHead>Document</TableHead>
+                        <TableHead>Jurisdiction</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {data.items.map((extraction) => (
+                        <TableRow
+                          key={extraction.id}
+                          className="cursor-pointer"
+                          onClick={() => navigate(`/history/${extraction.id}`)}
+                        >
+                          <TableCell className="whitespace-nowrap">
+                            {formatDateTime(extraction.createdAt)}
+                          </TableCell>
+                          <TableCell>{extraction.name ?? "—"}</TableCell>
+                          <TableCell className="font-mono">
+                            {extraction.licenseNumber ?? "—"}
+                          </TableCell>
+                          <TableCell>
+                            {extraction.documentType
+                              ? documentTypeLabels[extraction.documentType]
+                              : "—"}
+                          </TableCell>
+                          <TableCell>{extraction.jurisdiction ?? "—"}</TableCell>
+                          <TableCell>
+                            <Badge variant={statusVariants[extraction.status]}>
+                              {statusLabels[extraction.status]}
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+
+                  {pageCount > 1 && (
+                    <Pagination className="mt-4">
+                      <PaginationContent>
+                        <PaginationItem>
+                          <PaginationPrevious
+                            href="#"
+                            aria-disabled={page === 1}
+                            className={page === 1 ? "pointer-events-none opacity-50" : undefined}
+                            onClick={(e) => goToPage(e, page - 1)}
+                          />
+                        </PaginationItem>
+                        {pageNumbers(page, pageCount).map((number, index) =>
+                          number === null ? (
+                            <PaginationItem key={`gap-${index}`}>
+                              <PaginationEllipsis />
+                            </PaginationItem>
+                          ) : (
+                            <PaginationItem key={number}>
+                              <PaginationLink
+                                href="#"
+                                isActive={number === page}
+                                onClick={(e) => goToPage(e, number)}
+                              >
+                                {number}
+                              </PaginationLink>
+                            </PaginationItem>
+                          ),
+                        )}
+                        <PaginationItem>
+                          <PaginationNext
+                            href="#"
+                            aria-disabled={page === pageCount}
+                            className={page === pageCount ? "pointer-events-none opacity-50" : undefined}
+                            onClick={(e) => goToPage(e, page + 1)}
+                          />
+                        </PaginationItem>
+                      </PaginationContent>
+                    </Pagination>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </section>
+      </main>
+    </div>
+  );
+}
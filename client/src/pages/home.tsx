@@ -1,11 +1,23 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { History, KeyRound, Layers, LogOut, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import ConfigurationSection from "@/components/configuration-section";
 import ImageUploadSection from "@/components/image-upload-section";
 import ResponseSection from "@/components/response-section";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { ConfigState, FileWithPreview, OpenAIResponse } from "@/lib/types";
+import { ConfigState, FileWithPreview } from "@/lib/types";
+import { isJobActive, useExtractionJob } from "@/hooks/use-extraction-job";
+import { useJobProgress } from "@/hooks/use-job-progress";
+import { useImageQuality } from "@/hooks/use-image-quality";
+import { useAuth } from "@/hooks/use-auth";
+import { documentSideLabels } from "@/lib/history";
+import type { Organization } from "@shared/schema";
+
+// The selected profile id is kept in localStorage
+const PROFILE_STORAGE_KEY = "extraction-profile-id";
 
 // Helper function for consistent logging
 const log = (message: string, data?: any) => {
@@ -17,24 +29,58 @@ const log = (message: string, data?: any) => {
 };
 
 export default function Home() {
-  // State management for configuration (API key and Assistant ID)
-  const [config, setConfig] = useState<ConfigState>({
-    apiKey: "",
-    assistantId: "",
-  });
+  // Selected extraction profile, remembered between visits
+  const [config, setConfig] = useState<ConfigState>(() => ({
+    profileId: localStorage.getItem(PROFILE_STORAGE_KEY) ?? "",
+  }));
 
   // State for managing uploaded image files with preview URLs
   const [files, setFiles] = useState<FileWithPreview[]>([]);
   
-  // State for storing OpenAI's response
-  const [response, setResponse] = useState<any>(null);
-  
-  // Loading state during API requests
-  const [isLoading, setIsLoading] = useState(false);
-  
-  // Error state for handling API errors
-  const [error, setError] = useState<string | null>(null);
-  
+  // Signed-in user, shown in the header with a logout button
+  const { user, can, logoutMutation } = useAuth();
+  const { data: organization } = useQuery<Organization>({ queryKey: ["/api/organization"] });
+
+  // Local blur, glare and framing check of each selected photo
+  const quality = useImageQuality(files, can("extractions:submit"));
+
+  // The current extraction job, polled until it finishes
+  const { job, isSubmitting, submitJob, cancelJob } = useExtractionJob();
+
+  // Live progress of the current job, streamed from the server
+  const progress = useJobProgress(job);
+
+  // Error state for failures before a job exists (e.g. validation errors)
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  // Idempotency key of the current submission. It changes with the images or
+  // profile and after each job, so only a repeat of the same click reuses it.
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
+
+  // Ids of jobs seen while still running, so only those get a completion toast
+  const watchedJobs = useRef(new Set<string>());
+
+  // Files of the last submission, in the order the job numbers them
+  const submittedFiles = useRef<File[]>([]);
+
+  // The document and side each submitted file was sorted into
+  const placements = useMemo(() => {
+    const placed = new Map<File, string>();
+    job?.documents.forEach((document, index) => {
+      document.images.forEach((image) => {
+        const file = submittedFiles.current[image.position];
+        if (!file) return;
+        const side = documentSideLabels[image.side];
+        placed.set(file, job.documents.length > 1 ? `Document ${index + 1} · ${side}` : side);
+      });
+    });
+    return placed;
+  }, [job]);
+
+  const isLoading = isSubmitting || isJobActive(job);
+  const response = job?.status === "completed" ? job.result : null;
+  const error = submitError ?? (job && !isJobActive(job) ? job.error : null);
+
   // Toast notifications hook for user feedback
   const { toast } = useToast();
 
@@ -47,10 +93,49 @@ export default function Home() {
     };
   }, []);
 
-  // Handler for updating configuration values (API key or Assistant ID)
+  // Notify the user once a job they watched finishes
+  useEffect(() => {
+    if (!job) return;
+
+    if (isJobActive(job)) {
+      watchedJobs.current.add(job.id);
+      return;
+    }
+    if (!watchedJobs.current.delete(job.id)) return;
+
+    if (job.status === "completed" && job.result?.mrz && !job.result.mrz.valid) {
+      toast({
+        title: "MRZ verification failed",
+        description: "One or more check digits in the machine-readable zone do not match",
+        variant: "destructive",
+      });
+    } else if (job.status === "completed") {
+      const extracted = job.documents.filter((document) => document.status === "completed").length;
+      toast({
+        title: "Success",
+        description: job.duplicateOf
+          ? `These images were already processed, so the result of extraction #${job.duplicateOf} was reused`
+          : job.documents.length > 1
+            ? `Extracted ${extracted} of ${job.documents.length} documents`
+            : "Images processed successfully",
+      });
+    } else if (job.status === "failed") {
+      toast({
+        title: "Error processing images",
+        description: job.error ?? undefined,
+        variant: "destructive",
+      });
+    }
+  }, [job, toast]);
+
+  // Handler for updating configuration values (the selected profile)
   const handleConfigChange = (key: keyof ConfigState, value: string) => {
-    log(`Config changed: ${key}`, key === 'apiKey' ? '(masked)' : value);
+    log(`Config changed: ${key}`, value);
+    if (key === "profileId") {
+      localStorage.setItem(PROFILE_STORAGE_KEY, value);
+    }
     setConfig((prev) => ({ ...prev, [key]: value }));
+    setIdempotencyKey(crypto.randomUUID());
   };
 
   // Handler for updating the list of uploaded files
@@ -64,18 +149,19 @@ export default function Home() {
       })));
     }
     setFiles(newFiles);
+    setIdempotencyKey(crypto.randomUUID());
   };
 
   // Main function to process images with OpenAI
   const processImages = async () => {
     log("Process images started");
     
-    // Validate configuration
-    if (!config.apiKey || !config.assistantId) {
-      log("Missing configuration, showing error toast");
+    // Validate that a profile is selected
+    if (!config.profileId) {
+      log("No profile selected, showing error toast");
       toast({
         title: "Missing configuration",
-        description: "Please enter your API Key and Assistant ID",
+        description: "Please choose an extraction profile",
         variant: "destructive",
       });
       return;
@@ -92,19 +178,16 @@ export default function Home() {
       return;
     }
 
-    log(`Starting request with ${files.length} files and assistant ID: ${config.assistantId}`);
+    log(`Starting request with ${files.length} files using profile: ${config.profileId}`);
     
     // Reset states before processing
-    setIsLoading(true);
-    setError(null);
-    setResponse(null);
+    setSubmitError(null);
 
     try {
       // Create FormData to send files and configuration
       log("Creating FormData object");
       const formData = new FormData();
-      formData.append("apiKey", config.apiKey);
-      formData.append("assistantId", config.assistantId);
+      formData.append("profileId", config.profileId);
       
       // Append all selected files to FormData
       log(`Appending ${files.length} files to FormData`);
@@ -113,61 +196,39 @@ export default function Home() {
         formData.append("files", file);
       });
 
-      // Send POST request to backend API
-      log("Sending fetch request to /api/process-images");
-      const res = await fetch("/api/process-images", {
-        method: "POST",
-        body: formData,
+      // Create the job; the result arrives through polling
+      submittedFiles.current = [...files];
+      const created = await submitJob(formData, idempotencyKey);
+      setIdempotencyKey(crypto.randomUUID());
+      watchedJobs.current.add(created.id);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "The job could not be submitted";
+      setSubmitError(message);
+      toast({
+        title: "Error processing images",
+        description: message,
+        variant: "destructive",
       });
+    }
+  };
 
-      log(`Response received with status: ${res.status} ${res.statusText}`);
-      
-      // Handle non-200 responses
-      if (!res.ok) {
-        const errorText = await res.text();
-        log(`Error response: ${errorText || res.statusText}`);
-        throw new Error(errorText || res.statusText);
-      }
-
-      // Parse response data
-      log("Parsing JSON response");
-      const data: OpenAIResponse = await res.json();
-      log("Response parsed successfully", { hasError: !!data.error, hasData: !!data.data });
-      
-      // Handle API-level errors
-      if (data.error) {
-        log(`Error in response: ${data.error}`);
-        setError(data.error);
-        toast({
-          title: "Error processing images",
-          description: data.error,
-          variant: "destructive",
-        });
-      } else {
-        // Store successful response
-        log("Success response received", { 
-          dataType: typeof data.data,
-          responseLength: typeof data.data === 'string' ? data.data.length : 'unknown'
-        });
-        // Pass the raw response directly to be displayed
-        setResponse(data.data);
-        toast({
-          title: "Success",
-          description: "Images processed successfully",
-        });
-      }
-    } catch (err: any) {
-      // Handle any other errors
-      log(`Error caught: ${err.message}`, err);
-      setError(err.message);
+  // Stop the running job, which also cancels its OpenAI run
+  const cancelProcessing = async () => {
+    if (!job) return;
+    watchedJobs.current.delete(job.id);
+
+    try {
+      await cancelJob();
       toast({
-        title: "Error processing images",
-        description: err.message,
+        title: "Cancelled",
+        description: "Image processing was cancelled",
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to cancel the job",
         variant: "destructive",
       });
-    } finally {
-      log("Request completed, setting isLoading to false");
-      setIsLoading(false);
     }
   };
 
@@ -175,11 +236,8 @@ export default function Home() {
   const copyResponseToClipboard = () => {
     log("Copying response to clipboard");
     if (response) {
-      // Handle both string and object types
-      const textToCopy = typeof response === 'string' 
-        ? response 
-        : JSON.stringify(response, null, 2);
-        
+      const textToCopy = JSON.stringify(response.fields ?? {}, null, 2);
+
       navigator.clipboard.writeText(textToCopy)
         .then(() => {
           log("Response copied to clipboard successfully");
@@ -203,13 +261,55 @@ export default function Home() {
   return (
     <div className="container mx-auto px-4 py-8 max-w-4xl">
       {/* Header section with title and description */}
-      <header className="mb-8">
-        <h1 className="text-3xl font-semibold text-secondary mb-2">
-          OpenAI Assistant Interface
-        </h1>
-        <p className="text-gray-500">
-          Upload images and process them with your OpenAI Assistant
-        </p>
+      <header className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-secondary mb-2">
+            OpenAI Assistant Interface
+          </h1>
+          <p className="text-gray-500">
+            Upload images and process them with your OpenAI Assistant
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-500 mr-2">
+            {user?.username}
+            {organization && <span className="block text-xs">{organization.name}</span>}
+          </span>
+          <Button variant="outline" asChild>
+            <Link href="/history">
+              <History className="h-4 w-4 mr-1" />
+              History
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/batches">
+              <Layers className="h-4 w-4 mr-1" />
+              Batches
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/tokens">
+              <KeyRound className="h-4 w-4 mr-1" />
+              API
+            </Link>
+          </Button>
+          {(can("users:manage") || can("settings:manage")) && (
+            <Button variant="outline" asChild>
+              <Link href="/admin">
+                <ShieldCheck className="h-4 w-4 mr-1" />
+                Admin
+              </Link>
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+          >
+            <LogOut className="h-4 w-4 mr-1" />
+            Log out
+          </Button>
+        </div>
       </header>
 
       <main>
@@ -222,16 +322,22 @@ export default function Home() {
         {/* Image upload section with drag & drop and file list */}
         <ImageUploadSection 
           files={files}
+          quality={quality}
+          placements={placements}
           onFilesChange={handleFileChange}
           onProcessImages={processImages}
           isProcessing={isLoading}
+          onCancel={job && isJobActive(job) ? cancelProcessing : undefined}
+          canSubmit={can("extractions:submit")}
         />
         
         {/* Response section showing OpenAI's analysis */}
         <ResponseSection 
           response={response}
           isLoading={isLoading}
+          progress={progress}
           error={error}
+          documents={job?.documents}
           onCopyResponse={copyResponseToClipboard}
         />
       </main>
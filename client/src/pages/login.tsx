@@ -0,0 +1,32 @@
+import { Link, Redirect } from "wouter";
+import AuthForm from "@/components/auth-form";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function Login() {
+  const { user, loginMutation } = useAuth();
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <AuthForm
+      title="Log in"
+      submitLabel="Log in"
+      passwordAutoComplete="current-password"
+      isPending={loginMutation.isPending}
+      onSubmit={(credentials) => loginMutation.mutate(credentials)}
+      validate={({ username, password }) =>
+        username && password ? null : "Enter your username and password"
+      }
+      footer={
+        <>
+          No account yet?{" "}
+          <Link href="/signup" className="text-primary hover:underline">
+            Sign up
+          </Link>
+        </>
+      }
+    />
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import type { ProfileSummary } from "@shared/schema";
+import ProfileForm from "@/components/profile-form";
+import { ProfileFormState } from "@/lib/types";
+import { getProviderOption } from "@/lib/providers";
+import { documentTypeLabels, formatDateTime } from "@/lib/history";
+import { queryClient, readErrorMessage } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+// Send a profile to the server. The API key is only sent when a new one was entered.
+async function sendProfile(method: "POST" | "PATCH", url: string, values: ProfileFormState) {
+  const { apiKey, ...settings } = values;
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(apiKey ? values : settings),
+    credentials: "include",
+  });
+  if (!res.ok) {
+    throw new Error(await readErrorMessage(res));
+  }
+  return (await res.json()) as ProfileSummary;
+}
+
+export default function Profiles() {
+  const { can } = useAuth();
+  const { toast } = useToast();
+
+  // The profile being edited, "new" for the create form, or null when closed
+  const [editing, setEditing] = useState<ProfileSummary | "new" | null>(null);
+
+  const { data: profiles = [], isLoading } = useQuery<ProfileSummary[]>({
+    queryKey: ["/api/profiles"],
+    staleTime: 0,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (values: ProfileFormState) =>
+      editing && editing !== "new"
+        ? sendProfile("PATCH", `/api/profiles/${editing.id}`, values)
+        : sendProfile("POST", "/api/profiles", values),
+    onSuccess: (profile) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/profiles"] });
+      setEditing(null);
+      toast({ title: "Profile saved", description: profile.name });
+    },
+    onError: onError("Error saving profile"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (profile: ProfileSummary) => {
+      const res = await fetch(`/api/profiles/${profile.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        throw new Error(await readErrorMessage(res));
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/profiles"] });
+    },
+    onError: onError("Error deleting profile"),
+  });
+
+  const handleDelete = (profile: ProfileSummary) => {
+    if (window.confirm(`Delete the profile "${profile.name}"?`)) {
+      deleteMutation.mutate(profile);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <header className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-secondary mb-2">
+            Extraction Profiles
+          </h1>
+          <p className="text-gray-500">
+            Saved provider settings that users pick from when processing images
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back
+          </Link>
+        </Button>
+      </header>
+
+      {!can("profiles:manage") ? (
+        <p className="text-sm text-gray-500">Only admins can manage extraction profiles.</p>
+      ) : (
+        <main className="space-y-8">
+          {editing && (
+            <Card>
+              <CardContent className="pt-6">
+                <h2 className="text-xl font-medium mb-4">
+                  {editing === "new" ? "New profile" : `Edit ${editing.name}`}
+                </h2>
+                <ProfileForm
+                  key={editing === "new" ? "new" : editing.id}
+                  profile={editing === "new" ? undefined : editing}
+                  isSaving={saveMutation.isPending}
+                  onSave={(values) => saveMutation.mutate(values)}
+                  onCancel={() => setEditing(null)}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-medium">Profiles</h2>
+                <Button type="button" size="sm" onClick={() => setEditing("new")}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  New profile
+                </Button>
+              </div>
+
+              {isLoading ? (
+                <div className="py-12 text-center">
+                  <Loader2 className="h-12 w-12 text-gray-400 mx-auto animate-spin" />
+                </div>
+              ) : profiles.length === 0 ? (
+                <p className="py-6 text-sm text-gray-500 text-center">No profiles yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Provider</TableHead>
+                      <TableHead>Document</TableHead>
+                      <TableHead>API key</TableHead>
+                      <TableHead>Updated</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {profiles.map((profile) => (
+                      <TableRow key={profile.id}>
+                        <TableCell className="font-medium">{profile.name}</TableCell>
+                        <TableCell>{getProviderOption(profile.provider).label}</TableCell>
+                        <TableCell>{documentTypeLabels[profile.documentType]}</TableCell>
+                        <TableCell className="font-mono">
+                          {profile.hasApiKey ? `…${profile.apiKeyHint}` : "—"}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {formatDateTime(profile.updatedAt)}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setEditing(profile)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDelete(profile)}
+                            disabled={deleteMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4 text-error" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </main>
+      )}
+    </div>
+  );
+}
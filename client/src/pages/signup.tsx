@@ -0,0 +1,42 @@
+import { Link, Redirect } from "wouter";
+import AuthForm from "@/components/auth-form";
+import { useAuth } from "@/hooks/use-auth";
+import { registerUserSchema } from "@shared/schema";
+
+export default function Signup() {
+  const { user, registerMutation } = useAuth();
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <AuthForm
+      title="Create an account"
+      submitLabel="Sign up"
+      passwordAutoComplete="new-password"
+      isPending={registerMutation.isPending}
+      withOrganization
+      onSubmit={(credentials) =>
+        registerMutation.mutate({
+          ...credentials,
+          organizationName: credentials.organizationName ?? "",
+        })
+      }
+      validate={(credentials) => {
+        const parsed = registerUserSchema.safeParse(credentials);
+        return parsed.success ? null : parsed.error.issues[0].message;
+      }}
+      footer={
+        <>
+          Joining an existing organization? Ask one of its admins to add you.
+          <br />
+          Already have an account?{" "}
+          <Link href="/login" className="text-primary hover:underline">
+            Log in
+          </Link>
+        </>
+      }
+    />
+  );
+}
@@ -0,0 +1,405 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, Copy, Loader2, RotateCw, Trash2, Webhook } from "lucide-react";
+import {
+  webhookEvents,
+  webhookInputSchema,
+  type CreatedWebhook,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookEvent,
+  type WebhookInput,
+  type WebhookSummary,
+} from "@shared/schema";
+import { formatDateTime } from "@/lib/history";
+import { apiRequest, queryClient, sendJson } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+const eventDescriptions: Record<WebhookEvent, string> = {
+  "extraction.completed": "An extraction finished with a result",
+  "extraction.failed": "An extraction ended with an error",
+  "review.completed": "A reviewer corrected the fields of an extraction",
+};
+
+const deliveryStatusVariants: Record<WebhookDeliveryStatus, "default" | "secondary" | "destructive"> = {
+  pending: "secondary",
+  succeeded: "default",
+  failed: "destructive",
+};
+
+// Deliveries of one webhook, refreshed while any of them is still pending
+function DeliveriesCard({ webhook }: { webhook: WebhookSummary }) {
+  const { toast } = useToast();
+  const deliveriesKey = `/api/webhooks/${webhook.id}/deliveries`;
+
+  const { data: deliveries = [], isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: [deliveriesKey],
+    staleTime: 0,
+    refetchInterval: (query) =>
+      query.state.data?.some((delivery) => delivery.status === "pending") ? 5000 : false,
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: (delivery: WebhookDelivery) =>
+      sendJson<WebhookDelivery>("POST", `${deliveriesKey}/${delivery.id}/redeliver`, {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [deliveriesKey] });
+      toast({ title: "Redelivery queued" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error redelivering", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <h2 className="text-xl font-medium mb-1">Deliveries</h2>
+        <p className="text-sm text-gray-500 mb-4 break-all">{webhook.url}</p>
+        {isLoading ? (
+          <div className="py-12 text-center">
+            <Loader2 className="h-12 w-12 text-gray-400 mx-auto animate-spin mb-3" />
+            <p className="text-gray-500">Loading deliveries...</p>
+          </div>
+        ) : deliveries.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing has been sent to this endpoint yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Last attempt</TableHead>
+                <TableHead className="w-28" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell>
+                    <span className="font-mono text-xs">{delivery.event}</span>
+                    <span className="block text-xs text-gray-500">
+                      Extraction {delivery.payload.data.id}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={deliveryStatusVariants[delivery.status]}>{delivery.status}</Badge>
+                    {delivery.error && (
+                      <span className="block text-xs text-gray-500 mt-1">{delivery.error}</span>
+                    )}
+                    {delivery.nextAttemptAt && (
+                      <span className="block text-xs text-gray-500">
+                        Retrying {formatDateTime(delivery.nextAttemptAt)}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>{delivery.attempts}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {delivery.lastAttemptAt ? formatDateTime(delivery.lastAttemptAt) : "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => redeliverMutation.mutate(delivery)}
+                      disabled={redeliverMutation.isPending}
+                    >
+                      <RotateCw className="h-4 w-4 mr-1" />
+                      Redeliver
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Webhooks() {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // The new secret, shown until the page is left since it cannot be read again
+  const [created, setCreated] = useState<CreatedWebhook | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: webhooks = [], isLoading } = useQuery<WebhookSummary[]>({
+    queryKey: ["/api/webhooks"],
+    staleTime: 0,
+    enabled: can("webhooks:manage"),
+  });
+  const selected = webhooks.find((webhook) => webhook.id === selectedId);
+
+  const createMutation = useMutation({
+    mutationFn: (input: WebhookInput) => sendJson<CreatedWebhook>("POST", "/api/webhooks", input),
+    onSuccess: (webhook) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      setCreated(webhook);
+      setUrl("");
+      setEvents([]);
+    },
+    onError: (error: Error) => setError(error.message),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, update }: { id: number; update: Partial<WebhookInput> }) =>
+      sendJson<WebhookSummary>("PATCH", `/api/webhooks/${id}`, update),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error updating webhook", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (webhook: WebhookSummary) => {
+      await apiRequest("DELETE", `/api/webhooks/${webhook.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error deleting webhook", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents((prev) => (checked ? [...prev, event] : prev.filter((e) => e !== event)));
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const parsed = webhookInputSchema.safeParse({ url, events });
+    setError(parsed.success ? null : parsed.error.issues[0].message);
+    if (parsed.success) {
+      createMutation.mutate(parsed.data);
+    }
+  };
+
+  const handleDelete = (webhook: WebhookSummary) => {
+    if (window.confirm(`Delete the webhook for ${webhook.url} and its delivery log?`)) {
+      deleteMutation.mutate(webhook);
+    }
+  };
+
+  const copySecret = (secret: string) => {
+    navigator.clipboard
+      .writeText(secret)
+      .then(() => toast({ title: "Copied to clipboard", description: "Signing secret copied" }))
+      .catch(() =>
+        toast({ title: "Error", description: "Failed to copy to clipboard", variant: "destructive" })
+      );
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <header className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-secondary mb-2">Webhooks</h1>
+          <p className="text-gray-500">Push extraction results to your own systems as they happen</p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/admin">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back
+          </Link>
+        </Button>
+      </header>
+
+      {!can("webhooks:manage") ? (
+        <p className="text-sm text-gray-500">Only admins can manage webhooks.</p>
+      ) : (
+        <main className="space-y-8">
+          {/* Add an endpoint */}
+          <Card>
+            <CardContent className="pt-6">
+              <h2 className="text-xl font-medium mb-4">New webhook</h2>
+
+              {created && (
+                <div className="bg-green-50 border-l-4 border-green-500 p-4 rounded mb-4">
+                  <p className="font-medium text-sm mb-2">
+                    Copy the signing secret now. It will not be shown again.
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <code className="flex-1 bg-white border border-gray-200 rounded px-2 py-1 text-xs font-mono break-all">
+                      {created.secret}
+                    </code>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => copySecret(created.secret)}>
+                      <Copy className="h-4 w-4 mr-1" />
+                      Copy
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit}>
+                <div className="mb-4">
+                  <Label htmlFor="webhook-url" className="block text-sm font-medium mb-1">
+                    Endpoint URL
+                  </Label>
+                  <Input
+                    id="webhook-url"
+                    placeholder="https://example.com/hooks/licenses"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                  />
+                </div>
+
+                <fieldset className="mb-4">
+                  <legend className="block text-sm font-medium mb-2">Events</legend>
+                  <div className="space-y-2">
+                    {webhookEvents.map((webhookEvent) => (
+                      <div key={webhookEvent} className="flex items-start gap-2">
+                        <Checkbox
+                          id={`event-${webhookEvent}`}
+                          checked={events.includes(webhookEvent)}
+                          onCheckedChange={(checked) => toggleEvent(webhookEvent, checked === true)}
+                        />
+                        <Label htmlFor={`event-${webhookEvent}`} className="text-sm leading-none">
+                          <span className="font-mono">{webhookEvent}</span>
+                          <span className="block text-xs text-gray-500 mt-1">
+                            {eventDescriptions[webhookEvent]}
+                          </span>
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </fieldset>
+
+                {error && <p className="text-sm text-error mb-4">{error}</p>}
+                <div className="text-right">
+                  <Button type="submit" disabled={createMutation.isPending}>
+                    {createMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Webhook className="h-4 w-4 mr-1" />
+                    )}
+                    Add webhook
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+
+          {/* Existing endpoints */}
+          <Card>
+            <CardContent className="pt-6">
+              <h2 className="text-xl font-medium mb-4">Endpoints</h2>
+              {isLoading ? (
+                <div className="py-12 text-center">
+                  <Loader2 className="h-12 w-12 text-gray-400 mx-auto animate-spin mb-3" />
+                  <p className="text-gray-500">Loading webhooks...</p>
+                </div>
+              ) : webhooks.length === 0 ? (
+                <p className="text-sm text-gray-500">No webhooks yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>URL</TableHead>
+                      <TableHead>Events</TableHead>
+                      <TableHead>Active</TableHead>
+                      <TableHead className="w-40" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {webhooks.map((webhook) => (
+                      <TableRow
+                        key={webhook.id}
+                        className={webhook.id === selectedId ? "bg-gray-50" : undefined}
+                      >
+                        <TableCell className="break-all">{webhook.url}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {webhook.events.map((webhookEvent) => (
+                              <Badge key={webhookEvent} variant="secondary" className="font-mono">
+                                {webhookEvent}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={webhook.active}
+                            disabled={updateMutation.isPending}
+                            onCheckedChange={(active) =>
+                              updateMutation.mutate({ id: webhook.id, update: { active } })
+                            }
+                            aria-label={`Send events to ${webhook.url}`}
+                          />
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button variant="ghost" size="sm" onClick={() => setSelectedId(webhook.id)}>
+                            Deliveries
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(webhook)}
+                            disabled={deleteMutation.isPending}
+                            aria-label={`Delete webhook for ${webhook.url}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {selected && <DeliveriesCard key={selected.id} webhook={selected} />}
+
+          {/* Receiving events */}
+          <Card>
+            <CardContent className="pt-6">
+              <h2 className="text-xl font-medium mb-4">Verifying deliveries</h2>
+              <p className="text-sm text-gray-700 mb-4">
+                Each event is a JSON POST whose <code>data</code> is the extraction result, in the
+                same shape as the API download. The request carries an{" "}
+                <code>X-Webhook-Timestamp</code> header with the Unix time it was sent and an{" "}
+                <code>X-Webhook-Signature</code> header with the HMAC-SHA256 of the timestamp, a
+                dot and the raw body, keyed with the signing secret. Compare signatures in constant
+                time and reject old timestamps.
+              </p>
+              <pre className="bg-gray-50 rounded-md p-4 text-xs font-mono overflow-auto mb-4">
+{`expected = "sha256=" + hex(hmac_sha256(secret, timestamp + "." + body))`}
+              </pre>
+              <p className="text-sm text-gray-700">
+                Answer with a 2xx status within 10 seconds. Other answers are retried up to five
+                times, waiting 30 seconds at first and twice as long each time. The event id in
+                the payload stays the same on retries and redeliveries.
+              </p>
+            </CardContent>
+          </Card>
+        </main>
+      )}
+    </div>
+  );
+}
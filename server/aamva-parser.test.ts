@@ -0,0 +1,94 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { parseAamva } from "./aamva-parser";
+
+// A version 8 California card as a PDF417 scanner returns it: the header, the
+// subfile directory and one data element per line
+function barcode(elements: string[], header = "ANSI 636014080102DL00410278ZC03190024"): string {
+  return `@\n\x1e\r${header}DL${elements.join("\n")}\r`;
+}
+
+const CALIFORNIA = barcode([
+  "DAQD1234562",
+  "DCSDOE",
+  "DACJANE",
+  "DADMARIE",
+  "DBB07151990",
+  "DBD01022020",
+  "DBA07152028",
+  "DBC2",
+  "DAU065 IN",
+  "DAYBRO",
+  "DAG123 MAIN ST",
+  "DAISACRAMENTO",
+  "DAJCA",
+  "DAK958140000",
+  "DCGUSA",
+  "DCAC",
+  "DCBNONE",
+  "DCDNONE",
+]);
+
+describe("parseAamva", () => {
+  test("reads the header", () => {
+    const parsed = parseAamva(CALIFORNIA)!;
+    assert.equal(parsed.issuerIdentificationNumber, "636014");
+    assert.equal(parsed.aamvaVersion, 8);
+    assert.equal(parsed.jurisdictionVersion, 1);
+    assert.equal(parsed.subfileType, "DL");
+    assert.equal(parsed.elements.DAQ, "D1234562");
+  });
+
+  test("maps data elements to license fields", () => {
+    const { fields } = parseAamva(CALIFORNIA)!;
+    assert.deepEqual(fields, {
+      firstName: "JANE",
+      middleName: "MARIE",
+      lastName: "DOE",
+      dateOfBirth: "1990-07-15",
+      licenseNumber: "D1234562",
+      licenseClass: "C",
+      issueDate: "2020-01-02",
+      expiryDate: "2028-07-15",
+      address: { street: "123 MAIN ST", city: "SACRAMENTO", state: "CA", postalCode: "95814", country: "USA" },
+      sex: "F",
+      height: "5-05",
+      eyeColor: "BRO",
+      restrictions: null,
+      endorsements: null,
+      issuingJurisdiction: "CA",
+    });
+  });
+
+  test("reads Canadian dates year first", () => {
+    const { fields } = parseAamva(barcode(["DAQ123", "DCGCAN", "DBB19900715", "DAU178 CM"]))!;
+    assert.equal(fields.dateOfBirth, "1990-07-15");
+    assert.equal(fields.height, "178 cm");
+  });
+
+  test("leaves out dates that are not on the calendar", () => {
+    const { fields } = parseAamva(barcode(["DAQ123", "DBB02311990", "DBA13012030"]))!;
+    assert.equal(fields.dateOfBirth, null);
+    assert.equal(fields.expiryDate, null);
+  });
+
+  test("splits the full name of version 1 cards", () => {
+    const { fields, aamvaVersion } = parseAamva(
+      barcode(["DAQ123", "DAADOE,JANE,MARIE ANN", "DAK958141234"], "AAMVA6360140101DL00290182"),
+    )!;
+    assert.equal(aamvaVersion, 1);
+    assert.equal(fields.lastName, "DOE");
+    assert.equal(fields.firstName, "JANE");
+    assert.equal(fields.middleName, "MARIE ANN");
+    assert.equal(fields.address?.postalCode, "95814-1234");
+  });
+
+  test("keeps the first occurrence of an element", () => {
+    assert.equal(parseAamva(barcode(["DAQ123", "DAQ456"]))!.elements.DAQ, "123");
+  });
+
+  test("returns null without a header or data elements", () => {
+    assert.equal(parseAamva("DAQD1234562\nDCSDOE"), null);
+    assert.equal(parseAamva("@\n\x1e\rANSI 636014080102\r"), null);
+  });
+});
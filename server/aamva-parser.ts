@@ -0,0 +1,148 @@
+import { AamvaBarcode, DriverLicenseExtraction, isCalendarDay } from "@shared/schema";
+
+// Header layout (AAMVA DL/ID Card Design Standard, annex D):
+//   "@" LF RS CR, file type "ANSI " (or "AAMVA" on version 1 cards),
+//   6-digit IIN, 2-digit AAMVA version, 2-digit jurisdiction version
+//   (version 2 and later), 2-digit number of subfile entries
+const HEADER_PATTERN = /(ANSI ?|AAMVA)(\d{6})(\d{2})(\d{2})?(\d{2})/;
+
+// Data elements are a three character ID followed by the value, one per line
+const ELEMENT_PATTERN = /^(D[A-Z]{2}|Z[A-Z]{2})(.*)$/;
+
+const SEX_CODES: Record<string, "M" | "F" | "X"> = {
+  "1": "M",
+  "2": "F",
+  "9": "X",
+  M: "M",
+  F: "F",
+  X: "X",
+};
+
+function clean(value: string | undefined): string | null {
+  if (value === undefined) return null;
+  const trimmed = value.trim();
+  // Fields that do not apply are sent as NONE or as truncation markers
+  if (!trimmed || /^(NONE|UNAVL|unavl)$/.test(trimmed)) return null;
+  return trimmed;
+}
+
+// US cards encode dates as MMDDCCYY, Canadian and version 1 cards as CCYYMMDD
+function parseDate(value: string | undefined, canadian: boolean): string | null {
+  const digits = clean(value)?.replace(/\D/g, "");
+  if (!digits || digits.length !== 8) return null;
+
+  const yearFirst = canadian || /^(19|20)\d{2}(0[1-9]|1[0-2])/.test(digits);
+  const [year, month, day] = yearFirst
+    ? [digits.slice(0, 4), digits.slice(4, 6), digits.slice(6, 8)]
+    : [digits.slice(4, 8), digits.slice(0, 2), digits.slice(2, 4)];
+
+  const date = `${year}-${month}-${day}`;
+  return isCalendarDay(date) ? date : null;
+}
+
+// Height is "070 IN" or "178 CM" from version 2, and free text such as "5-09" before that
+function parseHeight(value: string | undefined): string | null {
+  const height = clean(value);
+  if (!height) return null;
+
+  const inches = height.match(/^0*(\d+)\s*IN$/i);
+  if (inches) {
+    const total = Number(inches[1]);
+    return `${Math.floor(total / 12)}-${String(total % 12).padStart(2, "0")}`;
+  }
+  const centimetres = height.match(/^0*(\d+)\s*CM$/i);
+  if (centimetres) {
+    return `${centimetres[1]} cm`;
+  }
+  return height;
+}
+
+// Version 1 cards may only carry the full name in DAA as LAST,FIRST,MIDDLE
+function splitFullName(value: string | undefined) {
+  const fullName = clean(value);
+  if (!fullName) return {};
+  const [lastName, firstName, ...middle] = fullName.split(/[,$]/).map((part) => part.trim());
+  return {
+    lastName: lastName || null,
+    firstName: firstName || null,
+    middleName: middle.filter(Boolean).join(" ") || null,
+  };
+}
+
+function toFields(elements: Record<string, string>): DriverLicenseExtraction {
+  const country = clean(elements.DCG);
+  const canadian = country === "CAN";
+  const fromFullName = splitFullName(elements.DAA);
+
+  const address = {
+    street: [clean(elements.DAG), clean(elements.DAH)].filter(Boolean).join(" ") || null,
+    city: clean(elements.DAI),
+    state: clean(elements.DAJ),
+    // US ZIP+4 is sent as 9 digits, possibly padded with zeros
+    postalCode: clean(elements.DAK)?.replace(/^(\d{5})(0000)?$/, "$1").replace(/^(\d{5})(\d{4})$/, "$1-$2") ?? null,
+    country,
+  };
+
+  return {
+    firstName: clean(elements.DAC) ?? clean(elements.DCT) ?? fromFullName.firstName ?? null,
+    middleName: clean(elements.DAD) ?? fromFullName.middleName ?? null,
+    lastName: clean(elements.DCS) ?? clean(elements.DAB) ?? fromFullName.lastName ?? null,
+    dateOfBirth: parseDate(elements.DBB, canadian),
+    licenseNumber: clean(elements.DAQ),
+    licenseClass: clean(elements.DCA) ?? clean(elements.DAR),
+    issueDate: parseDate(elements.DBD, canadian),
+    expiryDate: parseDate(elements.DBA, canadian),
+    address: Object.values(address).some(Boolean) ? address : null,
+    sex: SEX_CODES[clean(elements.DBC) ?? ""] ?? null,
+    height: parseHeight(elements.DAU),
+    eyeColor: clean(elements.DAY),
+    restrictions: clean(elements.DCB) ?? clean(elements.DAS),
+    endorsements: clean(elements.DCD) ?? clean(elements.DAT),
+    issuingJurisdiction: clean(elements.DAJ),
+  };
+}
+
+export function parseAamva(text: string): Omit<AamvaBarcode, "fileName"> | null {
+  const header = text.match(HEADER_PATTERN);
+  if (!header) {
+    console.log("[AAMVA Parser] No AAMVA header found in barcode text");
+    return null;
+  }
+
+  const aamvaVersion = Number(header[3]);
+  const jurisdictionVersion = aamvaVersion >= 2 && header[4] ? Number(header[4]) : null;
+
+  // The subfile directory offsets are unreliable in practice, so rather than
+  // seeking to them we read every line that looks like a data element. The
+  // first element of each subfile shares its line with the subfile type.
+  const body = text.slice(header.index! + header[0].length);
+  const subfileMatch = body.match(/(DL|ID)\d{8}/);
+  const subfileType = subfileMatch ? subfileMatch[1] : "DL";
+
+  const elements: Record<string, string> = {};
+  for (const rawLine of body.split(/[\n\r\x1e]+/)) {
+    // Strip the subfile directory and the subfile type prefix ("DL", "ID", "ZC"...)
+    const line = rawLine
+      .replace(/^(?:(?:DL|ID|Z[A-Z])\d{8})+/, "")
+      .replace(/^(DL|ID|Z[A-Z])(?=[DZ][A-Z]{2})/, "");
+    const element = line.match(ELEMENT_PATTERN);
+    if (element && !(element[1] in elements)) {
+      elements[element[1]] = element[2];
+    }
+  }
+
+  if (Object.keys(elements).length === 0) {
+    console.log("[AAMVA Parser] Header found but no data elements");
+    return null;
+  }
+
+  console.log(`[AAMVA Parser] Parsed ${Object.keys(elements).length} elements (AAMVA version ${aamvaVersion})`);
+  return {
+    issuerIdentificationNumber: header[2],
+    aamvaVersion,
+    jurisdictionVersion,
+    subfileType,
+    elements,
+    fields: toFields(elements),
+  };
+}
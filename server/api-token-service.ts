@@ -0,0 +1,91 @@
+import { createHash, randomBytes } from "crypto";
+import {
+  apiTokenScopePermissions,
+  hasPermission,
+  type ApiToken,
+  type ApiTokenScope,
+  type ApiTokenSummary,
+  type CreateApiToken,
+  type CreatedApiToken,
+  type User,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// Tokens look like "lic_<43 base64url characters>"; the prefix makes leaked
+// tokens easy to recognise
+const TOKEN_PREFIX = "lic_";
+const DISPLAYED_LENGTH = TOKEN_PREFIX.length + 6;
+
+// Tokens are random enough that a plain SHA-256 is a safe way to store them
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function toApiTokenSummary({ tokenHash: _tokenHash, ...token }: ApiToken): ApiTokenSummary {
+  return token;
+}
+
+export async function createApiToken(
+  user: User,
+  input: CreateApiToken
+): Promise<CreatedApiToken | { error: string }> {
+  // A token cannot be given a scope its owner's role does not allow
+  const denied = input.scopes.find((scope) => {
+    const permission = apiTokenScopePermissions[scope];
+    return permission && !hasPermission(user.role, permission);
+  });
+  if (denied) {
+    return { error: `Your role does not allow the ${denied} scope` };
+  }
+
+  const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+  const stored = await storage.createApiToken({
+    organizationId: user.organizationId,
+    userId: user.id,
+    name: input.name,
+    tokenHash: hashToken(token),
+    tokenPrefix: token.slice(0, DISPLAYED_LENGTH),
+    scopes: Array.from(new Set(input.scopes)),
+  });
+  console.log(`[API Tokens] User ${user.id} created token ${stored.id}`);
+  return { ...toApiTokenSummary(stored), token };
+}
+
+export async function revokeApiToken(user: User, id: number): Promise<ApiTokenSummary | undefined> {
+  const owned = (await storage.listApiTokens(user.organizationId, user.id)).find(
+    (token) => token.id === id,
+  );
+  if (!owned) return undefined;
+  if (owned.revokedAt) return toApiTokenSummary(owned);
+
+  const revoked = await storage.updateApiToken(user.organizationId, id, { revokedAt: new Date() });
+  console.log(`[API Tokens] User ${user.id} revoked token ${id}`);
+  return revoked && toApiTokenSummary(revoked);
+}
+
+// The owner of a valid, unrevoked token, or an error message
+export async function authenticateApiToken(
+  token: string,
+  scope: ApiTokenScope
+): Promise<{ user: User; tokenId: number } | { error: string; status: number }> {
+  const stored = token.startsWith(TOKEN_PREFIX)
+    ? await storage.getApiTokenByHash(hashToken(token))
+    : undefined;
+  if (!stored || stored.revokedAt) {
+    return { error: "Invalid or revoked API token", status: 401 };
+  }
+
+  const user = await storage.getUser(stored.userId);
+  if (!user || user.organizationId !== stored.organizationId) {
+    return { error: "Invalid or revoked API token", status: 401 };
+  }
+
+  // The owner's role is checked again, in case it changed since the token was made
+  const permission = apiTokenScopePermissions[scope];
+  if (!stored.scopes.includes(scope) || (permission && !hasPermission(user.role, permission))) {
+    return { error: `Token scope ${scope} required`, status: 403 };
+  }
+
+  await storage.updateApiToken(stored.organizationId, stored.id, { lastUsedAt: new Date() });
+  return { user, tokenId: stored.id };
+}
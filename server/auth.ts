@@ -0,0 +1,211 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import {
+  hasPermission,
+  type ApiTokenScope,
+  type Permission,
+  type PublicUser,
+  type RegisterUser,
+  type User as SelectUser,
+} from "@shared/schema";
+import { api } from "@shared/api";
+import { storage } from "./storage";
+import { authenticateApiToken } from "./api-token-service";
+import { validateRequest } from "./openapi";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+    interface Request {
+      // Set when the request was authenticated with an API token
+      apiTokenId?: number;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Passwords are stored as "<scrypt hash>.<salt>", both hex encoded
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+export function toPublicUser({ password: _password, ...user }: SelectUser): PublicUser {
+  return user;
+}
+
+// Rejects requests without a logged-in user
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+}
+
+export function can(user: Express.User | undefined, permission: Permission): boolean {
+  return !!user && hasPermission(user.role, permission);
+}
+
+// Rejects requests from users whose role lacks the permission
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!can(req.user, permission)) {
+      return res.status(403).json({ error: `Permission ${permission} required` });
+    }
+    next();
+  };
+}
+
+// Authenticates /api/v1 requests by their bearer token. The session is not
+// used there, so a logged-in browser cannot call the API without a token.
+export function requireApiToken(scope: ApiTokenScope) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const match = /^Bearer\s+(\S+)$/i.exec(req.get("authorization") ?? "");
+    if (!match) {
+      return res.status(401).json({ error: "API token required" });
+    }
+
+    try {
+      const result = await authenticateApiToken(match[1], scope);
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      req.user = result.user;
+      req.apiTokenId = result.tokenId;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Session middleware, passport and the register/login/logout routes
+export function setupAuth(app: Express) {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    console.log("[Auth] SESSION_SECRET is not set, sessions will not survive a restart");
+    secret = randomBytes(32).toString("hex");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(
+    session({
+      secret,
+      resave: false,
+      saveUninitialized: false,
+      store: storage.sessionStore,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: app.get("env") === "production",
+        maxAge: 7 * 24 * 60 * 60 * 1000,
+      },
+    }),
+  );
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false, { message: "Invalid username or password" });
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deleted user simply ends up logged out
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post(api.register.path, validateRequest(api.register), async (req, res, next) => {
+    const input = req.body as RegisterUser;
+    try {
+      if (await storage.getUserByUsername(input.username)) {
+        return res.status(409).json({ error: "Username already exists" });
+      }
+
+      if (await storage.getOrganizationByName(input.organizationName)) {
+        return res.status(409).json({ error: "Organization already exists" });
+      }
+
+      // Signing up creates a new organization with this user as its admin;
+      // everyone else joins when an admin adds them
+      const { organization, user } = await storage.createOrganization(
+        { name: input.organizationName },
+        {
+          username: input.username,
+          password: await hashPassword(input.password),
+        },
+      );
+      console.log(`[Auth] Registered user ${user.id} with organization ${organization.id}`);
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post(api.login.path, validateRequest(api.login), (req, res, next) => {
+    passport.authenticate(
+      "local",
+      (err: any, user: SelectUser | false, info?: { message: string }) => {
+        if (err) return next(err);
+        if (!user) {
+          return res.status(401).json({ error: info?.message || "Invalid username or password" });
+        }
+        req.login(user, (loginErr) => {
+          if (loginErr) return next(loginErr);
+          console.log(`[Auth] User ${user.id} logged in`);
+          res.status(200).json(toPublicUser(user));
+        });
+      },
+    )(req, res, next);
+  });
+
+  app.post(api.logout.path, (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.sendStatus(200);
+      });
+    });
+  });
+
+  app.get(api.getCurrentUser.path, requireAuth, (req, res) => {
+    res.status(200).json(toPublicUser(req.user!));
+  });
+}
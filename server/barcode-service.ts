@@ -0,0 +1,81 @@
+import sharp from "sharp";
+import {
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  PDF417Reader,
+  RGBLuminanceSource,
+} from "@zxing/library";
+import { AamvaBarcode } from "@shared/schema";
+import { parseAamva } from "./aamva-parser";
+import type { MulterFile } from "./extraction-provider";
+
+// Large phone photos are scaled down before decoding; PDF417 modules stay
+// readable well below this size and decoding time grows with pixel count
+const MAX_DECODE_DIMENSION = 2400;
+
+// The barcode may be photographed sideways, and the reader only handles
+// upright and upside-down symbols itself
+const ROTATIONS = [0, 90];
+
+async function decodePdf417(buffer: Buffer): Promise<string | null> {
+  const reader = new PDF417Reader();
+  const hints = new Map<DecodeHintType, any>([[DecodeHintType.TRY_HARDER, true]]);
+
+  for (const angle of ROTATIONS) {
+    const { data, info } = await sharp(buffer)
+      .autoOrient() // apply EXIF orientation first
+      .rotate(angle)
+      .resize(MAX_DECODE_DIMENSION, MAX_DECODE_DIMENSION, { fit: "inside", withoutEnlargement: true })
+      .flatten({ background: "#ffffff" }) // transparent pixels would read as black
+      .greyscale()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const luminances = new Uint8ClampedArray(data.buffer, data.byteOffset, data.length);
+    const source = new RGBLuminanceSource(luminances, info.width, info.height);
+    const bitmap = new BinaryBitmap(new HybridBinarizer(source));
+
+    try {
+      return reader.decode(bitmap, hints).getText();
+    } catch {
+      // NotFoundException and friends: no readable symbol at this rotation
+      reader.reset();
+    }
+  }
+
+  return null;
+}
+
+// Decode and parse the AAMVA barcode of a single image, if it has one
+export async function decodeLicenseBarcode(file: MulterFile): Promise<AamvaBarcode | null> {
+  try {
+    const text = await decodePdf417(file.buffer);
+    if (!text) {
+      return null;
+    }
+    console.log(`[Barcode Service] PDF417 found in ${file.originalname} (${text.length} chars)`);
+
+    const parsed = parseAamva(text);
+    return parsed ? { fileName: file.originalname, ...parsed } : null;
+  } catch (error: any) {
+    // Unsupported or corrupt images must not fail the whole request
+    console.error(`[Barcode Service] Could not scan ${file.originalname}: ${error.message}`);
+    return null;
+  }
+}
+
+// Scan every uploaded image and return the first AAMVA barcode found
+export async function findLicenseBarcode(files: MulterFile[]): Promise<AamvaBarcode | null> {
+  console.log(`[Barcode Service] Scanning ${files.length} files for a PDF417 barcode`);
+
+  for (const file of files) {
+    const barcode = await decodeLicenseBarcode(file);
+    if (barcode) {
+      return barcode;
+    }
+  }
+
+  console.log("[Barcode Service] No AAMVA barcode found");
+  return null;
+}
@@ -0,0 +1,601 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import type { Batch, BatchDocument, BatchResultsDownload, ExtractionErrorCode } from "@shared/schema";
+import { storage } from "./storage";
+import {
+  abortError,
+  type ExtractionProvider,
+  type ExtractionRequest,
+  type MulterFile,
+} from "./extraction-provider";
+import { runExtraction } from "./extraction-pipeline";
+import {
+  beginExtraction,
+  finishExtraction,
+  findDuplicateExtraction,
+  toResultDownload,
+  type ExtractionOwner,
+} from "./extraction-history";
+import { consumeSubmissionQuota } from "./quota-service";
+import { checkSubmissionQuality } from "./image-quality";
+import { classifyImage, toDocumentGroups, type ClassifiedImage, type DocumentGroup } from "./document-pairing";
+import { convertHeicImages } from "./heic-decoder";
+import { readZipEntries } from "./zip-reader";
+
+type BatchRequest = Omit<ExtractionRequest, "files" | "quality" | "sides" | "barcode" | "signal" | "onProgress">;
+type BatchOwner = Omit<ExtractionOwner, "jobId"> & { profileId: number };
+
+// Documents extracted at the same time across every batch, which keeps a
+// large batch within the provider's rate limits
+const BATCH_CONCURRENCY = Number(process.env.BATCH_CONCURRENCY) || 3;
+
+// Runs of a document before it is left failed for a manual retry
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 2_000;
+
+// The whole pool waits this long once the provider reports a rate limit
+const RATE_LIMIT_COOLDOWN_MS = 30_000;
+
+// Images of a finished batch are kept on disk this long for manual retries
+const FILES_RETENTION_MS = 60 * 60 * 1000;
+
+const MAX_BATCH_IMAGES = 1000;
+// The same limit as images uploaded on their own
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+// Images of one batch once unpacked, checked against the sizes archives
+// record before any entry is inflated
+const MAX_BATCH_BYTES = 1024 * 1024 * 1024;
+
+// Failures that may go away by running again
+const RETRYABLE_ERRORS: ExtractionErrorCode[] = [
+  "rate_limited",
+  "timeout",
+  "no_response",
+  "provider_error",
+  "run_failed",
+  "run_expired",
+  "run_incomplete",
+];
+
+// Archive entries are recognised as images by their extension
+const IMAGE_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".heic": "image/heic",
+  ".heif": "image/heif",
+  ".tif": "image/tiff",
+  ".tiff": "image/tiff",
+  ".gif": "image/gif",
+  ".bmp": "image/bmp",
+};
+
+// An image of a batch, written to the batch's directory so only the
+// documents being extracted are held in memory
+interface BatchImage {
+  // As listed among skipped files, with the archive it came from
+  fileName: string;
+  originalname: string;
+  mimetype: string;
+  path: string;
+}
+
+// An image found in the upload, read only once the whole upload is known to
+// fit in a batch
+interface PendingImage {
+  fileName: string;
+  originalname: string;
+  mimetype: string;
+  size: number;
+  read(): Buffer;
+}
+
+// What a batch needs to run its documents, kept while its images are
+interface RunningBatch {
+  provider: ExtractionProvider;
+  request: BatchRequest;
+  owner: BatchOwner;
+  directory: string;
+  images: BatchImage[];
+  groups: DocumentGroup[];
+  controller: AbortController;
+  releaseTimer?: NodeJS.Timeout;
+}
+
+// One run of one document; attempt counts from 1 since it was last queued
+interface Task {
+  batchId: string;
+  index: number;
+  attempt: number;
+}
+
+const runningBatches = new Map<string, RunningBatch>();
+
+// Documents waiting for a worker, in order
+const queue: Task[] = [];
+let activeWorkers = 0;
+let pausedUntil = 0;
+let wakeTimer: NodeJS.Timeout | undefined;
+
+export function isBatchFinished(batch: Batch): boolean {
+  return batch.status === "completed" || batch.status === "failed" || batch.status === "cancelled";
+}
+
+export function isZipFile(file: Pick<MulterFile, "originalname" | "mimetype">): boolean {
+  return (
+    file.mimetype === "application/zip" ||
+    file.mimetype === "application/x-zip-compressed" ||
+    path.extname(file.originalname).toLowerCase() === ".zip"
+  );
+}
+
+// Images of the upload in order: loose images as uploaded, then the images
+// of each archive sorted by name so numbered scans stay in sequence
+function listUploadImages(uploads: MulterFile[]): { images: PendingImage[]; skipped: Batch["skipped"] } {
+  const images: PendingImage[] = [];
+  const skipped: Batch["skipped"] = [];
+  const looseImages = uploads.filter((upload) => !isZipFile(upload));
+  const archives = uploads.filter((upload) => isZipFile(upload));
+
+  looseImages.forEach((image) => {
+    if (image.size > MAX_IMAGE_BYTES) skipped.push({ fileName: image.originalname, reason: "larger than 10 MB" });
+    else {
+      const { originalname, mimetype, size } = image;
+      images.push({ fileName: originalname, originalname, mimetype, size, read: () => image.buffer });
+    }
+  });
+
+  archives.forEach((archive) => {
+    let entries;
+    try {
+      entries = readZipEntries(archive.buffer);
+    } catch (error: any) {
+      skipped.push({ fileName: archive.originalname, reason: error.message });
+      return;
+    }
+    entries
+      .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+      .forEach((entry) => {
+        const fileName = `${archive.originalname}/${entry.name}`;
+        const baseName = path.posix.basename(entry.name);
+        // Resource forks and hidden files that archivers add
+        if (entry.name.startsWith("__MACOSX/") || baseName.startsWith(".")) return;
+
+        const mimetype = IMAGE_TYPES[path.posix.extname(baseName).toLowerCase()];
+        if (!mimetype) {
+          skipped.push({ fileName, reason: "not an image" });
+          return;
+        }
+        if (entry.size > MAX_IMAGE_BYTES) {
+          skipped.push({ fileName, reason: "larger than 10 MB" });
+          return;
+        }
+        images.push({
+          fileName,
+          originalname: baseName,
+          mimetype,
+          size: entry.size,
+          read: () => entry.read(),
+        });
+      });
+  });
+
+  return { images, skipped };
+}
+
+// Inflate the images one at a time into the batch's directory, named by
+// position. Entries that turn out damaged are skipped.
+async function writeBatchImages(
+  directory: string,
+  pending: PendingImage[],
+  skipped: Batch["skipped"]
+): Promise<BatchImage[]> {
+  const images: BatchImage[] = [];
+  for (const image of pending) {
+    let buffer: Buffer;
+    try {
+      buffer = image.read();
+    } catch (error: any) {
+      skipped.push({ fileName: image.fileName, reason: error.message });
+      continue;
+    }
+    const imagePath = path.join(directory, String(images.length));
+    await fs.writeFile(imagePath, buffer);
+    images.push({ fileName: image.fileName, originalname: image.originalname, mimetype: image.mimetype, path: imagePath });
+  }
+  return images;
+}
+
+async function loadImage(image: BatchImage): Promise<MulterFile> {
+  const buffer = await fs.readFile(image.path);
+  return {
+    fieldname: "files",
+    originalname: image.originalname,
+    encoding: "7bit",
+    mimetype: image.mimetype,
+    size: buffer.length,
+    buffer,
+  };
+}
+
+async function removeBatchImages(directory: string) {
+  try {
+    await fs.rm(directory, { recursive: true, force: true });
+  } catch (error) {
+    console.error(`[Batch Service] Could not remove ${directory}:`, error);
+  }
+}
+
+// Start workers for queued documents, unless the pool is waiting out a rate limit
+function schedule() {
+  const wait = pausedUntil - Date.now();
+  if (wait > 0) {
+    wakeTimer ??= setTimeout(() => {
+      wakeTimer = undefined;
+      schedule();
+    }, wait);
+    return;
+  }
+
+  while (activeWorkers < BATCH_CONCURRENCY && queue.length > 0) {
+    const task = queue.shift()!;
+    activeWorkers++;
+    void runTask(task)
+      .catch((error) => console.error(`[Batch Service] Document ${task.index + 1} of batch ${task.batchId} threw:`, error))
+      .finally(() => {
+        activeWorkers--;
+        schedule();
+      });
+  }
+}
+
+function enqueue(tasks: Task[]) {
+  queue.push(...tasks);
+  schedule();
+}
+
+// Extract one document, reusing an earlier result of the same images when
+// there is one, as jobs do
+async function extractDocument(
+  running: RunningBatch,
+  group: DocumentGroup,
+  controller: AbortController
+): Promise<Pick<BatchDocument, "status" | "extractionId" | "error" | "errorCode">> {
+  const { provider, request, owner } = running;
+  const files = await Promise.all(group.positions.map((position) => loadImage(running.images[position])));
+
+  const duplicate = await findDuplicateExtraction(owner, files);
+  if (duplicate) {
+    return { status: "completed", extractionId: duplicate.id, error: null, errorCode: null };
+  }
+
+  const checked = await checkSubmissionQuality(owner.organizationId, files);
+  if ("error" in checked) {
+    return { status: "failed", extractionId: null, error: checked.error, errorCode: null };
+  }
+
+  const exceeded = await consumeSubmissionQuota(owner.organizationId);
+  if (exceeded) {
+    return { status: "failed", extractionId: null, error: exceeded.error, errorCode: null };
+  }
+
+  const documentRequest = {
+    ...request,
+    files,
+    quality: checked.quality,
+    sides: group.sides,
+    barcode: group.barcode,
+  };
+  const extractionId = await beginExtraction(provider, documentRequest, owner);
+
+  try {
+    const result = await runExtraction(provider, { ...documentRequest, signal: controller.signal });
+    if (controller.signal.aborted) {
+      const cancelled = abortError(controller.signal);
+      await finishExtraction(owner.organizationId, extractionId, { error: cancelled.message, errorCode: cancelled.code });
+      return { status: "cancelled", extractionId: extractionId ?? null, error: cancelled.message, errorCode: cancelled.code };
+    }
+
+    await finishExtraction(owner.organizationId, extractionId, result);
+    return {
+      status: result.error ? "failed" : "completed",
+      extractionId: extractionId ?? null,
+      error: result.error ?? null,
+      errorCode: result.errorCode ?? null,
+    };
+  } catch (error: any) {
+    const message = error.message || "An error occurred while processing the images";
+    await finishExtraction(owner.organizationId, extractionId, { error: message, errorCode: "provider_error" });
+    return { status: "failed", extractionId: extractionId ?? null, error: message, errorCode: "provider_error" };
+  }
+}
+
+async function runTask({ batchId, index, attempt }: Task) {
+  const running = runningBatches.get(batchId);
+  const batch = await storage.getBatch(batchId);
+  if (!running || !batch || batch.documents[index]?.status !== "queued") return;
+  // A retry after cancelling replaces the controller; this run answers to its own
+  const { controller } = running;
+
+  await storage.updateBatchDocument(batchId, index, {
+    status: "running",
+    attempts: batch.documents[index].attempts + 1,
+  });
+  let outcome: Awaited<ReturnType<typeof extractDocument>>;
+  try {
+    outcome = await extractDocument(running, running.groups[index], controller);
+  } catch (error: unknown) {
+    // Loading the images, the checks before the run or recording it failed.
+    // The document is failed so the batch still finishes and is released.
+    console.error(`[Batch Service] Document ${index + 1} of batch ${batchId} could not be extracted:`, error);
+    const message = error instanceof Error ? error.message : "The document could not be extracted";
+    outcome = { status: "failed", extractionId: null, error: message, errorCode: null };
+  }
+  // Cancelling already marked the document
+  if (controller.signal.aborted) return;
+
+  if (
+    outcome.status === "failed" &&
+    outcome.errorCode &&
+    RETRYABLE_ERRORS.includes(outcome.errorCode) &&
+    attempt < MAX_ATTEMPTS
+  ) {
+    const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+    if (outcome.errorCode === "rate_limited") {
+      pausedUntil = Math.max(pausedUntil, Date.now() + RATE_LIMIT_COOLDOWN_MS);
+      console.log(`[Batch Service] Rate limited, pausing every batch for ${RATE_LIMIT_COOLDOWN_MS / 1000}s`);
+    }
+    console.log(`[Batch Service] Retrying document ${index + 1} of batch ${batchId} in ${delay}ms: ${outcome.error}`);
+    // The last error stays visible until the next run
+    await storage.updateBatchDocument(batchId, index, { ...outcome, status: "queued" });
+    setTimeout(() => enqueue([{ batchId, index, attempt: attempt + 1 }]), delay);
+    return;
+  }
+
+  await storage.updateBatchDocument(batchId, index, outcome);
+  await finishIfDone(batchId);
+}
+
+// Drop a finished batch's images once nobody is likely to retry it
+function scheduleRelease(batchId: string) {
+  const running = runningBatches.get(batchId);
+  if (!running) return;
+  clearTimeout(running.releaseTimer);
+  running.releaseTimer = setTimeout(() => {
+    runningBatches.delete(batchId);
+    void removeBatchImages(running.directory);
+    console.log(`[Batch Service] Released the images of batch ${batchId}`);
+  }, FILES_RETENTION_MS);
+}
+
+// A batch is done once no document is waiting or running. It succeeds when
+// any document did; each document keeps its own error.
+async function finishIfDone(batchId: string) {
+  const batch = await storage.getBatch(batchId);
+  if (!batch || isBatchFinished(batch)) return;
+  if (batch.documents.some((document) => document.status === "queued" || document.status === "running")) return;
+
+  const completed = batch.documents.filter((document) => document.status === "completed").length;
+  await storage.updateBatch(batchId, {
+    status: completed > 0 ? "completed" : "failed",
+    completedAt: new Date().toISOString(),
+    error: completed > 0 ? null : "No document could be extracted",
+  });
+  console.log(`[Batch Service] Batch ${batchId} finished, ${completed} of ${batch.documents.length} documents extracted`);
+  scheduleRelease(batchId);
+}
+
+// Convert HEIC photos, sort the images into documents and queue them all.
+// Photos that cannot be decoded are skipped like any unreadable file.
+async function startBatch(batchId: string, running: RunningBatch, skipped: Batch["skipped"]) {
+  try {
+    const images: BatchImage[] = [];
+    const classified: ClassifiedImage[] = [];
+    for (const image of running.images) {
+      if (running.controller.signal.aborted) return;
+      const {
+        files: [file],
+        unreadable,
+      } = await convertHeicImages([await loadImage(image)]);
+      if (!file) {
+        skipped.push(...unreadable.map(({ reason }) => ({ fileName: image.fileName, reason })));
+        continue;
+      }
+      if (file.originalname !== image.originalname) {
+        await fs.writeFile(image.path, file.buffer);
+        Object.assign(image, { originalname: file.originalname, mimetype: file.mimetype });
+      }
+      images.push(image);
+      classified.push(await classifyImage(file));
+    }
+    if (running.controller.signal.aborted) return;
+    if (images.length < running.images.length) {
+      running.images = images;
+      await storage.updateBatch(batchId, { fileCount: images.length, skipped });
+    }
+    if (images.length === 0) {
+      throw new Error("None of the images could be read");
+    }
+    running.groups = toDocumentGroups(classified);
+
+    await storage.updateBatch(batchId, {
+      status: "running",
+      startedAt: new Date().toISOString(),
+      documents: running.groups.map((group) => ({
+        images: group.positions.map((position, i) => ({
+          position,
+          fileName: running.images[position].originalname,
+          side: group.sides[i],
+        })),
+        status: "queued",
+        extractionId: null,
+        error: null,
+        errorCode: null,
+        attempts: 0,
+      })),
+    });
+    console.log(`[Batch Service] Batch ${batchId} queued ${running.groups.length} documents`);
+    enqueue(running.groups.map((_, index) => ({ batchId, index, attempt: 1 })));
+  } catch (error: any) {
+    console.error(`[Batch Service] Could not sort the images of batch ${batchId}:`, error);
+    await storage.updateBatch(batchId, {
+      status: "failed",
+      completedAt: new Date().toISOString(),
+      error: error.message || "The images could not be sorted into documents",
+    });
+    runningBatches.delete(batchId);
+    await removeBatchImages(running.directory);
+  }
+}
+
+export type CreateBatchResult = { batch: Batch } | { error: string; status: number };
+
+// Unpack the upload and start sorting it into documents in the background.
+// Quotas are counted per document as each one runs.
+export async function createBatch(
+  provider: ExtractionProvider,
+  request: BatchRequest,
+  owner: BatchOwner,
+  uploads: MulterFile[]
+): Promise<CreateBatchResult> {
+  const { images: pending, skipped } = listUploadImages(uploads);
+  if (pending.length === 0) {
+    return { error: "No images were found in the upload", status: 400 };
+  }
+  if (pending.length > MAX_BATCH_IMAGES) {
+    return { error: `A batch may hold at most ${MAX_BATCH_IMAGES} images, this one has ${pending.length}`, status: 400 };
+  }
+  const totalBytes = pending.reduce((total, image) => total + image.size, 0);
+  if (totalBytes > MAX_BATCH_BYTES) {
+    return { error: "A batch may hold at most 1 GB of images once unpacked", status: 400 };
+  }
+
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "batch-"));
+  let files: BatchImage[];
+  try {
+    files = await writeBatchImages(directory, pending, skipped);
+  } catch (error) {
+    await removeBatchImages(directory);
+    throw error;
+  }
+  if (files.length === 0) {
+    await removeBatchImages(directory);
+    return { error: "No images could be read from the upload", status: 400 };
+  }
+
+  const batch = await storage.createBatch({
+    id: randomUUID(),
+    userId: owner.userId,
+    profileId: owner.profileId,
+    status: "queued",
+    provider: provider.name,
+    fileCount: files.length,
+    skipped,
+    createdAt: new Date().toISOString(),
+    startedAt: null,
+    completedAt: null,
+    error: null,
+    documents: [],
+  });
+  console.log(`[Batch Service] Batch ${batch.id} created with ${files.length} images, ${skipped.length} skipped`);
+
+  const running: RunningBatch = {
+    provider,
+    request,
+    owner,
+    directory,
+    images: files,
+    groups: [],
+    controller: new AbortController(),
+  };
+  runningBatches.set(batch.id, running);
+  void startBatch(batch.id, running, skipped);
+  return { batch };
+}
+
+// Cancel a batch: waiting documents are dropped and running ones stopped.
+// Finished batches are returned unchanged.
+export async function cancelBatch(id: string): Promise<Batch | undefined> {
+  const batch = await storage.getBatch(id);
+  if (!batch || isBatchFinished(batch)) return batch;
+
+  console.log(`[Batch Service] Cancelling batch ${id}`);
+  runningBatches.get(id)?.controller.abort("cancelled");
+  for (let i = queue.length - 1; i >= 0; i--) {
+    if (queue[i].batchId === id) queue.splice(i, 1);
+  }
+
+  for (let index = 0; index < batch.documents.length; index++) {
+    const { status } = batch.documents[index];
+    if (status === "queued" || status === "running") {
+      await storage.updateBatchDocument(id, index, { status: "cancelled", error: "The batch was cancelled" });
+    }
+  }
+  await storage.updateBatch(id, {
+    status: "cancelled",
+    completedAt: new Date().toISOString(),
+    error: "The batch was cancelled",
+  });
+  scheduleRelease(id);
+  return storage.getBatch(id);
+}
+
+// Queue failed and cancelled documents again: one of them, or all of them
+export async function retryBatch(id: string, index?: number): Promise<CreateBatchResult> {
+  const batch = await storage.getBatch(id);
+  if (!batch) return { error: "Batch not found", status: 404 };
+  if (batch.status === "queued") {
+    return { error: "The images of this batch are still being sorted", status: 409 };
+  }
+  if (index !== undefined && !batch.documents[index]) {
+    return { error: "Document not found", status: 404 };
+  }
+
+  const retryable = (document: BatchDocument) => document.status === "failed" || document.status === "cancelled";
+  const indexes =
+    index !== undefined
+      ? [index]
+      : batch.documents.flatMap((document, i) => (retryable(document) ? [i] : []));
+  if (indexes.length === 0 || !indexes.every((i) => retryable(batch.documents[i]))) {
+    return { error: "Only failed or cancelled documents can be retried", status: 409 };
+  }
+
+  const running = runningBatches.get(id);
+  if (!running) {
+    return { error: "The images of this batch are no longer kept, so it cannot be retried", status: 409 };
+  }
+  clearTimeout(running.releaseTimer);
+  if (running.controller.signal.aborted) running.controller = new AbortController();
+
+  for (const i of indexes) {
+    await storage.updateBatchDocument(id, i, { status: "queued", error: null, errorCode: null });
+  }
+  await storage.updateBatch(id, { status: "running", completedAt: null, error: null });
+  console.log(`[Batch Service] Retrying ${indexes.length} documents of batch ${id}`);
+  enqueue(indexes.map((i) => ({ batchId: id, index: i, attempt: 1 })));
+
+  return { batch: (await storage.getBatch(id))! };
+}
+
+// Every document of a batch with its stored result, in one download
+export async function exportBatchResults(organizationId: number, batch: Batch): Promise<BatchResultsDownload> {
+  const documents = await Promise.all(
+    batch.documents.map(async (document, index) => {
+      const extraction =
+        document.extractionId !== null
+          ? await storage.getExtraction(organizationId, document.extractionId)
+          : undefined;
+      return {
+        index,
+        fileNames: document.images.map((image) => image.fileName),
+        status: document.status,
+        error: document.error,
+        result: extraction && document.status === "completed" ? toResultDownload(extraction) : null,
+      };
+    })
+  );
+  return { batchId: batch.id, documents };
+}
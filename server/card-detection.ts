@@ -0,0 +1,345 @@
+import sharp from "sharp";
+import type { CardCorners } from "@shared/schema";
+
+// ID-1 cards (driver's licenses, ID cards) are 85.60 × 53.98 mm
+export const ID1_ASPECT_RATIO = 85.6 / 53.98;
+
+// Corners are searched for at this size; the warp uses the full image
+const DETECTION_DIMENSION = 512;
+
+// The card must cover this share of the frame, so the portrait on a scan
+// already cropped to the card is not taken for the card
+const MIN_CARD_AREA = 0.2;
+// Share of the detected quadrilateral the card region must fill
+const MIN_FILL = 0.85;
+// Longer side over shorter side, with room for perspective
+const MIN_ASPECT = 1.3;
+// Width in pixels of the outline the card region includes, at detection size
+const OUTLINE_WIDTH = 2;
+const MAX_ASPECT = 2;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+function polygonArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const next = points[(i + 1) % points.length];
+    area += points[i].x * next.y - next.x * points[i].y;
+  }
+  return Math.abs(area) / 2;
+}
+
+// Gradient magnitude with a Sobel filter, thresholded and dilated by one pixel
+// so small gaps in the card's outline are closed
+function edgeMap(pixels: Buffer, width: number, height: number): Uint8Array {
+  const magnitudes = new Float32Array(width * height);
+  let total = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx =
+        pixels[i - width + 1] + 2 * pixels[i + 1] + pixels[i + width + 1] -
+        pixels[i - width - 1] - 2 * pixels[i - 1] - pixels[i + width - 1];
+      const gy =
+        pixels[i + width - 1] + 2 * pixels[i + width] + pixels[i + width + 1] -
+        pixels[i - width - 1] - 2 * pixels[i - width] - pixels[i - width + 1];
+      magnitudes[i] = Math.sqrt(gx * gx + gy * gy);
+      total += magnitudes[i];
+    }
+  }
+  const threshold = Math.max(30, (2 * total) / (width * height));
+
+  const edges = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (magnitudes[y * width + x] <= threshold) continue;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && ny >= 0 && nx < width && ny < height) edges[ny * width + nx] = 1;
+        }
+      }
+    }
+  }
+  return edges;
+}
+
+// Label 4-connected pixels of a mask reachable from the seeds, returning them
+function floodFill(mask: Uint8Array, width: number, seeds: number[], label: Uint8Array): number[] {
+  const filled: number[] = [];
+  const queue = seeds.filter((i) => mask[i] && !label[i]);
+  queue.forEach((i) => (label[i] = 1));
+  while (queue.length > 0) {
+    const i = queue.pop()!;
+    filled.push(i);
+    const x = i % width;
+    for (const next of [i - width, i + width, x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1]) {
+      if (next >= 0 && next < mask.length && mask[next] && !label[next]) {
+        label[next] = 1;
+        queue.push(next);
+      }
+    }
+  }
+  return filled;
+}
+
+// The largest region enclosed by edges that does not touch the frame. The
+// background is everything reachable from the border without crossing an edge.
+function findCardRegion(edges: Uint8Array, width: number, height: number): number[] | null {
+  const open = edges.map((edge) => (edge ? 0 : 1));
+  const visited = new Uint8Array(width * height);
+  const border: number[] = [];
+  for (let x = 0; x < width; x++) border.push(x, (height - 1) * width + x);
+  for (let y = 0; y < height; y++) border.push(y * width, y * width + width - 1);
+  floodFill(open, width, border, visited);
+
+  const enclosed = visited.map((reached) => (reached ? 0 : 1));
+  const labelled = new Uint8Array(width * height);
+  let largest: number[] | null = null;
+  for (let i = 0; i < enclosed.length; i++) {
+    if (!enclosed[i] || labelled[i]) continue;
+    const region = floodFill(enclosed, width, [i], labelled);
+    if (!largest || region.length > largest.length) largest = region;
+  }
+  if (!largest) return null;
+
+  const touchesFrame = largest.some((i) => {
+    const x = i % width;
+    const y = Math.floor(i / width);
+    return x === 0 || y === 0 || x === width - 1 || y === height - 1;
+  });
+  return touchesFrame ? null : largest;
+}
+
+// Convex hull with Andrew's monotone chain, counter-clockwise in image space
+function convexHull(points: Point[]): Point[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  const half = (input: Point[]) => {
+    const chain: Point[] = [];
+    for (const point of input) {
+      while (chain.length >= 2 && cross(chain[chain.length - 2], chain[chain.length - 1], point) <= 0) {
+        chain.pop();
+      }
+      chain.push(point);
+    }
+    chain.pop();
+    return chain;
+  };
+  return [...half(sorted), ...half([...sorted].reverse())];
+}
+
+function intersect(a1: Point, a2: Point, b1: Point, b2: Point): Point | null {
+  const denominator = (a1.x - a2.x) * (b1.y - b2.y) - (a1.y - a2.y) * (b1.x - b2.x);
+  if (Math.abs(denominator) < 1e-9) return null;
+  const a = a1.x * a2.y - a1.y * a2.x;
+  const b = b1.x * b2.y - b1.y * b2.x;
+  return {
+    x: (a * (b1.x - b2.x) - (a1.x - a2.x) * b) / denominator,
+    y: (a * (b1.y - b2.y) - (a1.y - a2.y) * b) / denominator,
+  };
+}
+
+// Move a line towards a point by the width of the outline
+function inset([a, b]: [Point, Point], towards: Point): [Point, Point] {
+  const length = distance(a, b) || 1;
+  let nx = (a.y - b.y) / length;
+  let ny = (b.x - a.x) / length;
+  if (nx * (towards.x - a.x) + ny * (towards.y - a.y) < 0) {
+    nx = -nx;
+    ny = -ny;
+  }
+  const shift = (p: Point) => ({ x: p.x + nx * OUTLINE_WIDTH, y: p.y + ny * OUTLINE_WIDTH });
+  return [shift(a), shift(b)];
+}
+
+// Reduce a hull to the four corners of the card. Vertices are dropped while
+// they cut off the least area; each side is then taken from the longest hull
+// edge along it, so rounded corners end up where the straight sides meet, and
+// moved inwards by the width of the outline.
+function fitQuadrilateral(hull: Point[]): Point[] | null {
+  const indexes = hull.map((_, i) => i);
+  while (indexes.length > 4) {
+    let smallest = 0;
+    let smallestArea = Infinity;
+    for (let i = 0; i < indexes.length; i++) {
+      const previous = hull[indexes[(i + indexes.length - 1) % indexes.length]];
+      const next = hull[indexes[(i + 1) % indexes.length]];
+      const area = Math.abs(cross(previous, hull[indexes[i]], next));
+      if (area < smallestArea) {
+        smallestArea = area;
+        smallest = i;
+      }
+    }
+    indexes.splice(smallest, 1);
+  }
+  if (indexes.length < 4) return null;
+
+  const centre = {
+    x: indexes.reduce((sum, i) => sum + hull[i].x, 0) / 4,
+    y: indexes.reduce((sum, i) => sum + hull[i].y, 0) / 4,
+  };
+
+  const sides = indexes.map((start, i) => {
+    const end = indexes[(i + 1) % 4];
+    let best: [Point, Point] = [hull[start], hull[(start + 1) % hull.length]];
+    for (let j = start; j !== end; j = (j + 1) % hull.length) {
+      const edge: [Point, Point] = [hull[j], hull[(j + 1) % hull.length]];
+      if (distance(...edge) > distance(...best)) best = edge;
+    }
+    return inset(best, centre);
+  });
+  return sides.map((side, i) => intersect(...sides[(i + 3) % 4], ...side) ?? hull[indexes[i]]);
+}
+
+// Order corners clockwise from the top-left one, the corner nearest the
+// image's top-left
+function orderCorners(corners: Point[]): CardCorners {
+  const centre = {
+    x: corners.reduce((sum, { x }) => sum + x, 0) / corners.length,
+    y: corners.reduce((sum, { y }) => sum + y, 0) / corners.length,
+  };
+  const clockwise = [...corners].sort(
+    (a, b) => Math.atan2(a.y - centre.y, a.x - centre.x) - Math.atan2(b.y - centre.y, b.x - centre.x)
+  );
+  const first = clockwise.reduce(
+    (best, point, i) => (point.x + point.y < clockwise[best].x + clockwise[best].y ? i : best),
+    0
+  );
+  return [0, 1, 2, 3].map((i) => clockwise[(first + i) % 4]) as CardCorners;
+}
+
+// Decoded pixels, as sharp returns them with raw()
+export interface RawImage {
+  data: Buffer;
+  width: number;
+  height: number;
+  channels: 1 | 2 | 3 | 4;
+}
+
+// Find the corners of a card photographed against a background. Returns null
+// when no card-shaped region stands out, e.g. for a scan already cropped to
+// the card. Corners are in pixels of the given image. A smaller minimum area
+// finds cards far from the camera, for callers that handle cropped scans.
+export async function detectCard(
+  image: RawImage,
+  { minCardArea = MIN_CARD_AREA }: { minCardArea?: number } = {}
+): Promise<CardCorners | null> {
+  const { data, info } = await sharp(image.data, {
+    raw: { width: image.width, height: image.height, channels: image.channels },
+  })
+    .resize(DETECTION_DIMENSION, DETECTION_DIMENSION, { fit: "inside", withoutEnlargement: true })
+    .greyscale()
+    .blur(1)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+
+  const region = findCardRegion(edgeMap(data, width, height), width, height);
+  if (!region || region.length < width * height * minCardArea) return null;
+
+  // The outer corners of the outermost pixels of each row are enough for the hull
+  const extremes = new Map<number, [number, number]>();
+  for (const i of region) {
+    const x = i % width;
+    const y = Math.floor(i / width);
+    const [left, right] = extremes.get(y) ?? [x, x];
+    extremes.set(y, [Math.min(left, x), Math.max(right, x)]);
+  }
+  const points: Point[] = [];
+  extremes.forEach(([left, right], y) => {
+    points.push({ x: left, y }, { x: right + 1, y }, { x: left, y: y + 1 }, { x: right + 1, y: y + 1 });
+  });
+
+  const quad = fitQuadrilateral(convexHull(points));
+  if (!quad || region.length < polygonArea(quad) * MIN_FILL) return null;
+
+  const corners = orderCorners(quad);
+  const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+  const horizontal = (distance(topLeft, topRight) + distance(bottomLeft, bottomRight)) / 2;
+  const vertical = (distance(topLeft, bottomLeft) + distance(topRight, bottomRight)) / 2;
+  const aspect = Math.max(horizontal, vertical) / Math.min(horizontal, vertical);
+  if (aspect < MIN_ASPECT || aspect > MAX_ASPECT) return null;
+
+  const scale = image.width / width;
+  return corners.map(({ x, y }) => ({ x: x * scale, y: y * scale })) as CardCorners;
+}
+
+// Solve the 8 unknowns of the homography taking each point of "from" to the
+// same point of "to", by Gaussian elimination
+function homography(from: Point[], to: Point[]): number[] {
+  const rows = from.flatMap(({ x: u, y: v }, i) => {
+    const { x, y } = to[i];
+    return [
+      [u, v, 1, 0, 0, 0, -u * x, -v * x, x],
+      [0, 0, 0, u, v, 1, -u * y, -v * y, y],
+    ];
+  });
+  for (let column = 0; column < 8; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < 8; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+    }
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+    for (let row = 0; row < 8; row++) {
+      if (row === column) continue;
+      const factor = rows[row][column] / rows[column][column];
+      for (let k = column; k < 9; k++) rows[row][k] -= factor * rows[column][k];
+    }
+  }
+  return rows.map((row, i) => row[8] / row[i]);
+}
+
+// Map the card onto an upright rectangle with the ID-1 aspect ratio, as large
+// as the card appears in the image. Portrait cards stay portrait.
+export function warpToCard(image: RawImage, corners: CardCorners): RawImage {
+  const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+  const horizontal = Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight));
+  const vertical = Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight));
+  const width = Math.round(horizontal >= vertical ? horizontal : vertical / ID1_ASPECT_RATIO);
+  const height = Math.round(horizontal >= vertical ? horizontal / ID1_ASPECT_RATIO : vertical);
+
+  // From output pixels back to the source, so every output pixel is sampled
+  const [h0, h1, h2, h3, h4, h5, h6, h7] = homography(
+    [
+      { x: 0, y: 0 },
+      { x: width, y: 0 },
+      { x: width, y: height },
+      { x: 0, y: height },
+    ],
+    corners
+  );
+
+  const { data, channels } = image;
+  const stride = image.width * channels;
+  const output = Buffer.alloc(width * height * channels);
+  for (let v = 0; v < height; v++) {
+    for (let u = 0; u < width; u++) {
+      // Sample at pixel centres, bilinearly
+      const w = h6 * (u + 0.5) + h7 * (v + 0.5) + 1;
+      const x = Math.min(image.width - 1, Math.max(0, (h0 * (u + 0.5) + h1 * (v + 0.5) + h2) / w - 0.5));
+      const y = Math.min(image.height - 1, Math.max(0, (h3 * (u + 0.5) + h4 * (v + 0.5) + h5) / w - 0.5));
+      const x0 = Math.floor(x);
+      const y0 = Math.floor(y);
+      const fx = x - x0;
+      const fy = y - y0;
+      const topLeft = y0 * stride + x0 * channels;
+      const right = x0 < image.width - 1 ? channels : 0;
+      const below = y0 < image.height - 1 ? stride : 0;
+      const target = (v * width + u) * channels;
+      for (let c = 0; c < channels; c++) {
+        const i = topLeft + c;
+        const top = data[i] + (data[i + right] - data[i]) * fx;
+        const bottom = data[i + below] + (data[i + below + right] - data[i + below]) * fx;
+        output[target + c] = Math.round(top + (bottom - top) * fy);
+      }
+    }
+  }
+  return { data: output, width, height, channels };
+}
@@ -0,0 +1,136 @@
+import OpenAI from "openai";
+import { DocumentSide, DocumentType, OpenAIResponse, TokenUsage } from "@shared/schema";
+import {
+  ExtractionError,
+  describeSides,
+  toErrorResponse,
+  type ExtractionProvider,
+  type MulterFile,
+  type ProgressListener,
+} from "./extraction-provider";
+
+const DEFAULT_CHAT_MODEL = process.env.OPENAI_CHAT_MODEL || "gpt-4o";
+
+// Same deadline as the Assistants flow
+const CHAT_TIMEOUT_MS = Number(process.env.OPENAI_RUN_TIMEOUT_MS) || 120_000;
+
+// The Assistants flow keeps its instructions on the assistant itself; a plain
+// chat completion has no such context, so we send them with every request.
+const EXTRACTION_INSTRUCTIONS =
+  "You extract data from photos of identity documents such as driver's licenses. " +
+  "Read every field printed on the document and reply with a single JSON object. " +
+  "Use null for fields that are not present or cannot be read. " +
+  "If the document has a machine-readable zone, copy its lines verbatim into an \"mrz\" array.";
+
+const DOCUMENT_NAMES: Record<DocumentType, string | null> = {
+  driver_license: "a driver's license",
+  passport: "a passport",
+  id_card: "an identity card",
+  unknown: null,
+};
+
+// Tells the model which kind of document to expect, when the profile says
+function documentHint(documentType: DocumentType | undefined): string {
+  const name = documentType && DOCUMENT_NAMES[documentType];
+  return name ? ` The images show ${name}.` : "";
+}
+
+export async function processImagesWithChatCompletions(
+  apiKey: string,
+  model: string,
+  files: MulterFile[],
+  {
+    signal,
+    onProgress,
+    documentType,
+    sides,
+  }: {
+    signal?: AbortSignal;
+    onProgress?: ProgressListener;
+    documentType?: DocumentType;
+    sides?: DocumentSide[];
+  } = {}
+): Promise<OpenAIResponse> {
+  console.log(`[Chat Service] Starting image processing with ${files.length} files`);
+  console.log(`[Chat Service] Using model: ${model}`);
+
+  // Aborted by the caller's signal or by the deadline, whichever comes first
+  const requestController = new AbortController();
+  const requestSignal = requestController.signal;
+  const deadline = setTimeout(() => requestController.abort("timeout"), CHAT_TIMEOUT_MS);
+  const forwardAbort = () => requestController.abort(signal?.reason);
+  if (signal?.aborted) forwardAbort();
+  signal?.addEventListener("abort", forwardAbort, { once: true });
+
+  try {
+    const openai = new OpenAI({ apiKey });
+
+    // Vision input is passed inline as base64 data URLs, so no upload or cleanup is needed
+    const imageContents = files.map((file, index) => {
+      console.log(`[Chat Service] Encoding file ${index + 1}/${files.length}: ${file.originalname} (${file.size} bytes, ${file.mimetype})`);
+      return {
+        type: "image_url" as const,
+        image_url: {
+          url: `data:${file.mimetype};base64,${file.buffer.toString("base64")}`,
+        },
+      };
+    });
+
+    const sideLabel = describeSides(sides);
+
+    console.log("[Chat Service] Sending chat completion request");
+    onProgress?.({
+      phase: "uploading",
+      message: `Sending ${files.length} images to ${model}`,
+      fileCount: files.length,
+    });
+    const completion = await openai.chat.completions.create({
+      model,
+      response_format: { type: "json_object" },
+      messages: [
+        { role: "system", content: EXTRACTION_INSTRUCTIONS + documentHint(documentType) },
+        { role: "user", content: sideLabel ? [...imageContents, { type: "text", text: sideLabel }] : imageContents },
+      ],
+    }, { signal: requestSignal });
+    console.log(`[Chat Service] Completion received with ID: ${completion.id}`);
+    onProgress?.({ phase: "retrieving", message: "Response received from the model" });
+
+    const usage: TokenUsage | undefined = completion.usage && {
+      model: completion.model,
+      promptTokens: completion.usage.prompt_tokens,
+      completionTokens: completion.usage.completion_tokens,
+    };
+
+    const rawResponse = completion.choices[0]?.message?.content ?? null;
+    if (!rawResponse) {
+      console.error("[Chat Service] Completion contained no content");
+      throw new ExtractionError("No response received from the model", "no_response");
+    }
+
+    console.log(`[Chat Service] Got text content (${rawResponse.length} chars)`);
+    return {
+      raw: rawResponse,
+      usage,
+    };
+  } catch (error: any) {
+    console.error("[Chat Service] Processing error:", error);
+    return toErrorResponse(error, requestSignal);
+  } finally {
+    clearTimeout(deadline);
+    signal?.removeEventListener("abort", forwardAbort);
+  }
+}
+
+// Chat Completions vision flow exposed as an extraction provider
+export const chatCompletionsProvider: ExtractionProvider = {
+  name: "chat-completions",
+  requires: ["apiKey"],
+  preprocessImages: true,
+  extract: ({ apiKey, model, documentType, sides, files, signal, onProgress }) =>
+    processImagesWithChatCompletions(apiKey, model || DEFAULT_CHAT_MODEL, files, {
+      signal,
+      onProgress,
+      documentType,
+      sides,
+    }),
+};
@@ -0,0 +1,106 @@
+import type { CostReport, CostReportQuery, CostTotals, ModelPrice, TokenUsage } from "@shared/schema";
+import { storage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_REPORT_DAYS = 30;
+const MAX_REPORT_DAYS = 366;
+
+// The longest price name the model starts with, so gpt-4o-mini is not priced as gpt-4o
+function findPrice(prices: ModelPrice[], model: string): ModelPrice | undefined {
+  return prices
+    .filter((price) => model.startsWith(price.model))
+    .sort((a, b) => b.model.length - a.model.length)[0];
+}
+
+// Estimated cost in US dollars, or null when the model has no price
+export async function estimateCost(organizationId: number, usage: TokenUsage): Promise<number | null> {
+  const { modelPrices } = await storage.getSettings(organizationId);
+  const price = findPrice(modelPrices, usage.model);
+  if (!price) {
+    console.log(`[Costs] No price for model ${usage.model} in organization ${organizationId}`);
+    return null;
+  }
+  return (
+    (usage.promptTokens * price.promptPerMillion + usage.completionTokens * price.completionPerMillion) /
+    1_000_000
+  );
+}
+
+function emptyTotals(): CostTotals {
+  return { extractions: 0, promptTokens: 0, completionTokens: 0, estimatedCostUsd: 0, unpriced: 0 };
+}
+
+function addTotals(into: CostTotals, from: CostTotals) {
+  into.extractions += from.extractions;
+  into.promptTokens += from.promptTokens;
+  into.completionTokens += from.completionTokens;
+  into.estimatedCostUsd += from.estimatedCostUsd;
+  into.unpriced += from.unpriced;
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Token usage and estimated cost of an organization's extractions between
+// two inclusive UTC dates, rolled up per day, user and profile
+export async function getCostReport(
+  organizationId: number,
+  query: CostReportQuery
+): Promise<CostReport | { error: string }> {
+  const to = query.to ?? toDay(new Date());
+  const from = query.from ?? toDay(new Date(Date.parse(to) - (DEFAULT_REPORT_DAYS - 1) * DAY_MS));
+  const span = (Date.parse(to) - Date.parse(from)) / DAY_MS + 1;
+  if (span < 1) {
+    return { error: "The start date must not be after the end date" };
+  }
+  if (span > MAX_REPORT_DAYS) {
+    return { error: `A report covers at most ${MAX_REPORT_DAYS} days` };
+  }
+  const groups = await storage.summarizeExtractionUsage(organizationId, { from, to });
+
+  // Every day of the range is listed, so charts have no gaps
+  const days = new Map<string, CostTotals>();
+  for (let time = Date.parse(from); time <= Date.parse(to); time += DAY_MS) {
+    days.set(toDay(new Date(time)), emptyTotals());
+  }
+  const users = new Map<number | null, CostTotals>();
+  const profiles = new Map<number | null, CostTotals>();
+  const total = emptyTotals();
+
+  for (const group of groups) {
+    const day = days.get(group.day);
+    if (day) addTotals(day, group);
+    if (!users.has(group.userId)) users.set(group.userId, emptyTotals());
+    addTotals(users.get(group.userId)!, group);
+    if (!profiles.has(group.profileId)) profiles.set(group.profileId, emptyTotals());
+    addTotals(profiles.get(group.profileId)!, group);
+    addTotals(total, group);
+  }
+
+  // Deleted users and profiles are kept as a row without a name
+  const usernames = new Map(
+    (await storage.listUsers(organizationId)).map((user) => [user.id, user.username]),
+  );
+  const profileNames = new Map(
+    (await storage.listProfiles(organizationId)).map((profile) => [profile.id, profile.name]),
+  );
+  const byCost = (a: CostTotals, b: CostTotals) => b.estimatedCostUsd - a.estimatedCostUsd;
+
+  return {
+    from,
+    to,
+    total,
+    byDay: Array.from(days, ([day, totals]) => ({ day, ...totals })),
+    byUser: Array.from(users, ([userId, totals]) => ({
+      userId,
+      username: userId === null ? null : (usernames.get(userId) ?? null),
+      ...totals,
+    })).sort(byCost),
+    byProfile: Array.from(profiles, ([profileId, totals]) => ({
+      profileId,
+      profileName: profileId === null ? null : (profileNames.get(profileId) ?? null),
+      ...totals,
+    })).sort(byCost),
+  };
+}
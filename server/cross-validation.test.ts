@@ -0,0 +1,80 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { DriverLicenseExtraction } from "@shared/schema";
+import { crossValidate } from "./cross-validation";
+
+const barcode: DriverLicenseExtraction = {
+  firstName: "JOSE",
+  lastName: "GARCIA",
+  dateOfBirth: "1990-07-15",
+  licenseNumber: "D1234562",
+  expiryDate: "2028-07-15",
+  address: { street: "123 MAIN ST N", city: "SACRAMENTO", state: "CA", postalCode: "95814-1234" },
+};
+
+function statusOf(visual: DriverLicenseExtraction, field: string) {
+  return crossValidate(visual, barcode).comparisons.find((comparison) => comparison.field === field)?.status;
+}
+
+describe("crossValidate", () => {
+  test("matches values that differ only in case, accents and punctuation", () => {
+    const result = crossValidate(
+      {
+        firstName: "José",
+        lastName: "García",
+        dateOfBirth: "1990-07-15",
+        licenseNumber: "D123-4562",
+        expiryDate: "2028-07-15",
+        address: { street: "123 Main Street North", city: "Sacramento", state: "CA", postalCode: "95814" },
+      },
+      barcode,
+    );
+    assert.equal(result.mismatchCount, 0);
+    assert.deepEqual(
+      result.comparisons.map((comparison) => [comparison.field, comparison.status]),
+      [
+        ["firstName", "match"],
+        ["lastName", "match"],
+        ["dateOfBirth", "match"],
+        ["licenseNumber", "match"],
+        ["expiryDate", "match"],
+        ["address", "match"],
+      ],
+    );
+  });
+
+  test("counts fields that disagree", () => {
+    const result = crossValidate({ ...barcode, dateOfBirth: "1990-07-16", licenseNumber: "D1234563" }, barcode);
+    assert.equal(result.mismatchCount, 2);
+    const dateOfBirth = result.comparisons.find((comparison) => comparison.field === "dateOfBirth")!;
+    assert.deepEqual(dateOfBirth, {
+      field: "dateOfBirth",
+      status: "mismatch",
+      visual: "1990-07-16",
+      barcode: "1990-07-15",
+    });
+  });
+
+  test("tells apart fields read from only one source", () => {
+    assert.equal(statusOf({ ...barcode, firstName: null }, "firstName"), "barcode_only");
+    assert.equal(
+      crossValidate({ firstName: "JOSE" }, {}).comparisons.find((comparison) => comparison.field === "firstName")?.status,
+      "visual_only",
+    );
+  });
+
+  test("leaves out fields neither source has", () => {
+    const result = crossValidate({ lastName: "GARCIA" }, { lastName: "GARCIA" });
+    assert.deepEqual(
+      result.comparisons.map((comparison) => comparison.field),
+      ["lastName"],
+    );
+  });
+
+  test("compares addresses part by part", () => {
+    const moved = { ...barcode, address: { ...barcode.address, street: "125 MAIN ST N" } };
+    assert.equal(statusOf(moved, "address"), "mismatch");
+    const otherZip = { ...barcode, address: { ...barcode.address, postalCode: "95815" } };
+    assert.equal(statusOf(otherZip, "address"), "mismatch");
+  });
+});
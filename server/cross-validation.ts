@@ -0,0 +1,129 @@
+import {
+  CrossValidationResult,
+  DriverLicenseExtraction,
+  FieldComparison,
+  LicenseAddress,
+} from "@shared/schema";
+
+// USPS-style street suffix and direction abbreviations, so that
+// "123 Main Street North" on the card matches "123 MAIN ST N" in the barcode
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  STREET: "ST",
+  AVENUE: "AVE",
+  AV: "AVE",
+  ROAD: "RD",
+  DRIVE: "DR",
+  BOULEVARD: "BLVD",
+  LANE: "LN",
+  COURT: "CT",
+  PLACE: "PL",
+  TERRACE: "TER",
+  CIRCLE: "CIR",
+  HIGHWAY: "HWY",
+  PARKWAY: "PKWY",
+  APARTMENT: "APT",
+  SUITE: "STE",
+  NORTH: "N",
+  SOUTH: "S",
+  EAST: "E",
+  WEST: "W",
+};
+
+type Normalizer = (value: string) => string;
+
+// Uppercase, drop accents and collapse everything that is not a letter or digit
+const normalizeText: Normalizer = (value) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, " ")
+    .trim();
+
+const normalizeIdentifier: Normalizer = (value) => normalizeText(value).replace(/ /g, "");
+
+const normalizeAddressText: Normalizer = (value) =>
+  normalizeText(value)
+    .split(" ")
+    .map((word) => ADDRESS_ABBREVIATIONS[word] ?? word)
+    .join(" ");
+
+function formatAddress(address: LicenseAddress | null | undefined): string | null {
+  if (!address) return null;
+  const parts = [address.street, address.city, address.state, address.postalCode].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+function normalizeAddress(address: LicenseAddress): string {
+  return [
+    address.street ? normalizeAddressText(address.street) : "",
+    address.city ? normalizeText(address.city) : "",
+    address.state ? normalizeText(address.state) : "",
+    // ZIP+4 extensions are often missing from one of the two sources
+    address.postalCode ? normalizeIdentifier(address.postalCode).slice(0, 5) : "",
+  ].join("|");
+}
+
+interface ComparedField {
+  field: string;
+  read: (fields: DriverLicenseExtraction) => string | null | undefined;
+  normalize: Normalizer;
+}
+
+// Dates are already ISO formatted by the schema and the AAMVA parser
+const COMPARED_FIELDS: ComparedField[] = [
+  { field: "firstName", read: (f) => f.firstName, normalize: normalizeText },
+  { field: "lastName", read: (f) => f.lastName, normalize: normalizeText },
+  { field: "dateOfBirth", read: (f) => f.dateOfBirth, normalize: (v) => v },
+  { field: "licenseNumber", read: (f) => f.licenseNumber, normalize: normalizeIdentifier },
+  { field: "expiryDate", read: (f) => f.expiryDate, normalize: (v) => v },
+];
+
+function compare(
+  field: string,
+  visual: string | null | undefined,
+  barcode: string | null | undefined,
+  equal: () => boolean,
+): FieldComparison | null {
+  if (!visual && !barcode) return null;
+
+  let status: FieldComparison["status"];
+  if (!barcode) {
+    status = "visual_only";
+  } else if (!visual) {
+    status = "barcode_only";
+  } else {
+    status = equal() ? "match" : "mismatch";
+  }
+
+  return { field, status, visual: visual ?? null, barcode: barcode ?? null };
+}
+
+export function crossValidate(
+  visual: DriverLicenseExtraction,
+  barcode: DriverLicenseExtraction,
+): CrossValidationResult {
+  const comparisons: FieldComparison[] = [];
+
+  for (const { field, read, normalize } of COMPARED_FIELDS) {
+    const visualValue = read(visual);
+    const barcodeValue = read(barcode);
+    const comparison = compare(field, visualValue, barcodeValue, () =>
+      normalize(visualValue!) === normalize(barcodeValue!),
+    );
+    if (comparison) comparisons.push(comparison);
+  }
+
+  const addressComparison = compare(
+    "address",
+    formatAddress(visual.address),
+    formatAddress(barcode.address),
+    () => normalizeAddress(visual.address!) === normalizeAddress(barcode.address!),
+  );
+  if (addressComparison) comparisons.push(addressComparison);
+
+  const mismatchCount = comparisons.filter((c) => c.status === "mismatch").length;
+  console.log(`[Cross Validation] Compared ${comparisons.length} fields, ${mismatchCount} mismatches`);
+
+  return { comparisons, mismatchCount };
+}
@@ -0,0 +1,116 @@
+import sharp from "sharp";
+import type { AamvaBarcode, DocumentSide } from "@shared/schema";
+import { decodeLicenseBarcode } from "./barcode-service";
+import { detectCard, ID1_ASPECT_RATIO } from "./card-detection";
+import type { MulterFile, ProgressListener } from "./extraction-provider";
+
+// Cards are looked for at this size, as for the quality check
+const CLASSIFY_DIMENSION = 1024;
+
+// How far from the ID-1 ratio a whole image may be and still count as a scan
+// already cropped to the card
+const CARD_ASPECT_TOLERANCE = 0.15;
+
+export interface ClassifiedImage {
+  side: DocumentSide;
+  // Decoded while classifying, so the pipeline does not decode it again
+  barcode: AamvaBarcode | null;
+}
+
+// A document found among a submission's images, by position in upload order
+export interface DocumentGroup {
+  positions: number[];
+  sides: DocumentSide[];
+  barcode: AamvaBarcode | null;
+}
+
+// Tell the side of a document an image shows. An AAMVA barcode marks the
+// back; otherwise an image showing a card is a front.
+export async function classifyImage(file: MulterFile): Promise<ClassifiedImage> {
+  const barcode = await decodeLicenseBarcode(file);
+  if (barcode) return { side: "back", barcode };
+
+  try {
+    const { data, info } = await sharp(file.buffer)
+      .autoOrient()
+      .resize(CLASSIFY_DIMENSION, CLASSIFY_DIMENSION, { fit: "inside", withoutEnlargement: true })
+      .flatten({ background: "#ffffff" })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const aspect = Math.max(info.width, info.height) / Math.min(info.width, info.height);
+    if (Math.abs(aspect - ID1_ASPECT_RATIO) <= CARD_ASPECT_TOLERANCE) {
+      return { side: "front", barcode: null };
+    }
+    const corners = await detectCard({ data, width: info.width, height: info.height, channels: info.channels });
+    return { side: corners ? "front" : "other", barcode: null };
+  } catch (error: any) {
+    console.error(`[Document Pairing] Could not classify ${file.originalname}: ${error.message}`);
+    return { side: "other", barcode: null };
+  }
+}
+
+// Group images into documents of at most one front and one back, following
+// upload order. Images that are not backs pair like fronts, since a front on a
+// busy background may not be recognised as a card.
+export function pairDocuments(sides: DocumentSide[]): number[][] {
+  // Nothing to pair by, so the images stay together as one document
+  if (sides.every((side) => side === "other")) return [sides.map((_, position) => position)];
+
+  const backs = sides.flatMap((side, position) => (side === "back" ? [position] : []));
+  const fronts = sides.flatMap((side, position) => (side === "back" ? [] : [position]));
+
+  // Every front, then every back, e.g. from scanning one side of a stack and
+  // then the other
+  if (backs.length > 1 && fronts.length === backs.length && fronts[fronts.length - 1] < backs[0]) {
+    return fronts.map((front, index) => [front, backs[index]]);
+  }
+
+  // Otherwise each side joins the document before it when that one only has
+  // the other side, so both front-back and back-front order pair up
+  const documents: Array<{ front?: number; back?: number }> = [];
+  sides.forEach((side, position) => {
+    const last = documents[documents.length - 1];
+    if (side === "back") {
+      if (last && last.back === undefined && last.front !== undefined) last.back = position;
+      else documents.push({ back: position });
+    } else if (last && last.front === undefined && last.back !== undefined) {
+      last.front = position;
+    } else {
+      documents.push({ front: position });
+    }
+  });
+  return documents.map(({ front, back }) =>
+    [front, back].filter((position): position is number => position !== undefined).sort((a, b) => a - b)
+  );
+}
+
+// Classify every image of a submission, one at a time as each decode holds a
+// full photo, and pair them into documents
+export async function groupDocuments(
+  files: MulterFile[],
+  onProgress?: ProgressListener
+): Promise<DocumentGroup[]> {
+  onProgress?.({ phase: "classifying", message: `Sorting ${files.length} images into documents`, fileCount: files.length });
+
+  const classified: ClassifiedImage[] = [];
+  for (const file of files) {
+    classified.push(await classifyImage(file));
+  }
+  return toDocumentGroups(classified);
+}
+
+// Pair classified images into documents, each carrying the barcode read from
+// one of its images
+export function toDocumentGroups(classified: ClassifiedImage[]): DocumentGroup[] {
+  const groups = pairDocuments(classified.map((image) => image.side)).map((positions) => ({
+    positions,
+    sides: positions.map((position) => classified[position].side),
+    barcode: positions.map((position) => classified[position].barcode).find((barcode) => barcode) ?? null,
+  }));
+
+  console.log(
+    `[Document Pairing] ${classified.length} images make ${groups.length} documents: ` +
+      groups.map((group) => group.positions.map((position, i) => `${position + 1}:${group.sides[i]}`).join("+")).join(", ")
+  );
+  return groups;
+}
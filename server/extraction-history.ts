@@ -0,0 +1,267 @@
+import type {
+  DocumentType,
+  DriverLicenseExtraction,
+  ExtractionRecord,
+  ExtractionResultDownload,
+  ExtractionStatus,
+  OpenAIResponse,
+} from "@shared/schema";
+import { hasPermission } from "@shared/schema";
+import { storage } from "./storage";
+import { hasImage, saveImage, withImageLock } from "./image-store";
+import { hashImage } from "./fixture-service";
+import { crossValidate } from "./cross-validation";
+import { validateLicenseFields } from "./extraction-parser";
+import { emitWebhookEvent } from "./webhook-service";
+import { estimateCost } from "./cost-service";
+import type { ExtractionProvider, ExtractionRequest } from "./extraction-provider";
+
+type HistoryRequest = Pick<ExtractionRequest, "assistantId" | "model" | "files" | "quality" | "sides">;
+
+export interface ExtractionOwner {
+  organizationId: number;
+  userId: number;
+  jobId?: string;
+  profileId?: number;
+}
+
+// Record a submission before it is processed. History is best effort: a
+// storage failure is logged and never fails the extraction itself.
+export async function beginExtraction(
+  provider: ExtractionProvider,
+  request: HistoryRequest,
+  { organizationId, userId, jobId, profileId }: ExtractionOwner
+): Promise<number | undefined> {
+  try {
+    const extraction = await withImageLock(async () => {
+      const hashes = await Promise.all(request.files.map((file) => saveImage(file.buffer)));
+      return storage.createExtraction(
+        {
+          organizationId,
+          userId,
+          profileId: profileId ?? null,
+          jobId: jobId ?? null,
+          provider: provider.name,
+          assistantId: provider.requires.includes("assistantId") ? request.assistantId : null,
+          model: request.model || null,
+          status: "running",
+          quality: request.quality ?? null,
+        },
+        request.files.map((file, index) => ({
+          position: index,
+          fileName: file.originalname,
+          mimeType: file.mimetype,
+          size: file.size,
+          sha256: hashes[index],
+          side: request.sides?.[index] ?? null,
+        })),
+      );
+    });
+    console.log(`[History] Recorded extraction ${extraction.id}`);
+    return extraction.id;
+  } catch (error) {
+    console.error("[History] Failed to record extraction:", error);
+    return undefined;
+  }
+}
+
+function statusOf(result: OpenAIResponse): ExtractionStatus {
+  if (result.errorCode === "cancelled" || result.errorCode === "client_disconnected") {
+    return "cancelled";
+  }
+  return result.error ? "failed" : "completed";
+}
+
+// Passports carry a TD3 MRZ and ID cards a TD1 or TD2 one; a license is
+// recognised by its barcode or license number
+function detectDocumentType(result: OpenAIResponse): DocumentType {
+  if (result.mrz) {
+    return result.mrz.format === "TD3" || result.mrz.documentCode.startsWith("P")
+      ? "passport"
+      : "id_card";
+  }
+  if (result.barcode || result.fields?.licenseNumber) {
+    return "driver_license";
+  }
+  return "unknown";
+}
+
+function detectJurisdiction(result: Pick<OpenAIResponse, "fields" | "barcode" | "mrz">): string | null {
+  const jurisdiction =
+    result.fields?.issuingJurisdiction ??
+    result.barcode?.fields.issuingJurisdiction ??
+    result.mrz?.issuingState ??
+    result.fields?.address?.state;
+  return jurisdiction ? jurisdiction.toUpperCase() : null;
+}
+
+// The parsed result of an extraction as downloaded from /api/v1 and sent to webhooks
+export function toResultDownload(extraction: ExtractionRecord): ExtractionResultDownload {
+  const { result } = extraction;
+  return {
+    id: extraction.id,
+    status: extraction.status,
+    createdAt: extraction.createdAt,
+    completedAt: extraction.completedAt,
+    documentType: result?.documentType ?? null,
+    jurisdiction: result?.jurisdiction ?? null,
+    fields: result?.fields ?? null,
+    issues: result?.issues ?? [],
+    barcode: result?.barcode ?? null,
+    crossValidation: result?.crossValidation ?? null,
+    mrz: result?.mrz ?? null,
+    correctedAt: result?.correctedAt ?? null,
+  };
+}
+
+// The stored result of an extraction in the shape a fresh run returns it
+export function toExtractionResponse(extraction: ExtractionRecord): OpenAIResponse {
+  const { result } = extraction;
+  return {
+    raw: extraction.rawResponse,
+    fields: result?.fields,
+    issues: result?.issues ?? [],
+    barcode: result?.barcode ?? null,
+    crossValidation: result?.crossValidation ?? null,
+    mrz: result?.mrz ?? null,
+  };
+}
+
+// An earlier completed extraction of the same images, in the same order, with
+// the same profile and within the organization's duplicate window. A profile
+// changed since then could give a different result, so it is not reused. Only
+// extractions the submitter can read are reused: operators see just their own.
+export async function findDuplicateExtraction(
+  { organizationId, userId, profileId }: Omit<ExtractionOwner, "jobId">,
+  files: HistoryRequest["files"]
+): Promise<ExtractionRecord | undefined> {
+  if (profileId === undefined) return undefined;
+
+  try {
+    const { duplicateWindowMinutes } = await storage.getSettings(organizationId);
+    if (duplicateWindowMinutes === null) return undefined;
+
+    const submitter = await storage.getUser(userId);
+    if (submitter?.organizationId !== organizationId) return undefined;
+    const readAll = hasPermission(submitter.role, "extractions:read_all");
+
+    const since = new Date(Date.now() - duplicateWindowMinutes * 60 * 1000);
+    const hashes = files.map((file) => hashImage(file.buffer));
+    const duplicate = await storage.findExtractionByImages(organizationId, profileId, hashes, since, {
+      userId: readAll ? undefined : userId,
+    });
+    if (!duplicate?.result) return undefined;
+
+    const profile = await storage.getProfile(organizationId, profileId);
+    if (!profile || profile.updatedAt > duplicate.createdAt) return undefined;
+
+    console.log(`[History] Submission duplicates extraction ${duplicate.id}`);
+    return duplicate;
+  } catch (error) {
+    console.error("[History] Failed to look for a duplicate extraction:", error);
+    return undefined;
+  }
+}
+
+// Store the outcome of a recorded submission
+export async function finishExtraction(
+  organizationId: number,
+  id: number | undefined,
+  result: OpenAIResponse
+): Promise<void> {
+  if (id === undefined) return;
+
+  try {
+    const status = statusOf(result);
+    const { usage } = result;
+    const extraction = await storage.updateExtraction(organizationId, id, {
+      status,
+      completedAt: new Date(),
+      rawResponse: result.raw ?? null,
+      error: result.error ?? null,
+      errorCode: result.errorCode ?? null,
+      preprocessing: result.preprocessing ?? null,
+      // The model that actually ran, which for an assistant is not known up front
+      ...(usage && {
+        model: usage.model,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+      }),
+    });
+    // Deleted in the meantime, or not in this organization
+    if (!extraction) return;
+
+    const preprocessing = result.preprocessing;
+    if (preprocessing?.some((report) => report.correctedSha256)) {
+      // The cropped cards were stored while the provider ran, so one a purge
+      // removed meanwhile is left out rather than referred to
+      await withImageLock(async () => {
+        const kept = await Promise.all(
+          preprocessing.map(async ({ correctedSha256 }) =>
+            correctedSha256 && (await hasImage(correctedSha256)) ? correctedSha256 : null
+          )
+        );
+        await storage.setCorrectedImages(organizationId, id, kept);
+      });
+    }
+    // Priced now, so later price changes do not rewrite past costs
+    if (usage) {
+      const estimatedCostUsd = await estimateCost(organizationId, usage);
+      await storage.updateExtraction(organizationId, id, { estimatedCostUsd });
+    }
+
+    if (result.fields) {
+      await storage.saveExtractionResult({
+        extractionId: id,
+        documentType: detectDocumentType(result),
+        jurisdiction: detectJurisdiction(result),
+        fields: result.fields,
+        issues: result.issues ?? [],
+        barcode: result.barcode ?? null,
+        crossValidation: result.crossValidation ?? null,
+        mrz: result.mrz ?? null,
+      });
+    }
+    console.log(`[History] Extraction ${id} ${status}`);
+
+    const record = await storage.getExtraction(organizationId, id);
+    if (record && status !== "cancelled") {
+      const event = status === "completed" ? "extraction.completed" : "extraction.failed";
+      await emitWebhookEvent(organizationId, event, toResultDownload(record));
+    }
+  } catch (error) {
+    console.error(`[History] Failed to store the outcome of extraction ${id}:`, error);
+  }
+}
+
+// Replace the fields of a stored result with a reviewer's corrections. The
+// barcode comparison is redone so it reflects the corrected values.
+export async function correctExtraction(
+  organizationId: number,
+  id: number,
+  fields: DriverLicenseExtraction,
+  reviewerId: number
+): Promise<ExtractionRecord | undefined> {
+  const extraction = await storage.getExtraction(organizationId, id);
+  if (!extraction?.result) return undefined;
+
+  // Checked as extracted fields are, so problems the correction did not fix,
+  // such as a disagreement with the barcode, stay visible
+  const { fields: validated, issues } = validateLicenseFields(fields);
+  const { barcode, mrz } = extraction.result;
+  await storage.updateExtractionResult(organizationId, id, {
+    fields: validated,
+    issues,
+    jurisdiction: detectJurisdiction({ fields: validated, barcode, mrz }),
+    crossValidation: barcode ? crossValidate(validated, barcode.fields) : null,
+    correctedBy: reviewerId,
+    correctedAt: new Date(),
+  });
+  console.log(`[History] Extraction ${id} corrected by user ${reviewerId}`);
+
+  const corrected = await storage.getExtraction(organizationId, id);
+  if (corrected) {
+    await emitWebhookEvent(organizationId, "review.completed", toResultDownload(corrected));
+  }
+  return corrected;
+}
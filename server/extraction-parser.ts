@@ -0,0 +1,185 @@
+import {
+  DriverLicenseExtraction,
+  ExtractionIssue,
+  driverLicenseExtractionSchema,
+  requiredLicenseFields,
+} from "@shared/schema";
+
+// Key spellings assistants commonly use, keyed by their lowercase
+// alphanumeric form, mapped onto DriverLicenseExtraction field names
+const FIELD_ALIASES: Record<string, string> = {
+  firstname: "firstName",
+  givenname: "firstName",
+  givennames: "firstName",
+  middlename: "middleName",
+  lastname: "lastName",
+  surname: "lastName",
+  familyname: "lastName",
+  dateofbirth: "dateOfBirth",
+  dob: "dateOfBirth",
+  birthdate: "dateOfBirth",
+  licensenumber: "licenseNumber",
+  licenseno: "licenseNumber",
+  dlnumber: "licenseNumber",
+  customerid: "licenseNumber",
+  licenseclass: "licenseClass",
+  class: "licenseClass",
+  vehicleclass: "licenseClass",
+  issuedate: "issueDate",
+  dateofissue: "issueDate",
+  issued: "issueDate",
+  expirydate: "expiryDate",
+  expirationdate: "expiryDate",
+  dateofexpiry: "expiryDate",
+  expires: "expiryDate",
+  address: "address",
+  street: "street",
+  streetaddress: "street",
+  city: "city",
+  state: "state",
+  province: "state",
+  postalcode: "postalCode",
+  zip: "postalCode",
+  zipcode: "postalCode",
+  country: "country",
+  sex: "sex",
+  gender: "sex",
+  height: "height",
+  eyecolor: "eyeColor",
+  eyes: "eyeColor",
+  restrictions: "restrictions",
+  endorsements: "endorsements",
+  issuingjurisdiction: "issuingJurisdiction",
+  jurisdiction: "issuingJurisdiction",
+  issuingstate: "issuingJurisdiction",
+};
+
+const ADDRESS_FIELDS = ["street", "city", "state", "postalCode", "country"];
+
+export interface ParsedExtraction {
+  fields: DriverLicenseExtraction;
+  issues: ExtractionIssue[];
+}
+
+// Pull the JSON object out of the assistant text, which may be wrapped in a
+// markdown code block or surrounded by prose
+export function extractJsonObject(raw: string): Record<string, unknown> | null {
+  const candidates: string[] = [];
+
+  const codeBlock = raw.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (codeBlock && codeBlock[1]) {
+    candidates.push(codeBlock[1].trim());
+  }
+
+  const braces = raw.match(/\{[\s\S]*\}/);
+  if (braces) {
+    candidates.push(braces[0]);
+  }
+
+  for (const candidate of candidates) {
+    try {
+      const parsed = JSON.parse(candidate);
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return null;
+}
+
+function aliasFor(key: string): string | undefined {
+  return FIELD_ALIASES[key.toLowerCase().replace(/[^a-z0-9]/g, "")];
+}
+
+function normalizeKeys(source: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  const address: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(source)) {
+    const field = aliasFor(key);
+    if (!field || value === "" || value === undefined) continue;
+
+    if (field === "address" && value && typeof value === "object") {
+      for (const [part, partValue] of Object.entries(value)) {
+        const addressField = aliasFor(part);
+        if (addressField && ADDRESS_FIELDS.includes(addressField) && partValue !== "") {
+          address[addressField] = partValue;
+        }
+      }
+    } else if (field === "address" && typeof value === "string") {
+      address.street = value;
+    } else if (ADDRESS_FIELDS.includes(field)) {
+      // Flat address parts at the top level
+      address[field] = value;
+    } else {
+      result[field] = value;
+    }
+  }
+
+  if (Object.keys(address).length > 0) {
+    result.address = address;
+  }
+  return result;
+}
+
+// Remove the value an issue points at, so the rest of the object can be kept
+function dropPath(target: Record<string, unknown>, path: (string | number)[]) {
+  if (path.length === 0) return;
+  if (path.length === 1 || typeof target[path[0]] !== "object" || target[path[0]] === null) {
+    delete target[path[0]];
+    return;
+  }
+  dropPath(target[path[0]] as Record<string, unknown>, path.slice(1));
+}
+
+export function parseExtraction(raw: string | null | undefined): ParsedExtraction {
+  if (!raw) {
+    return { fields: {}, issues: [{ path: "", message: "The provider returned no content" }] };
+  }
+
+  const json = extractJsonObject(raw);
+  if (!json) {
+    console.log("[Extraction Parser] No JSON object found in provider output");
+    return { fields: {}, issues: [{ path: "", message: "The response did not contain a JSON object" }] };
+  }
+
+  // Documents wrapped as { "driver_license": { ... } } are unwrapped first
+  const values = Object.values(json);
+  const source =
+    values.length === 1 && values[0] && typeof values[0] === "object" && !Array.isArray(values[0])
+      ? (values[0] as Record<string, unknown>)
+      : json;
+
+  const parsed = validateLicenseFields(normalizeKeys(source));
+  console.log(`[Extraction Parser] Parsed ${Object.keys(parsed.fields).length} fields with ${parsed.issues.length} issues`);
+  return parsed;
+}
+
+// Check fields against the license schema, dropping values that fail, and
+// report every problem found, including required fields that are missing.
+// Reviewer corrections go through the same checks.
+export function validateLicenseFields(values: Record<string, unknown>): ParsedExtraction {
+  const candidate = structuredClone(values);
+  const issues: ExtractionIssue[] = [];
+
+  let result = driverLicenseExtractionSchema.safeParse(candidate);
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      issues.push({ path: issue.path.join("."), message: issue.message });
+      dropPath(candidate, issue.path);
+    }
+    result = driverLicenseExtractionSchema.safeParse(candidate);
+  }
+
+  const fields: DriverLicenseExtraction = result.success ? result.data : {};
+
+  for (const field of requiredLicenseFields) {
+    if (!fields[field] && !issues.some((issue) => issue.path === field)) {
+      issues.push({ path: field, message: "Required field is missing" });
+    }
+  }
+  return { fields, issues };
+}
@@ -0,0 +1,69 @@
+import { OpenAIResponse } from "@shared/schema";
+import type { ExtractionProvider, ExtractionRequest } from "./extraction-provider";
+import { parseExtraction } from "./extraction-parser";
+import { findLicenseBarcode } from "./barcode-service";
+import { crossValidate } from "./cross-validation";
+import { parseMrzFromResponse } from "./mrz-parser";
+import { preprocessImages } from "./image-preprocessing";
+import { saveImage } from "./image-store";
+
+// Run the provider and every local post-processing step over its output
+export async function runExtraction(
+  provider: ExtractionProvider,
+  request: ExtractionRequest
+): Promise<OpenAIResponse> {
+  console.log(`[Pipeline] Processing ${request.files.length} images with ${provider.name} provider`);
+
+  // The barcode is decoded locally, from the original images, while the
+  // provider runs on the preprocessed ones
+  const [{ result, preprocessing }, barcode] = await Promise.all([
+    (async () => {
+      if (!provider.preprocessImages) {
+        return { result: await provider.extract(request), preprocessing: undefined };
+      }
+      const { files, reports } = await preprocessImages(request.files, request.onProgress);
+      // Cropped cards are kept so reviewers can compare them with the originals
+      await Promise.all(
+        reports.map(async (report, index) => {
+          if (!report.cardCorners) return;
+          try {
+            report.correctedSha256 = await saveImage(files[index].buffer);
+          } catch (error) {
+            console.error(`[Pipeline] Could not keep the cropped ${report.fileName}:`, error);
+          }
+        })
+      );
+      return { result: await provider.extract({ ...request, files }), preprocessing: reports };
+    })(),
+    request.barcode !== undefined ? request.barcode : findLicenseBarcode(request.files),
+  ]);
+
+  console.log(`[Pipeline] Provider finished with ${result.error ? 'error' : 'success'}`);
+  if (result.error) {
+    console.log(`[Pipeline] Error from extraction provider: ${result.error}`);
+    return { ...result, barcode, preprocessing, quality: request.quality };
+  }
+
+  request.onProgress?.({ phase: "parsing", message: "Validating the extracted fields" });
+  const { fields, issues } = parseExtraction(result.raw);
+  const crossValidation = barcode ? crossValidate(fields, barcode.fields) : null;
+  if (crossValidation?.mismatchCount) {
+    console.log(`[Pipeline] Barcode and visual fields disagree on ${crossValidation.mismatchCount} fields`);
+  }
+
+  const mrz = parseMrzFromResponse(result.raw);
+  if (mrz && !mrz.valid) {
+    console.log(`[Pipeline] MRZ check digit verification failed`);
+  }
+
+  return {
+    ...result,
+    fields,
+    issues,
+    barcode,
+    crossValidation,
+    mrz,
+    preprocessing,
+    quality: request.quality,
+  };
+}
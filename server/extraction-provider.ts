@@ -0,0 +1,167 @@
+import {
+  AamvaBarcode,
+  DocumentSide,
+  DocumentType,
+  OpenAIResponse,
+  ExtractionErrorCode,
+  ExtractionProviderName,
+  ImageQuality,
+  ProgressEvent,
+  extractionProviderNames,
+} from "@shared/schema";
+import { assistantsProvider } from "./openai-service";
+import { chatCompletionsProvider } from "./chat-completions-service";
+import { fixtureProvider } from "./fixture-service";
+
+// Define the Multer File interface if Express.Multer is not available
+export interface MulterFile {
+  fieldname: string;
+  originalname: string;
+  encoding: string;
+  mimetype: string;
+  size: number;
+  destination?: string;
+  filename?: string;
+  path?: string;
+  buffer: Buffer;
+}
+
+// Everything a provider may need to run a single extraction
+export interface ExtractionRequest {
+  apiKey: string;
+  assistantId: string;
+  model?: string;
+  // The kind of document expected, from the extraction profile
+  documentType?: DocumentType;
+  files: MulterFile[];
+  // Outcome of the quality check of each image, when the check ran
+  quality?: ImageQuality[];
+  // Side of the document each image shows, when the images were classified
+  sides?: DocumentSide[];
+  // Decoded while classifying the images; undefined when not looked for yet
+  barcode?: AamvaBarcode | null;
+  // Aborted when the caller no longer wants the result
+  signal?: AbortSignal;
+  // Called as the provider moves through its phases
+  onProgress?: ProgressListener;
+}
+
+export type ProgressListener = (event: Omit<ProgressEvent, "timestamp">) => void;
+
+// Text telling the model which side of the document each image shows, or
+// null when that is not known
+export function describeSides(sides: DocumentSide[] | undefined): string | null {
+  if (!sides?.some((side) => side !== "other")) return null;
+  const names: Record<DocumentSide, string> = {
+    front: "the front",
+    back: "the back",
+    other: "not a document side",
+  };
+  return `All images show the same document. ${sides
+    .map((side, index) => `Image ${index + 1} is ${names[side]}.`)
+    .join(" ")}`;
+}
+
+// Thrown by providers for failures that have a specific error code
+export class ExtractionError extends Error {
+  constructor(message: string, public code: ExtractionErrorCode) {
+    super(message);
+    this.name = "ExtractionError";
+  }
+}
+
+// Error raised once a request's signal is aborted. The abort reason is the
+// error code: "cancelled", "client_disconnected" or "timeout".
+export function abortError(signal: AbortSignal): ExtractionError {
+  const code: ExtractionErrorCode =
+    signal.reason === "client_disconnected" || signal.reason === "timeout"
+      ? signal.reason
+      : "cancelled";
+  const messages: Record<string, string> = {
+    cancelled: "The extraction was cancelled",
+    client_disconnected: "The client disconnected before the extraction finished",
+    timeout: "The extraction did not finish before the deadline",
+  };
+  return new ExtractionError(messages[code], code);
+}
+
+// Convert anything a provider threw into an error response
+export function toErrorResponse(error: any, signal?: AbortSignal): OpenAIResponse {
+  if (error instanceof ExtractionError) {
+    return { error: error.message, errorCode: error.code };
+  }
+  if (signal?.aborted) {
+    const aborted = abortError(signal);
+    return { error: aborted.message, errorCode: aborted.code };
+  }
+  // OpenAI answers 429 both for rate limits and for a used up quota; only
+  // the first goes away by waiting
+  if (error?.status === 429 && error?.code !== "insufficient_quota") {
+    return {
+      error: error.message || "The provider's rate limit was reached",
+      errorCode: "rate_limited",
+    };
+  }
+  return {
+    error: error?.message || "An error occurred while processing with OpenAI",
+    errorCode: "provider_error",
+  };
+}
+
+export interface ExtractionProvider {
+  name: ExtractionProviderName;
+  // Request fields that must be present for this provider to run
+  requires: Array<"apiKey" | "assistantId">;
+  // Whether images are oriented, converted and downscaled before extract()
+  preprocessImages: boolean;
+  extract(request: ExtractionRequest): Promise<OpenAIResponse>;
+}
+
+const providers: Record<ExtractionProviderName, ExtractionProvider> = {
+  assistants: assistantsProvider,
+  "chat-completions": chatCompletionsProvider,
+  fixture: fixtureProvider,
+};
+
+// The fixture provider returns canned output, which would otherwise be
+// recorded, counted and sent to webhooks like a real extraction. Production
+// only offers it when ALLOW_FIXTURE_PROVIDER is set.
+const FIXTURE_PROVIDER_ALLOWED =
+  process.env.NODE_ENV !== "production" || process.env.ALLOW_FIXTURE_PROVIDER === "true";
+
+export function isExtractionProviderName(
+  name: string,
+): name is ExtractionProviderName {
+  return (extractionProviderNames as readonly string[]).includes(name);
+}
+
+function isProviderAllowed(name: ExtractionProviderName): boolean {
+  return name !== "fixture" || FIXTURE_PROVIDER_ALLOWED;
+}
+
+// Read once at startup, so a misspelt EXTRACTION_PROVIDER stops the server
+// instead of failing every request
+function readDefaultProvider(): ExtractionProviderName {
+  const name = process.env.EXTRACTION_PROVIDER || "assistants";
+  if (!isExtractionProviderName(name)) {
+    throw new Error(
+      `EXTRACTION_PROVIDER must be one of ${extractionProviderNames.join(", ")}, not "${name}"`,
+    );
+  }
+  if (!isProviderAllowed(name)) {
+    throw new Error("EXTRACTION_PROVIDER=fixture needs ALLOW_FIXTURE_PROVIDER=true in production");
+  }
+  return name;
+}
+
+export const DEFAULT_EXTRACTION_PROVIDER: ExtractionProviderName = readDefaultProvider();
+
+// Look up a provider by name, falling back to the configured default.
+// Providers that are not allowed here are reported as unknown.
+export function getExtractionProvider(name?: string): ExtractionProvider | undefined {
+  const providerName = name || DEFAULT_EXTRACTION_PROVIDER;
+  if (!isExtractionProviderName(providerName) || !isProviderAllowed(providerName)) {
+    return undefined;
+  }
+  return providers[providerName];
+}
@@ -0,0 +1,50 @@
+import { OpenAIResponse } from "@shared/schema";
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { ExtractionProvider, MulterFile, ProgressListener } from "./extraction-provider";
+
+// Canned responses live in <FIXTURE_DIR>/<sha256 of image>.json, with
+// default.json used for any image that has no fixture of its own.
+const FIXTURE_DIR =
+  process.env.FIXTURE_DIR || path.resolve(import.meta.dirname, "fixtures");
+
+export function hashImage(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+export async function processImagesWithFixtures(
+  files: MulterFile[],
+  onProgress?: ProgressListener
+): Promise<OpenAIResponse> {
+  console.log(`[Fixture Service] Looking up fixtures for ${files.length} files in ${FIXTURE_DIR}`);
+
+  const hashes = files.map((file) => hashImage(file.buffer));
+  const candidates = [...hashes, "default"];
+
+  for (const name of candidates) {
+    const fixturePath = path.join(FIXTURE_DIR, `${name}.json`);
+    if (fs.existsSync(fixturePath)) {
+      console.log(`[Fixture Service] Using fixture ${name}.json`);
+      onProgress?.({ phase: "retrieving", message: `Loaded fixture ${name}.json` });
+      // Return the file contents verbatim, just like the raw assistant text
+      return {
+        raw: await fs.promises.readFile(fixturePath, "utf-8"),
+      };
+    }
+  }
+
+  console.log(`[Fixture Service] No fixture found for hashes: ${hashes.join(", ")}`);
+  return {
+    error: `No fixture found for image hash ${hashes[0]}`,
+  };
+}
+
+// Offline provider that never talks to OpenAI
+export const fixtureProvider: ExtractionProvider = {
+  name: "fixture",
+  requires: [],
+  // Fixtures are looked up by the hash of the uploaded bytes
+  preprocessImages: false,
+  extract: ({ files, onProgress }) => processImagesWithFixtures(files, onProgress),
+};
@@ -0,0 +1,13 @@
+// heic-decode ships without type declarations
+declare module "heic-decode" {
+  interface DecodedImage {
+    width: number;
+    height: number;
+    // RGBA, four bytes per pixel
+    data: Uint8ClampedArray;
+  }
+
+  function decode(options: { buffer: Buffer | ArrayBuffer | Uint8Array }): Promise<DecodedImage>;
+
+  export default decode;
+}
@@ -0,0 +1,70 @@
+import * as path from "path";
+import sharp from "sharp";
+import decodeHeic from "heic-decode";
+import type { MulterFile } from "./extraction-provider";
+
+// Quality of the JPEG a HEIC photo is converted to. Preprocessing re-encodes
+// it at its own quality later, so little is lost here.
+const JPEG_QUALITY = 92;
+
+export interface UnreadableImage {
+  fileName: string;
+  reason: string;
+}
+
+// The libvips bundled with sharp reads HEIF files coded with AV1 (AVIF) but
+// not with HEVC, which is what phones save as HEIC. Only the header is read.
+async function isHevcImage(buffer: Buffer): Promise<boolean> {
+  try {
+    const { format, compression } = await sharp(buffer).metadata();
+    return format === "heif" && compression === "hevc";
+  } catch {
+    return false;
+  }
+}
+
+// Decode a HEIC photo with libheif compiled to WebAssembly and re-encode it as
+// a JPEG, applying the rotation stored in the file
+async function convertHeic(file: MulterFile): Promise<MulterFile> {
+  const { width, height, data } = await decodeHeic({ buffer: file.buffer });
+  const buffer = await sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), {
+    raw: { width, height, channels: 4 },
+  })
+    .flatten({ background: "#ffffff" })
+    .jpeg({ quality: JPEG_QUALITY })
+    .toBuffer();
+  return {
+    ...file,
+    originalname: `${path.parse(file.originalname).name || "image"}.jpg`,
+    mimetype: "image/jpeg",
+    buffer,
+    size: buffer.length,
+  };
+}
+
+// Replace HEIC photos with JPEG copies so every later step, from the quality
+// check to the provider, reads them like any other image. Other files are
+// returned as they are; one at a time to bound memory use.
+export async function convertHeicImages(
+  files: MulterFile[]
+): Promise<{ files: MulterFile[]; unreadable: UnreadableImage[] }> {
+  const converted: MulterFile[] = [];
+  const unreadable: UnreadableImage[] = [];
+  for (const file of files) {
+    if (!(await isHevcImage(file.buffer))) {
+      converted.push(file);
+      continue;
+    }
+    try {
+      converted.push(await convertHeic(file));
+      console.log(`[HEIC] Converted ${file.originalname} to JPEG`);
+    } catch (error: any) {
+      console.error(`[HEIC] Could not decode ${file.originalname}:`, error);
+      unreadable.push({
+        fileName: file.originalname,
+        reason: `the HEIC photo could not be decoded (${error.message || error})`,
+      });
+    }
+  }
+  return { files: converted, unreadable };
+}
@@ -0,0 +1,130 @@
+import * as path from "path";
+import sharp from "sharp";
+import type { CardCorners, ImagePreprocessing, PreprocessingChange } from "@shared/schema";
+import type { MulterFile, ProgressListener } from "./extraction-provider";
+import { detectCard, warpToCard, type RawImage } from "./card-detection";
+
+// Longest side of an image sent to a provider. Document text stays legible
+// well below the size of a phone photo, and smaller images upload faster and
+// cost fewer tokens.
+const MAX_DIMENSION = Number(process.env.IMAGE_MAX_DIMENSION) || 2048;
+const JPEG_QUALITY = Number(process.env.IMAGE_JPEG_QUALITY) || 85;
+
+// Formats the providers accept as they are; anything else is converted
+const SUPPORTED_FORMATS = ["jpeg", "png", "webp", "gif"];
+
+// Orient, convert, downscale, crop to the card and re-encode one image as a
+// JPEG. Metadata such as EXIF location is dropped, since sharp only keeps it
+// when asked to.
+export async function preprocessImage(
+  file: MulterFile
+): Promise<{ file: MulterFile; report: ImagePreprocessing }> {
+  const report: ImagePreprocessing = {
+    fileName: file.originalname,
+    originalFormat: null,
+    originalWidth: null,
+    originalHeight: null,
+    originalSize: file.size,
+    format: null,
+    width: null,
+    height: null,
+    size: file.size,
+    changes: [],
+    cardCorners: null,
+    correctedSha256: null,
+    error: null,
+  };
+
+  try {
+    const metadata = await sharp(file.buffer).metadata();
+    report.originalFormat = metadata.format ?? null;
+    // Width and height as displayed, i.e. after the EXIF orientation
+    report.originalWidth = metadata.autoOrient?.width ?? metadata.width ?? null;
+    report.originalHeight = metadata.autoOrient?.height ?? metadata.height ?? null;
+
+    const decoded = await sharp(file.buffer)
+      .autoOrient()
+      .resize(MAX_DIMENSION, MAX_DIMENSION, { fit: "inside", withoutEnlargement: true })
+      .flatten({ background: "#ffffff" }) // JPEG has no transparency
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    let image: RawImage = {
+      data: decoded.data,
+      width: decoded.info.width,
+      height: decoded.info.height,
+      channels: decoded.info.channels,
+    };
+
+    // A card photographed on a desk is straightened and the desk cropped away
+    const corners = await detectCard(image);
+    if (corners) {
+      const scale = (report.originalWidth ?? image.width) / image.width;
+      report.cardCorners = corners.map(({ x, y }) => ({ x: x * scale, y: y * scale })) as CardCorners;
+      image = warpToCard(image, corners);
+    }
+
+    const { data, info } = await sharp(image.data, {
+      raw: { width: image.width, height: image.height, channels: image.channels },
+    })
+      // A tilted card can appear longer than the image is wide
+      .resize(MAX_DIMENSION, MAX_DIMENSION, { fit: "inside", withoutEnlargement: true })
+      .jpeg({ quality: JPEG_QUALITY, mozjpeg: true })
+      .toBuffer({ resolveWithObject: true });
+
+    const changes: PreprocessingChange[] = [];
+    if (metadata.orientation && metadata.orientation > 1) changes.push("oriented");
+    if (!metadata.format || !SUPPORTED_FORMATS.includes(metadata.format)) changes.push("converted");
+    if (
+      (report.originalWidth !== null && decoded.info.width < report.originalWidth) ||
+      (report.originalHeight !== null && decoded.info.height < report.originalHeight)
+    ) {
+      changes.push("resized");
+    }
+    if (metadata.exif || metadata.icc || metadata.iptc || metadata.xmp) changes.push("metadata_stripped");
+    if (corners) changes.push("cropped_to_card");
+
+    // An image that needs none of the above is only re-encoded when that makes it smaller
+    if (changes.length === 0 && data.length >= file.size) {
+      Object.assign(report, { format: metadata.format, width: info.width, height: info.height });
+      return { file, report };
+    }
+    changes.push("recompressed");
+
+    const name = `${path.parse(file.originalname).name || "image"}.jpg`;
+    Object.assign(report, { format: "jpeg", width: info.width, height: info.height, size: data.length, changes });
+    return {
+      file: { ...file, originalname: name, mimetype: "image/jpeg", buffer: data, size: data.length },
+      report,
+    };
+  } catch (error: any) {
+    // HEIC photos arrive here already converted to JPEG by heic-decoder
+    console.error(`[Preprocessing] Could not read ${file.originalname}:`, error);
+    report.error = `Could not read the image: ${error.message || error}`;
+    return { file, report };
+  }
+}
+
+// Prepare every image of a submission, one at a time to bound memory use
+export async function preprocessImages(
+  files: MulterFile[],
+  onProgress?: ProgressListener
+): Promise<{ files: MulterFile[]; reports: ImagePreprocessing[] }> {
+  onProgress?.({ phase: "preprocessing", message: `Preparing ${files.length} images`, fileCount: files.length });
+
+  const processed: MulterFile[] = [];
+  const reports: ImagePreprocessing[] = [];
+  for (const file of files) {
+    const { file: prepared, report } = await preprocessImage(file);
+    processed.push(prepared);
+    reports.push(report);
+    if (!report.error && report.changes.length === 0) {
+      console.log(`[Preprocessing] ${file.originalname}: sent unchanged`);
+    } else if (!report.error) {
+      console.log(
+        `[Preprocessing] ${file.originalname}: ${report.originalFormat} ${report.originalWidth}x${report.originalHeight} ` +
+          `${report.originalSize} bytes -> ${report.width}x${report.height} ${report.size} bytes (${report.changes.join(", ")})`
+      );
+    }
+  }
+  return { files: processed, reports };
+}
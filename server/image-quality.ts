@@ -0,0 +1,240 @@
+import sharp from "sharp";
+import type { CardCorners, ImageQuality, ImageQualityIssue, ImageQualityIssueCode } from "@shared/schema";
+import { storage } from "./storage";
+import type { MulterFile } from "./extraction-provider";
+import { detectCard, ID1_ASPECT_RATIO } from "./card-detection";
+
+// Images are analysed at this size so scores compare across camera resolutions
+const ANALYSIS_DIMENSION = 1024;
+
+// Variance of the Laplacian below which text edges are too soft to read
+const MIN_SHARPNESS = 50;
+// Mean brightness (0-255) above which the photo is washed out
+const MAX_BRIGHTNESS = 230;
+// Share of clipped white pixels on the card that points to a reflection
+const CLIPPED_LEVEL = 250;
+const MAX_GLARE = 0.05;
+// The card's shorter side needs roughly this many pixels for small print
+const MIN_SHORT_SIDE = 600;
+// Every corner of the card must keep this share of the frame clear
+const MIN_MARGIN = 0.01;
+// How far from the ID-1 ratio a whole image may be and still count as a scan
+// already cropped to the card, as when sorting images into documents
+const CARD_ASPECT_TOLERANCE = 0.15;
+// Smallest share of the frame a card is looked for at, so a card held too far
+// away is found and reported as too small
+const MIN_CARD_AREA = 0.005;
+
+const issueDetails: Record<ImageQualityIssueCode, Omit<ImageQualityIssue, "code">> = {
+  blurry: {
+    severity: "error",
+    message: "The photo is blurry. Hold the camera steady and tap the card to focus before taking it.",
+  },
+  overexposed: {
+    severity: "error",
+    message: "The photo is too bright. Move away from direct light or turn off the flash.",
+  },
+  low_resolution: {
+    severity: "error",
+    message: "The image is too small to read. Move closer so the card fills most of the frame.",
+  },
+  glare: {
+    severity: "warning",
+    message: "There is glare on the card. Tilt it slightly so no light reflects off its surface.",
+  },
+  cropped: {
+    severity: "warning",
+    message: "The card may be cut off. Keep all four corners in the frame with a small margin.",
+  },
+};
+
+function issue(code: ImageQualityIssueCode): ImageQualityIssue {
+  return { code, ...issueDetails[code] };
+}
+
+// Variance of the 4-neighbour Laplacian: high when the image has crisp edges
+function laplacianVariance(pixels: Buffer, width: number, height: number): number {
+  let sum = 0;
+  let sumOfSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = pixels[i - 1] + pixels[i + 1] + pixels[i - width] + pixels[i + width] - 4 * pixels[i];
+      sum += value;
+      sumOfSquares += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumOfSquares / count - mean * mean;
+}
+
+interface Box {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+// Where the card is in the analysed image and how many pixels its shorter
+// side has in the original photo. A photo whose shape is the card's is taken
+// for a scan already cropped to it; otherwise the card's corners are looked
+// for. Null when no card is found.
+async function locateCard(
+  pixels: Buffer,
+  width: number,
+  height: number,
+  scale: number
+): Promise<{ corners: CardCorners; shortSide: number; scan: boolean } | null> {
+  const aspect = Math.max(width, height) / Math.min(width, height);
+  if (Math.abs(aspect - ID1_ASPECT_RATIO) <= CARD_ASPECT_TOLERANCE) {
+    const corners: CardCorners = [
+      { x: 0, y: 0 },
+      { x: width, y: 0 },
+      { x: width, y: height },
+      { x: 0, y: height },
+    ];
+    return { corners, shortSide: Math.min(width, height) * scale, scan: true };
+  }
+
+  const corners = await detectCard({ data: pixels, width, height, channels: 1 }, { minCardArea: MIN_CARD_AREA });
+  if (!corners) return null;
+  const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+  const length = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+  const horizontal = (length(topLeft, topRight) + length(bottomLeft, bottomRight)) / 2;
+  const vertical = (length(topLeft, bottomLeft) + length(topRight, bottomRight)) / 2;
+  return { corners, shortSide: Math.min(horizontal, vertical) * scale, scan: false };
+}
+
+// Whether a corner of the card touches an edge of the frame
+function isCropped(corners: CardCorners, width: number, height: number): boolean {
+  const marginX = Math.max(2, width * MIN_MARGIN);
+  const marginY = Math.max(2, height * MIN_MARGIN);
+  return corners.some(({ x, y }) => x < marginX || y < marginY || x > width - marginX || y > height - marginY);
+}
+
+function boundingBox(corners: CardCorners, width: number, height: number): Box {
+  const xs = corners.map(({ x }) => x);
+  const ys = corners.map(({ y }) => y);
+  return {
+    top: Math.max(0, Math.floor(Math.min(...ys))),
+    left: Math.max(0, Math.floor(Math.min(...xs))),
+    bottom: Math.min(height - 1, Math.ceil(Math.max(...ys))),
+    right: Math.min(width - 1, Math.ceil(Math.max(...xs))),
+  };
+}
+
+// Mean grey level and share of clipped white pixels inside the content, so a
+// white scanner bed around the card counts as neither overexposure nor glare
+function measureLight(pixels: Buffer, width: number, content: Box): { brightness: number; glare: number } {
+  let sum = 0;
+  let clipped = 0;
+  for (let y = content.top; y <= content.bottom; y++) {
+    for (let x = content.left; x <= content.right; x++) {
+      const value = pixels[y * width + x];
+      sum += value;
+      if (value >= CLIPPED_LEVEL) clipped++;
+    }
+  }
+  const count = (content.bottom - content.top + 1) * (content.right - content.left + 1);
+  return { brightness: sum / count, glare: clipped / count };
+}
+
+// Score one image for sharpness, exposure, glare, resolution and framing
+export async function assessImage(file: MulterFile): Promise<ImageQuality> {
+  const quality: ImageQuality = {
+    fileName: file.originalname,
+    width: null,
+    height: null,
+    sharpness: null,
+    brightness: null,
+    glare: null,
+    issues: [],
+    error: null,
+  };
+
+  try {
+    const { data, info } = await sharp(file.buffer)
+      .autoOrient()
+      .resize(ANALYSIS_DIMENSION, ANALYSIS_DIMENSION, { fit: "inside", withoutEnlargement: true })
+      .flatten({ background: "#ffffff" })
+      .greyscale()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const metadata = await sharp(file.buffer).metadata();
+    quality.width = metadata.autoOrient?.width ?? metadata.width ?? info.width;
+    quality.height = metadata.autoOrient?.height ?? metadata.height ?? info.height;
+
+    quality.sharpness = laplacianVariance(data, info.width, info.height);
+    const card = await locateCard(data, info.width, info.height, quality.width / info.width);
+    // Light is measured on the card, or on the whole frame when none is found
+    const frame = { top: 0, left: 0, bottom: info.height - 1, right: info.width - 1 };
+    const { brightness, glare } = measureLight(
+      data,
+      info.width,
+      card ? boundingBox(card.corners, info.width, info.height) : frame
+    );
+    Object.assign(quality, { brightness, glare });
+
+    if (quality.sharpness < MIN_SHARPNESS) quality.issues.push(issue("blurry"));
+    if (brightness > MAX_BRIGHTNESS) {
+      quality.issues.push(issue("overexposed"));
+    } else if (glare > MAX_GLARE) {
+      quality.issues.push(issue("glare"));
+    }
+    // Without a card to measure, the photo's shorter side is the best bound
+    const shortSide = card?.shortSide ?? Math.min(quality.width, quality.height);
+    if (shortSide < MIN_SHORT_SIDE) quality.issues.push(issue("low_resolution"));
+    // Four corners could not be found, or one of them is at the frame's edge.
+    // A scan cropped to the card fills the frame by design.
+    if (!card || (!card.scan && isCropped(card.corners, info.width, info.height))) {
+      quality.issues.push(issue("cropped"));
+    }
+  } catch (error: any) {
+    console.error(`[Image Quality] Could not analyse ${file.originalname}:`, error);
+    quality.error = `Could not read the image: ${error.message || error}`;
+  }
+  return quality;
+}
+
+export async function assessImages(files: MulterFile[]): Promise<ImageQuality[]> {
+  const results: ImageQuality[] = [];
+  // One at a time, since each analysis decodes a full photo
+  for (const file of files) {
+    const quality = await assessImage(file);
+    if (quality.issues.length > 0) {
+      console.log(
+        `[Image Quality] ${file.originalname}: ${quality.issues.map((issue) => issue.code).join(", ")}`
+      );
+    }
+    results.push(quality);
+  }
+  return results;
+}
+
+// The quality gate of a submission. Depending on the organization's setting
+// images are not checked, checked and flagged, or refused when one of them has
+// an error-level issue, before any model call is made.
+export async function checkSubmissionQuality(
+  organizationId: number,
+  files: MulterFile[]
+): Promise<{ quality?: ImageQuality[] } | { error: string; status: 422; quality: ImageQuality[] }> {
+  const { imageQualityGate } = await storage.getSettings(organizationId);
+  if (imageQualityGate === "off") return {};
+
+  const quality = await assessImages(files);
+  const failed = quality.filter((image) => image.issues.some((issue) => issue.severity === "error"));
+  if (imageQualityGate === "reject" && failed.length > 0) {
+    const reasons = failed.map(
+      (image) => `${image.fileName} (${image.issues.map((issue) => issue.code.replace("_", " ")).join(", ")})`
+    );
+    return {
+      error: `Some images are not good enough to read: ${reasons.join("; ")}`,
+      status: 422,
+      quality,
+    };
+  }
+  return { quality };
+}
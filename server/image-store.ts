@@ -0,0 +1,67 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { hashImage } from "./fixture-service";
+
+// Uploaded images are kept on disk, named by the SHA-256 of their contents so
+// the same image submitted twice is only stored once
+const IMAGE_DIR = process.env.IMAGE_DIR || path.resolve(process.cwd(), "uploads");
+
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+function imagePath(sha256: string): string {
+  return path.join(IMAGE_DIR, sha256);
+}
+
+// Images are shared by every extraction with the same bytes. Storing an image
+// and recording a reference to it runs under this lock, as does checking an
+// image is unreferenced and deleting it, so a purge cannot remove a file that
+// another extraction has just stored. Jobs and batches already assume a
+// single server process, and so does this.
+let imageLock: Promise<unknown> = Promise.resolve();
+
+export function withImageLock<T>(task: () => Promise<T>): Promise<T> {
+  const run = imageLock.then(task, task);
+  imageLock = run.catch(() => undefined);
+  return run;
+}
+
+// Store an image and return its hash
+export async function saveImage(buffer: Buffer): Promise<string> {
+  const sha256 = hashImage(buffer);
+  await fs.mkdir(IMAGE_DIR, { recursive: true });
+  try {
+    await fs.writeFile(imagePath(sha256), buffer, { flag: "wx" });
+  } catch (error: any) {
+    if (error.code !== "EEXIST") throw error;
+  }
+  return sha256;
+}
+
+export async function readImage(sha256: string): Promise<Buffer | undefined> {
+  if (!SHA256_PATTERN.test(sha256)) return undefined;
+  try {
+    return await fs.readFile(imagePath(sha256));
+  } catch (error: any) {
+    if (error.code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
+export async function hasImage(sha256: string): Promise<boolean> {
+  if (!SHA256_PATTERN.test(sha256)) return false;
+  try {
+    await fs.access(imagePath(sha256));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function deleteImage(sha256: string): Promise<void> {
+  if (!SHA256_PATTERN.test(sha256)) return;
+  try {
+    await fs.unlink(imagePath(sha256));
+  } catch (error: any) {
+    if (error.code !== "ENOENT") throw error;
+  }
+}
@@ -1,5 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { setupAuth } from "./auth";
+import { startRetentionSchedule } from "./retention-service";
+import { startWebhookRetries } from "./webhook-service";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -36,6 +39,9 @@ app.use((req, res, next) => {
   next();
 });
 
+// Sessions and passport come before every route that needs req.user
+setupAuth(app);
+
 (async () => {
   const server = await registerRoutes(app);
 
@@ -66,5 +72,7 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startRetentionSchedule();
+    startWebhookRetries();
   });
 })();
@@ -0,0 +1,478 @@
+import { createHash, randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import { Job, JobDocument, OpenAIResponse, ProgressEvent } from "@shared/schema";
+import { storage } from "./storage";
+import {
+  abortError,
+  toErrorResponse,
+  type ExtractionProvider,
+  type ExtractionRequest,
+} from "./extraction-provider";
+import { runExtraction } from "./extraction-pipeline";
+import {
+  beginExtraction,
+  finishExtraction,
+  findDuplicateExtraction,
+  toExtractionResponse,
+  type ExtractionOwner,
+} from "./extraction-history";
+import { hashImage } from "./fixture-service";
+import { consumeSubmissionQuota, type QuotaExceeded } from "./quota-service";
+import { groupDocuments, type DocumentGroup } from "./document-pairing";
+
+type JobRequest = Omit<ExtractionRequest, "signal" | "onProgress">;
+type JobOwner = Omit<ExtractionOwner, "jobId">;
+
+// Keys are kept as long as a client could reasonably retry. Jobs themselves
+// only live in memory, so a restart forgets both.
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Abort handles of jobs that are still running, keyed by job id
+const runningJobs = new Map<string, AbortController>();
+
+// Submissions made with an Idempotency-Key, keyed by "<userId>:<key>". The
+// entry is added before any await so concurrent retries share the same outcome.
+const idempotentRequests = new Map<
+  string,
+  { fingerprint: string; started: Promise<unknown>; expiresAt: number }
+>();
+
+// Progress events are emitted under the job id for live subscribers
+const progressEmitter = new EventEmitter();
+progressEmitter.setMaxListeners(0);
+
+export function isJobFinished(job: Job): boolean {
+  return job.status === "completed" || job.status === "failed" || job.status === "cancelled";
+}
+
+// Append an event to the job's stored timeline and notify subscribers
+async function recordProgress(jobId: string, event: Omit<ProgressEvent, "timestamp">) {
+  const progressEvent: ProgressEvent = { ...event, timestamp: new Date().toISOString() };
+  const job = await storage.appendJobProgress(jobId, progressEvent);
+  if (job) {
+    progressEmitter.emit(jobId, progressEvent);
+  }
+}
+
+// Listen for progress events of a job. Returns a function that unsubscribes.
+export function subscribeToJob(
+  jobId: string,
+  listener: (event: ProgressEvent) => void
+): () => void {
+  progressEmitter.on(jobId, listener);
+  return () => {
+    progressEmitter.off(jobId, listener);
+  };
+}
+
+// Extract one document of a job as its own extraction
+async function runDocument(
+  jobId: string,
+  provider: ExtractionProvider,
+  request: JobRequest,
+  owner: ExtractionOwner,
+  controller: AbortController,
+  group: DocumentGroup,
+  index: number,
+  count: number
+): Promise<Pick<JobDocument, "status" | "extractionId" | "result" | "error">> {
+  // The job's own submission covers its first document
+  if (index > 0) {
+    const exceeded = await consumeSubmissionQuota(owner.organizationId);
+    if (exceeded) {
+      return { status: "failed", extractionId: null, result: null, error: exceeded.error };
+    }
+  }
+
+  const documentRequest: JobRequest = {
+    ...request,
+    files: group.positions.map((position) => request.files[position]),
+    quality: request.quality && group.positions.map((position) => request.quality![position]),
+    sides: group.sides,
+    barcode: group.barcode,
+  };
+  const extractionId = await beginExtraction(provider, documentRequest, owner);
+
+  try {
+    const result = await runExtraction(provider, {
+      ...documentRequest,
+      signal: controller.signal,
+      onProgress: (event) => {
+        void recordProgress(
+          jobId,
+          count > 1
+            ? { ...event, documentIndex: index, message: `Document ${index + 1} of ${count}: ${event.message}` }
+            : event,
+        );
+      },
+    });
+
+    // A cancelled job keeps its cancelled status whatever the provider returned
+    if (controller.signal.aborted) {
+      const cancelled = abortError(controller.signal);
+      await finishExtraction(owner.organizationId, extractionId, { error: cancelled.message, errorCode: cancelled.code });
+      return { status: "cancelled", extractionId: extractionId ?? null, result: null, error: cancelled.message };
+    }
+
+    await finishExtraction(owner.organizationId, extractionId, result);
+    return {
+      status: result.error ? "failed" : "completed",
+      extractionId: extractionId ?? null,
+      result,
+      error: result.error ?? null,
+    };
+  } catch (error: any) {
+    console.error(`[Job Service] Document ${index + 1} of job ${jobId} threw:`, error);
+    const message = error.message || "An error occurred while processing the images";
+    await finishExtraction(owner.organizationId, extractionId, { error: message, errorCode: "provider_error" });
+    return { status: "failed", extractionId: extractionId ?? null, result: null, error: message };
+  }
+}
+
+// Sort the images into documents, then extract the documents one at a time
+async function runJob(
+  jobId: string,
+  provider: ExtractionProvider,
+  request: JobRequest,
+  owner: ExtractionOwner,
+  controller: AbortController
+) {
+  await storage.updateJob(jobId, {
+    status: "running",
+    startedAt: new Date().toISOString(),
+  });
+  await recordProgress(jobId, { phase: "started", message: `Processing with ${provider.name}` });
+  console.log(`[Job Service] Job ${jobId} started`);
+
+  try {
+    const groups = await groupDocuments(request.files, (event) => {
+      void recordProgress(jobId, event);
+    });
+    const documents: JobDocument[] = groups.map((group) => ({
+      images: group.positions.map((position, i) => ({
+        position,
+        fileName: request.files[position].originalname,
+        side: group.sides[i],
+      })),
+      status: "queued",
+      extractionId: null,
+      result: null,
+      error: null,
+    }));
+    await storage.updateJob(jobId, { documents });
+
+    for (let index = 0; index < groups.length; index++) {
+      if (controller.signal.aborted) break;
+      documents[index] = { ...documents[index], status: "running" };
+      await storage.updateJob(jobId, { documents: [...documents] });
+
+      const outcome = await runDocument(jobId, provider, request, owner, controller, groups[index], index, groups.length);
+      documents[index] = { ...documents[index], ...outcome };
+      await storage.updateJob(jobId, { documents: [...documents] });
+    }
+    // Documents that never started are cancelled along with the job
+    if (controller.signal.aborted) {
+      await storage.updateJob(jobId, {
+        documents: documents.map((document) =>
+          document.status === "queued" ? { ...document, status: "cancelled" } : document
+        ),
+      });
+      return;
+    }
+
+    // A job with several documents succeeds when any of them does; each
+    // document keeps its own result and error
+    const completed = documents.filter((document) => document.status === "completed").length;
+    const failed = documents.find((document) => document.status === "failed");
+    const single = documents.length === 1 ? documents[0].result : null;
+    const error = completed > 0 ? null : (failed?.error ?? "No document could be extracted");
+    await storage.updateJob(jobId, {
+      status: error ? "failed" : "completed",
+      completedAt: new Date().toISOString(),
+      result: single,
+      error,
+      errorCode: error ? (single?.errorCode ?? "provider_error") : null,
+    });
+    await recordProgress(
+      jobId,
+      error
+        ? { phase: "failed", message: error }
+        : {
+            phase: "completed",
+            message:
+              documents.length > 1
+                ? `Extracted ${completed} of ${documents.length} documents`
+                : "Extraction completed",
+          },
+    );
+    console.log(`[Job Service] Job ${jobId} ${error ? "failed" : "completed"}`);
+  } catch (error: any) {
+    console.error(`[Job Service] Job ${jobId} threw:`, error);
+    if (!controller.signal.aborted) {
+      const message = error.message || "An error occurred while processing the images";
+      await storage.updateJob(jobId, {
+        status: "failed",
+        completedAt: new Date().toISOString(),
+        error: message,
+        errorCode: "provider_error",
+      });
+      await recordProgress(jobId, { phase: "failed", message });
+    }
+  } finally {
+    runningJobs.delete(jobId);
+  }
+}
+
+function newJob(provider: ExtractionProvider, request: JobRequest, userId: number): Job {
+  const now = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    userId,
+    status: "queued",
+    provider: provider.name,
+    fileCount: request.files.length,
+    createdAt: now,
+    startedAt: null,
+    completedAt: null,
+    result: null,
+    error: null,
+    errorCode: null,
+    progress: [{ phase: "queued", message: "Job queued", timestamp: now }],
+    documents: [],
+    duplicateOf: null,
+  };
+}
+
+type CreateJobResult = { job: Job } | QuotaExceeded;
+
+// Create a job and start processing it in the background. Images already
+// extracted with the same profile get a completed job with the earlier result.
+async function createJob(
+  provider: ExtractionProvider,
+  request: JobRequest,
+  owner: JobOwner
+): Promise<CreateJobResult> {
+  const duplicate = await findDuplicateExtraction(owner, request.files);
+  if (duplicate) {
+    const job = newJob(provider, request, owner.userId);
+    const now = new Date().toISOString();
+    const created = await storage.createJob({
+      ...job,
+      status: "completed",
+      startedAt: now,
+      completedAt: now,
+      result: toExtractionResponse(duplicate),
+      duplicateOf: duplicate.id,
+      progress: [
+        ...job.progress,
+        {
+          phase: "completed",
+          message: `Reused the result of extraction ${duplicate.id} of the same images`,
+          timestamp: now,
+        },
+      ],
+    });
+    console.log(`[Job Service] Job ${created.id} reused extraction ${duplicate.id}`);
+    return { job: created };
+  }
+
+  const exceeded = await consumeSubmissionQuota(owner.organizationId);
+  if (exceeded) return exceeded;
+
+  const job = await storage.createJob(newJob(provider, request, owner.userId));
+  console.log(`[Job Service] Job ${job.id} queued with ${job.fileCount} files`);
+
+  const controller = new AbortController();
+  runningJobs.set(job.id, controller);
+
+  void runJob(job.id, provider, request, { ...owner, jobId: job.id }, controller);
+
+  return { job };
+}
+
+// What makes two submissions the same request: the endpoint, the images in
+// order, and everything that decides how they are processed
+function fingerprintRequest(
+  endpoint: "jobs" | "process-images",
+  provider: ExtractionProvider,
+  request: JobRequest,
+  owner: JobOwner
+): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify({
+        endpoint,
+        provider: provider.name,
+        profileId: owner.profileId ?? null,
+        assistantId: request.assistantId ?? null,
+        model: request.model ?? null,
+        images: request.files.map((file) => hashImage(file.buffer)),
+      }),
+    )
+    .digest("hex");
+}
+
+function pruneIdempotencyKeys(now: number) {
+  idempotentRequests.forEach((entry, key) => {
+    if (entry.expiresAt <= now) idempotentRequests.delete(key);
+  });
+}
+
+// Start a submission once per user and key. A repeat of the same request gets
+// the outcome of the first (replayed). An error outcome frees the key, since
+// nothing was started and a retry may try again.
+async function runIdempotent<T extends object>(
+  userId: number,
+  idempotencyKey: string,
+  fingerprint: string,
+  start: () => Promise<T>
+): Promise<{ outcome: T; replayed: boolean } | { error: string; status: number }> {
+  const now = Date.now();
+  pruneIdempotencyKeys(now);
+  const key = `${userId}:${idempotencyKey}`;
+
+  const existing = idempotentRequests.get(key);
+  if (existing) {
+    if (existing.fingerprint !== fingerprint) {
+      return { error: "This Idempotency-Key was already used for a different request", status: 422 };
+    }
+    return { outcome: (await existing.started) as T, replayed: true };
+  }
+
+  const started = start();
+  idempotentRequests.set(key, { fingerprint, started, expiresAt: now + IDEMPOTENCY_KEY_TTL_MS });
+  let outcome: T;
+  try {
+    outcome = await started;
+  } catch (error) {
+    idempotentRequests.delete(key);
+    throw error;
+  }
+  if ("error" in outcome) {
+    idempotentRequests.delete(key);
+  }
+  return { outcome, replayed: false };
+}
+
+export type StartJobResult =
+  | { job: Job; replayed: boolean }
+  | { error: string; status: number; retryAfter?: number };
+
+// Start a job. With an idempotency key, a repeat of the same request returns
+// the job it started (replayed) instead of starting another run.
+export async function startJob(
+  provider: ExtractionProvider,
+  request: JobRequest,
+  owner: JobOwner,
+  idempotencyKey?: string
+): Promise<StartJobResult> {
+  if (!idempotencyKey) {
+    const created = await createJob(provider, request, owner);
+    return "error" in created ? created : { job: created.job, replayed: false };
+  }
+
+  const started = await runIdempotent(
+    owner.userId,
+    idempotencyKey,
+    fingerprintRequest("jobs", provider, request, owner),
+    () => createJob(provider, request, owner),
+  );
+  if ("error" in started) return started;
+  const { outcome, replayed } = started;
+  if ("error" in outcome) return outcome;
+  if (!replayed) return { job: outcome.job, replayed };
+
+  console.log(`[Job Service] Idempotency-Key replayed job ${outcome.job.id}`);
+  return { job: (await storage.getJob(outcome.job.id)) ?? outcome.job, replayed };
+}
+
+type ExtractNowResult = { response: OpenAIResponse; aborted: boolean } | QuotaExceeded;
+
+// Extract the images as one document and wait for the result
+async function extractNow(
+  provider: ExtractionProvider,
+  request: JobRequest,
+  owner: JobOwner,
+  signal?: AbortSignal
+): Promise<ExtractNowResult> {
+  // The same images were already extracted with this profile
+  const duplicate = await findDuplicateExtraction(owner, request.files);
+  if (duplicate) {
+    console.log(`[Job Service] Returning the result of extraction ${duplicate.id}`);
+    return { response: toExtractionResponse(duplicate), aborted: false };
+  }
+
+  const exceeded = await consumeSubmissionQuota(owner.organizationId);
+  if (exceeded) return exceeded;
+
+  const extractionId = await beginExtraction(provider, request, owner);
+  let response: OpenAIResponse;
+  try {
+    response = await runExtraction(provider, { ...request, signal });
+  } catch (error) {
+    // Recorded like a provider's error response, so the history row and a
+    // pending idempotent request both settle
+    console.error("[Job Service] Extraction threw:", error);
+    response = toErrorResponse(error, signal);
+  }
+  // An aborted run is recorded as cancelled whatever the provider returned
+  if (signal?.aborted) {
+    const cancelled = abortError(signal);
+    response = { error: cancelled.message, errorCode: cancelled.code };
+  }
+  await finishExtraction(owner.organizationId, extractionId, response);
+  return { response, aborted: signal?.aborted ?? false };
+}
+
+export type ProcessImagesResult =
+  | { response: OpenAIResponse; aborted: boolean; replayed: boolean }
+  | { error: string; status: number; retryAfter?: number };
+
+// Extract the images synchronously. The signal stops the provider when the
+// client goes away; with an idempotency key the extraction runs on instead, so
+// a retry with the same key gets its result rather than starting another run.
+export async function processImages(
+  provider: ExtractionProvider,
+  request: JobRequest,
+  owner: JobOwner,
+  { signal, idempotencyKey }: { signal: AbortSignal; idempotencyKey?: string }
+): Promise<ProcessImagesResult> {
+  if (!idempotencyKey) {
+    const extracted = await extractNow(provider, request, owner, signal);
+    return "error" in extracted ? extracted : { ...extracted, replayed: false };
+  }
+
+  const started = await runIdempotent(
+    owner.userId,
+    idempotencyKey,
+    fingerprintRequest("process-images", provider, request, owner),
+    () => extractNow(provider, request, owner),
+  );
+  if ("error" in started) return started;
+  const { outcome, replayed } = started;
+  if ("error" in outcome) return outcome;
+  if (replayed) {
+    console.log("[Job Service] Idempotency-Key replayed an extraction result");
+  }
+  return { ...outcome, replayed };
+}
+
+// Cancel a queued or running job. Finished jobs are returned unchanged.
+export async function cancelJob(id: string): Promise<Job | undefined> {
+  const job = await storage.getJob(id);
+  if (!job || isJobFinished(job)) {
+    return job;
+  }
+
+  console.log(`[Job Service] Cancelling job ${id}`);
+  runningJobs.get(id)?.abort("cancelled");
+
+  await storage.updateJob(id, {
+    status: "cancelled",
+    completedAt: new Date().toISOString(),
+    error: "The job was cancelled",
+    errorCode: "cancelled",
+  });
+  await recordProgress(id, { phase: "cancelled", message: "Job cancelled" });
+  return storage.getJob(id);
+}
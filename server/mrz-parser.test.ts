@@ -0,0 +1,127 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { computeCheckDigit, findMrzLines, parseMrz, parseMrzFromResponse } from "./mrz-parser";
+
+// Specimens from ICAO Doc 9303 parts 4 to 6
+const TD1 = ["I<UTOD231458907<<<<<<<<<<<<<<<", "7408122F1204159UTO<<<<<<<<<<<6", "ERIKSSON<<ANNA<MARIA<<<<<<<<<<"];
+const TD2 = ["I<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<", "D231458907UTO7408122F1204159<<<<<<<6"];
+const TD3 = ["P<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<<<<<<<<<", "L898902C36UTO7408122F1204159ZE184226B<<<<<10"];
+
+function invalidFields(lines: string[]): string[] {
+  return parseMrz(lines)!.checkDigits.filter((digit) => !digit.valid).map((digit) => digit.field);
+}
+
+describe("computeCheckDigit", () => {
+  test("weights characters 7, 3, 1 with letters from 10 and filler as 0", () => {
+    assert.equal(computeCheckDigit("L898902C3"), "6");
+    assert.equal(computeCheckDigit("740812"), "2");
+    assert.equal(computeCheckDigit("120415"), "9");
+    assert.equal(computeCheckDigit("ZE184226B<<<<<"), "1");
+    assert.equal(computeCheckDigit("<<<<<<"), "0");
+  });
+});
+
+describe("parseMrz", () => {
+  test("reads a TD3 passport", () => {
+    const mrz = parseMrz(TD3)!;
+    assert.equal(mrz.format, "TD3");
+    assert.equal(mrz.documentCode, "P");
+    assert.equal(mrz.issuingState, "UTO");
+    assert.equal(mrz.documentNumber, "L898902C3");
+    assert.equal(mrz.nationality, "UTO");
+    assert.equal(mrz.lastName, "ERIKSSON");
+    assert.equal(mrz.givenNames, "ANNA MARIA");
+    assert.equal(mrz.sex, "F");
+    assert.equal(mrz.dateOfBirth, "1974-08-12");
+    assert.equal(mrz.expiryDate, "2012-04-15");
+    assert.deepEqual(mrz.optionalData, ["ZE184226B"]);
+    assert.equal(mrz.valid, true);
+  });
+
+  test("reads a TD2 card", () => {
+    const mrz = parseMrz(TD2)!;
+    assert.equal(mrz.format, "TD2");
+    assert.equal(mrz.documentNumber, "D23145890");
+    assert.equal(mrz.lastName, "ERIKSSON");
+    assert.equal(mrz.givenNames, "ANNA MARIA");
+    assert.equal(mrz.valid, true);
+  });
+
+  test("reads a TD1 card", () => {
+    const mrz = parseMrz(TD1)!;
+    assert.equal(mrz.format, "TD1");
+    assert.equal(mrz.documentCode, "I");
+    assert.equal(mrz.documentNumber, "D23145890");
+    assert.equal(mrz.nationality, "UTO");
+    assert.equal(mrz.dateOfBirth, "1974-08-12");
+    assert.equal(mrz.givenNames, "ANNA MARIA");
+    assert.deepEqual(mrz.optionalData, ["", ""]);
+    assert.equal(mrz.valid, true);
+  });
+
+  test("follows a TD1 document number that overflows into the optional data", () => {
+    const lines = ["I<UTOD23145890<7349<<<<<<<<<<<", TD1[1], TD1[2]];
+    const mrz = parseMrz(lines)!;
+    assert.equal(mrz.documentNumber, "D23145890734");
+    assert.ok(!invalidFields(lines).includes("documentNumber"));
+  });
+
+  test("reports each check digit that does not match", () => {
+    // Birth date altered, leaving its check digit and the composite wrong
+    const tampered = [TD3[0], TD3[1].replace("740812", "750812")];
+    assert.deepEqual(invalidFields(tampered), ["dateOfBirth", "composite"]);
+    assert.equal(parseMrz(tampered)!.valid, false);
+  });
+
+  test("accepts filler as the check digit of an empty personal number", () => {
+    const lines = [TD3[0], "L898902C36UTO7408122F1204159<<<<<<<<<<<<<<<<"];
+    const personalNumber = parseMrz(lines)!.checkDigits.find((digit) => digit.field === "personalNumber")!;
+    assert.equal(personalNumber.valid, true);
+  });
+
+  test("places birth years in the past and expiry years in this century", () => {
+    const currentYY = new Date().getFullYear() % 100;
+    const futureYY = String((currentYY + 1) % 100).padStart(2, "0");
+    const line2 = `L898902C36UTO${futureYY}08122F${futureYY}04159ZE184226B<<<<<10`;
+    const mrz = parseMrz([TD3[0], line2])!;
+    assert.equal(mrz.dateOfBirth, `19${futureYY}-08-12`);
+    assert.equal(mrz.expiryDate, `20${futureYY}-04-15`);
+  });
+
+  test("leaves out dates that are not on the calendar", () => {
+    const mrz = parseMrz([TD3[0], TD3[1].replace("740812", "740231")])!;
+    assert.equal(mrz.dateOfBirth, null);
+  });
+
+  test("reads an unknown sex marker as X", () => {
+    assert.equal(parseMrz([TD3[0], TD3[1].replace("2F12", "2<12")])!.sex, "X");
+  });
+});
+
+describe("findMrzLines", () => {
+  test("finds the lines among other text and ignores spacing", () => {
+    const text = `Passport\n${TD3[0].slice(0, 20)} ${TD3[0].slice(20)}\n${TD3[1]}\nend`;
+    assert.deepEqual(findMrzLines(text), { format: "TD3", lines: TD3 });
+  });
+
+  test("splits a zone read as one run of characters", () => {
+    assert.deepEqual(findMrzLines(TD1.join("")), { format: "TD1", lines: TD1 });
+  });
+
+  test("returns null without a complete zone", () => {
+    assert.equal(findMrzLines(TD3[0]), null);
+    assert.equal(parseMrz("no machine readable zone here"), null);
+  });
+});
+
+describe("parseMrzFromResponse", () => {
+  test("prefers an mrz field of the provider JSON", () => {
+    const raw = JSON.stringify({ lastName: "ERIKSSON", machine_readable_zone: TD2 });
+    assert.equal(parseMrzFromResponse(raw)?.format, "TD2");
+  });
+
+  test("falls back to the response text", () => {
+    assert.equal(parseMrzFromResponse(`The MRZ reads:\n${TD3.join("\n")}`)?.format, "TD3");
+    assert.equal(parseMrzFromResponse(null), null);
+  });
+});
@@ -0,0 +1,228 @@
+import { isCalendarDay, MrzCheckDigit, MrzFormat, MrzResult } from "@shared/schema";
+import { extractJsonObject } from "./extraction-parser";
+
+// Line count and line length of each ICAO 9303 layout
+const LAYOUTS: Record<MrzFormat, { lines: number; length: number }> = {
+  TD1: { lines: 3, length: 30 },
+  TD2: { lines: 2, length: 36 },
+  TD3: { lines: 2, length: 44 },
+};
+
+const MRZ_LINE = /^[A-Z0-9<]+$/;
+
+// ICAO 9303 part 3: characters are valued 0-9, A=10 ... Z=35 and "<"=0,
+// weighted 7, 3, 1 repeating, and the check digit is the sum modulo 10
+export function computeCheckDigit(value: string): string {
+  let sum = 0;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    let charValue = 0;
+    if (char >= "0" && char <= "9") {
+      charValue = char.charCodeAt(0) - 48;
+    } else if (char >= "A" && char <= "Z") {
+      charValue = char.charCodeAt(0) - 55;
+    }
+    sum += charValue * [7, 3, 1][i % 3];
+  }
+  return String(sum % 10);
+}
+
+function check(field: string, value: string, actual: string): MrzCheckDigit {
+  const expected = computeCheckDigit(value);
+  // An optional field that is entirely filler may carry "<" instead of "0"
+  const valid = actual === expected || (actual === "<" && /^<*$/.test(value));
+  return { field, actual, expected, valid };
+}
+
+function trimFiller(value: string): string {
+  return value.replace(/<+$/, "").replace(/</g, " ").trim();
+}
+
+// YYMMDD to ISO. Birth dates cannot lie in the future; expiry dates are
+// assumed to fall within this century.
+function parseMrzDate(value: string, kind: "birth" | "expiry"): string | null {
+  if (!/^\d{6}$/.test(value)) return null;
+  const yy = Number(value.slice(0, 2));
+  const month = value.slice(2, 4);
+  const day = value.slice(4, 6);
+
+  const currentYY = new Date().getFullYear() % 100;
+  const century = kind === "birth" && yy > currentYY ? 1900 : 2000;
+  const date = `${century + yy}-${month}-${day}`;
+  return isCalendarDay(date) ? date : null;
+}
+
+function parseSex(value: string): "M" | "F" | "X" {
+  return value === "M" || value === "F" ? value : "X";
+}
+
+// The name field is "PRIMARY<<SECONDARY<NAMES", padded with "<"
+function parseName(value: string) {
+  const [primary, ...secondary] = value.split("<<");
+  return {
+    lastName: trimFiller(primary),
+    givenNames: trimFiller(secondary.join("<<")),
+  };
+}
+
+function parseTD1(lines: string[]) {
+  const [line1, line2, line3] = lines;
+  const checkDigits: MrzCheckDigit[] = [];
+
+  // Document numbers longer than 9 characters overflow into the optional
+  // data, with a "<" in the check digit position (ICAO 9303 part 5, 4.2.4)
+  let documentNumber = line1.slice(5, 14);
+  let documentNumberCheck = line1[14];
+  let optional1 = line1.slice(15, 30);
+  if (documentNumberCheck === "<" && /^[A-Z0-9]/.test(optional1)) {
+    const overflow = optional1.split("<")[0];
+    documentNumber += overflow.slice(0, -1);
+    documentNumberCheck = overflow.slice(-1);
+    optional1 = optional1.slice(overflow.length);
+  }
+  checkDigits.push(check("documentNumber", documentNumber, documentNumberCheck));
+  checkDigits.push(check("dateOfBirth", line2.slice(0, 6), line2[6]));
+  checkDigits.push(check("expiryDate", line2.slice(8, 14), line2[14]));
+  checkDigits.push(
+    check(
+      "composite",
+      line1.slice(5, 30) + line2.slice(0, 7) + line2.slice(8, 15) + line2.slice(18, 29),
+      line2[29],
+    ),
+  );
+
+  return {
+    documentCode: trimFiller(line1.slice(0, 2)),
+    issuingState: trimFiller(line1.slice(2, 5)),
+    documentNumber: trimFiller(documentNumber),
+    nationality: trimFiller(line2.slice(15, 18)),
+    birth: line2.slice(0, 6),
+    sex: line2[7],
+    expiry: line2.slice(8, 14),
+    ...parseName(line3),
+    optionalData: [trimFiller(optional1), trimFiller(line2.slice(18, 29))],
+    checkDigits,
+  };
+}
+
+function parseTD2(lines: string[]) {
+  const [line1, line2] = lines;
+  const checkDigits: MrzCheckDigit[] = [
+    check("documentNumber", line2.slice(0, 9), line2[9]),
+    check("dateOfBirth", line2.slice(13, 19), line2[19]),
+    check("expiryDate", line2.slice(21, 27), line2[27]),
+    check("composite", line2.slice(0, 10) + line2.slice(13, 20) + line2.slice(21, 35), line2[35]),
+  ];
+
+  return {
+    documentCode: trimFiller(line1.slice(0, 2)),
+    issuingState: trimFiller(line1.slice(2, 5)),
+    documentNumber: trimFiller(line2.slice(0, 9)),
+    nationality: trimFiller(line2.slice(10, 13)),
+    birth: line2.slice(13, 19),
+    sex: line2[20],
+    expiry: line2.slice(21, 27),
+    ...parseName(line1.slice(5, 36)),
+    optionalData: [trimFiller(line2.slice(28, 35))],
+    checkDigits,
+  };
+}
+
+function parseTD3(lines: string[]) {
+  const [line1, line2] = lines;
+  const checkDigits: MrzCheckDigit[] = [
+    check("documentNumber", line2.slice(0, 9), line2[9]),
+    check("dateOfBirth", line2.slice(13, 19), line2[19]),
+    check("expiryDate", line2.slice(21, 27), line2[27]),
+    check("personalNumber", line2.slice(28, 42), line2[42]),
+    check("composite", line2.slice(0, 10) + line2.slice(13, 20) + line2.slice(21, 43), line2[43]),
+  ];
+
+  return {
+    documentCode: trimFiller(line1.slice(0, 2)),
+    issuingState: trimFiller(line1.slice(2, 5)),
+    documentNumber: trimFiller(line2.slice(0, 9)),
+    nationality: trimFiller(line2.slice(10, 13)),
+    birth: line2.slice(13, 19),
+    sex: line2[20],
+    expiry: line2.slice(21, 27),
+    ...parseName(line1.slice(5, 44)),
+    optionalData: [trimFiller(line2.slice(28, 42))],
+    checkDigits,
+  };
+}
+
+const PARSERS = { TD1: parseTD1, TD2: parseTD2, TD3: parseTD3 };
+
+// Find the MRZ lines in free text: either one line per row or a single run
+// of characters as long as the whole zone
+export function findMrzLines(text: string): { format: MrzFormat; lines: string[] } | null {
+  const rows = text
+    .toUpperCase()
+    .split(/[\r\n]+/)
+    .map((row) => row.replace(/\s+/g, ""))
+    .filter((row) => row.length >= 30 && MRZ_LINE.test(row));
+
+  for (const format of Object.keys(LAYOUTS) as MrzFormat[]) {
+    const { lines, length } = LAYOUTS[format];
+
+    for (let i = 0; i + lines <= rows.length; i++) {
+      const group = rows.slice(i, i + lines);
+      if (group.every((row) => row.length === length)) {
+        return { format, lines: group };
+      }
+    }
+
+    const joined = rows.find((row) => row.length === lines * length);
+    if (joined) {
+      return {
+        format,
+        lines: Array.from({ length: lines }, (_, n) => joined.slice(n * length, (n + 1) * length)),
+      };
+    }
+  }
+
+  return null;
+}
+
+export function parseMrz(input: string | string[]): MrzResult | null {
+  const found = findMrzLines(Array.isArray(input) ? input.join("\n") : input);
+  if (!found) {
+    return null;
+  }
+
+  const { format, lines } = found;
+  const { birth, sex, expiry, checkDigits, ...fields } = PARSERS[format](lines);
+  const valid = checkDigits.every((digit) => digit.valid);
+
+  console.log(`[MRZ Parser] Parsed ${format} MRZ, check digits ${valid ? "valid" : "FAILED"}`);
+  return {
+    format,
+    lines,
+    ...fields,
+    dateOfBirth: parseMrzDate(birth, "birth"),
+    sex: parseSex(sex),
+    expiryDate: parseMrzDate(expiry, "expiry"),
+    checkDigits,
+    valid,
+  };
+}
+
+// The MRZ may come back as its own field in the provider JSON (a string or
+// an array of lines), or simply appear somewhere in the response text
+export function parseMrzFromResponse(raw: string | null | undefined): MrzResult | null {
+  if (!raw) {
+    return null;
+  }
+
+  const json = extractJsonObject(raw);
+  const field = json
+    ? Object.entries(json).find(([key]) => /^(mrz|machinereadablezone)$/.test(key.toLowerCase().replace(/[^a-z]/g, "")))
+    : undefined;
+  const value = field?.[1];
+
+  if (typeof value === "string" || (Array.isArray(value) && value.every((line) => typeof line === "string"))) {
+    return parseMrz(value);
+  }
+  return parseMrz(raw);
+}
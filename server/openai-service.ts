@@ -1,64 +1,145 @@
-import OpenAI from "openai";
-import { OpenAIResponse } from "@shared/schema";
-import * as fs from 'fs';
-import * as path from 'path';
-
-// Define the Multer File interface if Express.Multer is not available
-interface MulterFile {
-  fieldname: string;
-  originalname: string;
-  encoding: string;
-  mimetype: string;
-  size: number;
-  destination?: string;
-  filename?: string;
-  path?: string;
-  buffer: Buffer;
+import OpenAI, { toFile } from "openai";
+import { DocumentSide, OpenAIResponse, TokenUsage } from "@shared/schema";
+import {
+  ExtractionError,
+  abortError,
+  describeSides,
+  toErrorResponse,
+  type ExtractionProvider,
+  type MulterFile,
+  type ProgressListener,
+} from "./extraction-provider";
+
+// Overall deadline for one extraction, from the first upload to the response
+const RUN_TIMEOUT_MS = Number(process.env.OPENAI_RUN_TIMEOUT_MS) || 120_000;
+
+// Run polling starts fast and backs off exponentially up to the max delay
+const POLL_INITIAL_DELAY_MS = 500;
+const POLL_MAX_DELAY_MS = 5_000;
+const POLL_BACKOFF_FACTOR = 1.5;
+
+interface AssistantRunOptions {
+  signal?: AbortSignal;
+  onProgress?: ProgressListener;
+  timeoutMs?: number;
+  sides?: DocumentSide[];
+}
+
+// Sleep that wakes up early when the signal is aborted
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    }
+  });
 }
 
+// Error for a run that stopped in a terminal status other than "completed"
+function runStatusError(run: OpenAI.Beta.Threads.Runs.Run): ExtractionError {
+  switch (run.status) {
+    case "failed":
+      return new ExtractionError(
+        run.last_error?.message || "The assistant failed to process the images",
+        "run_failed"
+      );
+    case "cancelled":
+      return new ExtractionError("The assistant run was cancelled", "run_cancelled");
+    case "expired":
+      return new ExtractionError("The assistant run expired before it completed", "run_expired");
+    case "incomplete":
+      return new ExtractionError(
+        `The assistant run ended incomplete${run.incomplete_details?.reason ? ` (${run.incomplete_details.reason})` : ""}`,
+        "run_incomplete"
+      );
+    default:
+      return new ExtractionError(
+        "The assistant requires additional input to complete the task",
+        "requires_action"
+      );
+  }
+}
+
+// Usage is only reported once a run reaches a terminal status
+function runUsage(run: OpenAI.Beta.Threads.Runs.Run | undefined): TokenUsage | undefined {
+  if (!run?.usage) return undefined;
+  return {
+    model: run.model,
+    promptTokens: run.usage.prompt_tokens,
+    completionTokens: run.usage.completion_tokens,
+  };
+}
+
+// A run in one of these statuses is finished on OpenAI's side
+const TERMINAL_RUN_STATUSES = ["completed", "failed", "cancelled", "expired", "incomplete"];
+// No tool outputs are ever submitted, so a run that requires action is given up
+// and left to the cancellation below
+const STOP_POLLING_STATUSES = [...TERMINAL_RUN_STATUSES, "requires_action"];
+
 export async function processImagesWithOpenAI(
   apiKey: string,
   assistantId: string,
-  files: MulterFile[]
+  files: MulterFile[],
+  { signal, onProgress, timeoutMs = RUN_TIMEOUT_MS, sides }: AssistantRunOptions = {}
 ): Promise<OpenAIResponse> {
   console.log(`[OpenAI Service] Starting image processing with ${files.length} files`);
   console.log(`[OpenAI Service] Using Assistant ID: ${assistantId}`);
   console.log(`[OpenAI Service] API Key provided: ${apiKey ? 'Yes (masked)' : 'No'}`);
-  
-  try {
-    // Initialize OpenAI with the provided API key
-    console.log("[OpenAI Service] Initializing OpenAI client");
-    const openai = new OpenAI({ apiKey });
 
+  // Aborted by the caller's signal or by the deadline, whichever comes first
+  const runController = new AbortController();
+  const runSignal = runController.signal;
+  const deadline = setTimeout(() => runController.abort("timeout"), timeoutMs);
+  const forwardAbort = () => runController.abort(signal?.reason);
+  if (signal?.aborted) forwardAbort();
+  signal?.addEventListener("abort", forwardAbort, { once: true });
+
+  // Initialize OpenAI with the provided API key
+  console.log("[OpenAI Service] Initializing OpenAI client");
+  const openai = new OpenAI({ apiKey });
+
+  // Tracked outside the try block so they can be cleaned up on any outcome
+  const fileIds: string[] = [];
+  let thread: OpenAI.Beta.Threads.Thread | undefined;
+  let run: OpenAI.Beta.Threads.Runs.Run | undefined;
+
+  try {
     // Upload all images to OpenAI
     console.log("[OpenAI Service] Uploading images to OpenAI");
-    const fileIds = await Promise.all(
+    // In upload order, which fileIds is not since uploads finish in any order
+    const orderedFileIds = await Promise.all(
       files.map(async (file, index) => {
         console.log(`[OpenAI Service] Uploading file ${index + 1}/${files.length}: ${file.originalname} (${file.size} bytes, ${file.mimetype})`);
-        
-        // Create a temporary file from the buffer to work with OpenAI API
-        const tempFilePath = path.join('/', 'tmp', `temp_file_${Date.now()}_${index}.jpg`);
-        fs.writeFileSync(tempFilePath, file.buffer);
+        onProgress?.({
+          phase: "uploading",
+          message: `Uploading file ${index + 1} of ${files.length}`,
+          fileIndex: index,
+          fileCount: files.length,
+          fileName: file.originalname,
+        });
         
         try {
+          // Uploaded straight from memory, under the file's own name and type
           const uploadedFile = await openai.files.create({
-            file: fs.createReadStream(tempFilePath),
+            file: await toFile(file.buffer, file.originalname, { type: file.mimetype }),
             purpose: "assistants",
-          });
+          }, { signal: runSignal });
+          fileIds.push(uploadedFile.id);
           console.log(`[OpenAI Service] File ${index + 1} uploaded with ID: ${uploadedFile.id}`);
-          
-          // Clean up temporary file after upload
-          fs.unlinkSync(tempFilePath);
-          
+          onProgress?.({
+            phase: "uploaded",
+            message: `Uploaded file ${index + 1} of ${files.length}`,
+            fileIndex: index,
+            fileCount: files.length,
+            fileName: file.originalname,
+          });
+
           return uploadedFile.id;
         } catch (error) {
           console.error(`[OpenAI Service] Error uploading file ${index + 1}:`, error);
-          
-          // Clean up temporary file in case of error
-          if (fs.existsSync(tempFilePath)) {
-            fs.unlinkSync(tempFilePath);
-          }
-          
           throw error;
         }
       })
@@ -67,72 +148,81 @@ export async function processImagesWithOpenAI(
 
     // Create a thread
     console.log("[OpenAI Service] Creating a new thread");
-    const thread = await openai.beta.threads.create();
+    thread = await openai.beta.threads.create({}, { signal: runSignal });
     console.log(`[OpenAI Service] Thread created with ID: ${thread.id}`);
+    onProgress?.({ phase: "thread_created", message: "Thread created" });
 
     // Add a message with just the images to the thread
     console.log("[OpenAI Service] Adding message with images to thread");
     
-    // Add all images in a single message without any text
-    console.log(`[OpenAI Service] Creating message with ${fileIds.length} images`);
+    // Add all images in a single message, with text only to name their sides
+    console.log(`[OpenAI Service] Creating message with ${orderedFileIds.length} images`);
     
     // Create an array of image content objects
-    const imageContents = fileIds.map(fileId => ({
+    const imageContents = orderedFileIds.map(fileId => ({
       type: "image_file" as const,
       image_file: { file_id: fileId }
     }));
+    const sideLabel = describeSides(sides);
     
     // Send a single message with all images
     await openai.beta.threads.messages.create(thread.id, {
       role: "user",
-      content: imageContents
-    });
+      content: sideLabel ? [...imageContents, { type: "text" as const, text: sideLabel }] : imageContents
+    }, { signal: runSignal });
     console.log("[OpenAI Service] Message with images added to thread");
 
     // Run the assistant
     console.log(`[OpenAI Service] Starting assistant run with assistant ID: ${assistantId}`);
-    const run = await openai.beta.threads.runs.create(thread.id, {
+    run = await openai.beta.threads.runs.create(thread.id, {
       assistant_id: assistantId,
       //instructions: "Please analyze these images according to you knowledge base and provide a detailed JSON response with your findings.",
       response_format: { type: "json_object" },
-    });
+    }, { signal: runSignal });
     console.log(`[OpenAI Service] Run created with ID: ${run.id}`);
+    onProgress?.({ phase: "run_created", message: "Assistant run started", runStatus: run.status });
 
     // Poll for the run to complete
     console.log("[OpenAI Service] Polling for run completion");
-    let runStatus = await openai.beta.threads.runs.retrieve(thread.id, run.id);
+    let runStatus = await openai.beta.threads.runs.retrieve(thread.id, run.id, { signal: runSignal });
     console.log(`[OpenAI Service] Initial run status: ${runStatus.status}`);
+    onProgress?.({ phase: "run_status", message: `Run ${runStatus.status}`, runStatus: runStatus.status });
     
     let pollCount = 0;
-    while (runStatus.status !== "completed" && runStatus.status !== "failed") {
-      // Wait for 1 second before polling again
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      runStatus = await openai.beta.threads.runs.retrieve(thread.id, run.id);
+    let pollDelay = POLL_INITIAL_DELAY_MS;
+    while (!STOP_POLLING_STATUSES.includes(runStatus.status)) {
+      await sleep(pollDelay, runSignal);
+      if (runSignal.aborted) {
+        throw abortError(runSignal);
+      }
+      pollDelay = Math.min(pollDelay * POLL_BACKOFF_FACTOR, POLL_MAX_DELAY_MS);
+
+      const previousStatus = runStatus.status;
+      runStatus = await openai.beta.threads.runs.retrieve(thread.id, run.id, { signal: runSignal });
       pollCount++;
+
+      if (runStatus.status !== previousStatus) {
+        onProgress?.({ phase: "run_status", message: `Run ${runStatus.status}`, runStatus: runStatus.status });
+      }
       
       if (pollCount % 5 === 0) {
         console.log(`[OpenAI Service] Current run status: ${runStatus.status} (poll count: ${pollCount})`);
       }
-      
-      if (runStatus.status === "requires_action") {
-        console.log("[OpenAI Service] Run requires action, which is not expected in this flow");
-        throw new Error("The assistant requires additional input to complete the task");
-      }
     }
+    run = runStatus;
 
     console.log(`[OpenAI Service] Run completed with final status: ${runStatus.status}`);
 
-    if (runStatus.status === "failed") {
-      console.error(`[OpenAI Service] Run failed with error: ${runStatus.last_error?.message}`);
-      throw new Error(
-        runStatus.last_error?.message || 
-        "The assistant failed to process the images"
-      );
+    if (runStatus.status !== "completed") {
+      const error = runStatusError(runStatus);
+      console.error(`[OpenAI Service] Run ended as ${runStatus.status}: ${error.message}`);
+      throw error;
     }
 
     // Get the assistant's response
     console.log("[OpenAI Service] Retrieving assistant messages");
-    const messages = await openai.beta.threads.messages.list(thread.id);
+    onProgress?.({ phase: "retrieving", message: "Retrieving the assistant's response" });
+    const messages = await openai.beta.threads.messages.list(thread.id, {}, { signal: runSignal });
     console.log(`[OpenAI Service] Retrieved ${messages.data.length} messages`);
     
     // Find the last assistant message
@@ -143,7 +233,7 @@ export async function processImagesWithOpenAI(
     
     if (assistantMessages.length === 0) {
       console.error("[OpenAI Service] No assistant messages found");
-      throw new Error("No response received from the assistant");
+      throw new ExtractionError("No response received from the assistant", "no_response");
     }
 
     // Get the latest assistant message
@@ -165,8 +255,39 @@ export async function processImagesWithOpenAI(
       }
     }
 
-    // Clean up uploaded files
-    console.log("[OpenAI Service] Cleaning up uploaded files");
+    console.log("[OpenAI Service] Processing completed successfully");
+    return {
+      raw: rawResponse,
+      usage: runUsage(runStatus),
+    };
+  } catch (error: any) {
+    console.error("[OpenAI Service] Processing error:", error);
+    console.error(`[OpenAI Service] Error message: ${error.message}`);
+    if (error.stack) {
+      console.error(`[OpenAI Service] Error stack: ${error.stack}`);
+    }
+
+    // Stop a run that is still going so it does not keep spending tokens
+    if (thread && run && !TERMINAL_RUN_STATUSES.includes(run.status)) {
+      try {
+        console.log(`[OpenAI Service] Cancelling run ${run.id}`);
+        await openai.beta.threads.runs.cancel(thread.id, run.id);
+      } catch (cancelError) {
+        console.error(`[OpenAI Service] Failed to cancel run ${run.id}:`, cancelError);
+      }
+    }
+
+    // A failed run can still have spent tokens
+    return { ...toErrorResponse(error, runSignal), usage: runUsage(run) };
+  } finally {
+    clearTimeout(deadline);
+    signal?.removeEventListener("abort", forwardAbort);
+
+    // Clean up uploaded files whatever the outcome
+    if (fileIds.length > 0) {
+      console.log("[OpenAI Service] Cleaning up uploaded files");
+      onProgress?.({ phase: "cleanup", message: "Deleting uploaded files" });
+    }
     await Promise.all(
       fileIds.map(async (fileId, index) => {
         try {
@@ -178,20 +299,14 @@ export async function processImagesWithOpenAI(
         }
       })
     );
-
-    console.log("[OpenAI Service] Processing completed successfully");
-    return {
-      data: rawResponse,
-    };
-  } catch (error: any) {
-    console.error("[OpenAI Service] Processing error:", error);
-    console.error(`[OpenAI Service] Error message: ${error.message}`);
-    if (error.stack) {
-      console.error(`[OpenAI Service] Error stack: ${error.stack}`);
-    }
-    
-    return {
-      error: error.message || "An error occurred while processing with OpenAI",
-    };
   }
 }
+
+// OpenAI Assistants threads/runs flow exposed as an extraction provider
+export const assistantsProvider: ExtractionProvider = {
+  name: "assistants",
+  requires: ["apiKey", "assistantId"],
+  preprocessImages: true,
+  extract: ({ apiKey, assistantId, sides, files, signal, onProgress }) =>
+    processImagesWithOpenAI(apiKey, assistantId, files, { signal, onProgress, sides }),
+};
@@ -0,0 +1,184 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import swaggerUi from "swagger-ui-express";
+import { z, type ZodIssue } from "zod";
+import {
+  extendZodWithOpenApi,
+  OpenAPIRegistry,
+  OpenApiGeneratorV31,
+  type ResponseConfig,
+} from "@asteasolutions/zod-to-openapi";
+import { api, type ApiRoute } from "@shared/api";
+import { errorResponseSchema } from "@shared/schema";
+
+extendZodWithOpenApi(z);
+
+// Express ":id" segments become OpenAPI "{id}" ones
+function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, "{$1}");
+}
+
+function describeAccess(route: ApiRoute): string | undefined {
+  if (!route.permission) return undefined;
+  return route.auth === "token"
+    ? `Requires a token with the \`${route.permission}\` scope.`
+    : `Requires the \`${route.permission}\` permission.`;
+}
+
+function toResponseConfig({ description, schema, contentType }: ApiRoute["responses"][number]): ResponseConfig {
+  if (!schema && !contentType) {
+    return { description };
+  }
+  const type = contentType ?? "application/json";
+  return {
+    description,
+    content: {
+      [type]: { schema: schema ?? z.string().openapi({ format: "binary" }) },
+    },
+  };
+}
+
+const errorResponse = (description: string): ResponseConfig => ({
+  description,
+  content: { "application/json": { schema: errorResponseSchema } },
+});
+
+export function buildOpenApiDocument() {
+  const registry = new OpenAPIRegistry();
+  registry.registerComponent("securitySchemes", "session", {
+    type: "apiKey",
+    in: "cookie",
+    name: "connect.sid",
+    description: "Session cookie set by /api/login",
+  });
+  registry.registerComponent("securitySchemes", "bearer", {
+    type: "http",
+    scheme: "bearer",
+    description: "Personal API token created on the API tokens page",
+  });
+
+  for (const [operationId, route] of Object.entries(api) as [string, ApiRoute][]) {
+    const responses: Record<number, ResponseConfig> = {};
+    for (const [status, response] of Object.entries(route.responses)) {
+      responses[Number(status)] =
+        Number(status) >= 400 && !response.schema
+          ? errorResponse(response.description)
+          : toResponseConfig(response);
+    }
+    // Errors every route of its kind can answer with
+    if (route.params || route.query || route.headers || route.body || route.form) {
+      responses[400] ??= errorResponse("The request is invalid");
+    }
+    if (route.auth !== "none") {
+      responses[401] ??= errorResponse("Not authenticated");
+    }
+    if (route.permission) {
+      responses[403] ??= errorResponse("Not allowed");
+    }
+
+    const body = route.body
+      ? { content: { "application/json": { schema: route.body } } }
+      : route.form
+        ? {
+            content: {
+              "multipart/form-data": {
+                schema: route.form.extend({
+                  files: z.array(z.string().openapi({ format: "binary" })),
+                }),
+              },
+            },
+          }
+        : undefined;
+
+    registry.registerPath({
+      method: route.method,
+      path: toOpenApiPath(route.path),
+      operationId,
+      summary: route.summary,
+      description: describeAccess(route),
+      tags: [route.tag],
+      security:
+        route.auth === "session" ? [{ session: [] }] : route.auth === "token" ? [{ bearer: [] }] : [],
+      request: { params: route.params, query: route.query, headers: route.headers, body },
+      responses,
+    });
+  }
+
+  return new OpenApiGeneratorV31(registry.definitions).generateDocument({
+    openapi: "3.1.0",
+    info: {
+      title: "License extraction API",
+      version: "1.0.0",
+      description:
+        "The browser app uses the session routes; other systems use /api/v1 with an API token.",
+    },
+  });
+}
+
+function formatIssue(issue: ZodIssue): string {
+  return issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+}
+
+// Validate and parse a request against its contract. Goes after the auth and
+// upload middleware so unauthenticated requests get a 401, not a 400.
+export function validateRequest(route: ApiRoute) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const parts = [
+      ["params", route.params],
+      ["query", route.query],
+      ["body", route.body ?? route.form],
+    ] as const;
+    for (const [part, schema] of parts) {
+      if (!schema) continue;
+      const parsed = schema.safeParse(req[part]);
+      if (!parsed.success) {
+        return res.status(400).json({ error: formatIssue(parsed.error.issues[0]) });
+      }
+      req[part] = parsed.data;
+    }
+    // Headers are only checked; Express keeps reading them from the raw request
+    if (route.headers) {
+      const parsed = route.headers.safeParse(req.headers);
+      if (!parsed.success) {
+        return res.status(400).json({ error: formatIssue(parsed.error.issues[0]) });
+      }
+    }
+    next();
+  };
+}
+
+// Every /api route registered on the app and every contract must match, so
+// the published document cannot drift from what is served
+function checkRoutesDocumented(app: Express) {
+  const registered = new Set<string>();
+  for (const layer of app._router.stack) {
+    if (!layer.route?.path?.startsWith?.("/api")) continue;
+    for (const method of Object.keys(layer.route.methods)) {
+      registered.add(`${method.toUpperCase()} ${layer.route.path}`);
+    }
+  }
+  const documented = new Set(
+    Object.values(api as Record<string, ApiRoute>).map((route) => `${route.method.toUpperCase()} ${route.path}`),
+  );
+
+  const undocumented = Array.from(registered).filter((route) => !documented.has(route));
+  const missing = Array.from(documented).filter((route) => !registered.has(route));
+  if (undocumented.length || missing.length) {
+    throw new Error(
+      `[OpenAPI] Routes and contracts differ. Without a contract: ${undocumented.join(", ") || "none"}. ` +
+        `Without a route: ${missing.join(", ") || "none"}`,
+    );
+  }
+}
+
+// Serve the document and an interactive reference, once every route is in place
+export function setupApiDocs(app: Express) {
+  const document = buildOpenApiDocument();
+
+  app.get(api.getOpenApiDocument.path, (_req, res) => {
+    res.status(200).json(document);
+  });
+  app.use("/api/docs", swaggerUi.serve, swaggerUi.setup(document));
+
+  checkRoutesDocumented(app);
+  console.log(`[OpenAPI] Documented ${Object.keys(document.paths ?? {}).length} paths`);
+}
@@ -0,0 +1,150 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import type { IStorage } from "./storage";
+
+// Images go to a scratch directory, and without DATABASE_URL storage is in
+// memory. Both are read when the modules load, so those are imported in before().
+const imageDir = mkdtempSync(path.join(tmpdir(), "org-isolation-"));
+process.env.IMAGE_DIR = imageDir;
+delete process.env.DATABASE_URL;
+
+let storage: IStorage;
+let saveImage: (buffer: Buffer) => Promise<string>;
+
+interface Member {
+  organizationId: number;
+  cookie: string;
+  token: string;
+}
+
+let server: Server;
+let baseUrl: string;
+
+async function signUp(name: string): Promise<Member> {
+  const res = await fetch(`${baseUrl}/api/register`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username: `${name}-admin`, password: "correct horse", organizationName: name }),
+  });
+  assert.equal(res.status, 201);
+  const cookie = res.headers.get("set-cookie")!.split(";")[0];
+  const { organizationId } = await res.json();
+
+  const tokenRes = await fetch(`${baseUrl}/api/tokens`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Cookie: cookie },
+    body: JSON.stringify({ name: "test", scopes: ["extractions:read"] }),
+  });
+  assert.equal(tokenRes.status, 201);
+  const { token } = await tokenRes.json();
+  return { organizationId, cookie, token };
+}
+
+// A completed extraction with one stored image, as a finished submission leaves it
+async function recordExtraction(member: Member): Promise<number> {
+  const image = Buffer.from("front of a license");
+  const sha256 = await saveImage(image);
+  const extraction = await storage.createExtraction(
+    {
+      organizationId: member.organizationId,
+      userId: null,
+      profileId: null,
+      jobId: null,
+      provider: "fixture",
+      assistantId: null,
+      model: null,
+      status: "completed",
+      quality: null,
+    },
+    [{ position: 0, fileName: "front.jpg", mimeType: "image/jpeg", size: image.length, sha256, side: "front" }],
+  );
+  await storage.saveExtractionResult({
+    extractionId: extraction.id,
+    documentType: "driver_license",
+    jurisdiction: "CA",
+    fields: { lastName: "Doe", licenseNumber: "D1234567" },
+    issues: [],
+  });
+  return extraction.id;
+}
+
+describe("organization isolation", () => {
+  let owner: Member;
+  let other: Member;
+  let extractionId: number;
+
+  before(async () => {
+    const express = (await import("express")).default;
+    const { setupAuth } = await import("./auth");
+    const { registerRoutes } = await import("./routes");
+    ({ storage } = await import("./storage"));
+    ({ saveImage } = await import("./image-store"));
+
+    const app = express();
+    app.use(express.json());
+    setupAuth(app);
+    server = await registerRoutes(app);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    owner = await signUp("owner-org");
+    other = await signUp("other-org");
+    extractionId = await recordExtraction(owner);
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(imageDir, { recursive: true, force: true });
+  });
+
+  test("storage only returns an extraction to its own organization", async () => {
+    assert.ok(await storage.getExtraction(owner.organizationId, extractionId));
+    assert.equal(await storage.getExtraction(other.organizationId, extractionId), undefined);
+  });
+
+  test("storage does not update another organization's extraction", async () => {
+    assert.equal(await storage.updateExtraction(other.organizationId, extractionId, { status: "failed" }), undefined);
+    await storage.setCorrectedImages(other.organizationId, extractionId, ["0".repeat(64)]);
+
+    const extraction = await storage.getExtraction(owner.organizationId, extractionId);
+    assert.equal(extraction?.status, "completed");
+    assert.equal(extraction?.images[0].correctedSha256, null);
+  });
+
+  test("GET /api/extractions/:id", async () => {
+    const url = `${baseUrl}/api/extractions/${extractionId}`;
+    assert.equal((await fetch(url, { headers: { Cookie: owner.cookie } })).status, 200);
+    assert.equal((await fetch(url, { headers: { Cookie: other.cookie } })).status, 404);
+  });
+
+  test("GET /api/extractions/:id/images/:position", async () => {
+    const url = `${baseUrl}/api/extractions/${extractionId}/images/0`;
+    assert.equal((await fetch(url, { headers: { Cookie: owner.cookie } })).status, 200);
+    assert.equal((await fetch(url, { headers: { Cookie: other.cookie } })).status, 404);
+  });
+
+  test("GET /api/v1/extractions/:id/result", async () => {
+    const url = `${baseUrl}/api/v1/extractions/${extractionId}/result`;
+    const read = (token: string) => fetch(url, { headers: { Authorization: `Bearer ${token}` } });
+    assert.equal((await read(owner.token)).status, 200);
+    assert.equal((await read(other.token)).status, 404);
+  });
+
+  test("PATCH /api/extractions/:id/fields", async () => {
+    const res = await fetch(`${baseUrl}/api/extractions/${extractionId}/fields`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json", Cookie: other.cookie },
+      body: JSON.stringify({ lastName: "Mallory" }),
+    });
+    assert.equal(res.status, 404);
+
+    const extraction = await storage.getExtraction(owner.organizationId, extractionId);
+    assert.equal(extraction?.result?.fields.lastName, "Doe");
+    assert.equal(extraction?.result?.correctedBy, null);
+  });
+});
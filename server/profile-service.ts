@@ -0,0 +1,100 @@
+import type {
+  ExtractionProfile,
+  InsertExtractionProfile,
+  ProfileInput,
+  ProfileSummary,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { decryptSecret, encryptSecret } from "./secret-box";
+import { getExtractionProvider } from "./extraction-provider";
+
+export function toProfileSummary({ encryptedApiKey, ...profile }: ExtractionProfile): ProfileSummary {
+  return { ...profile, hasApiKey: Boolean(encryptedApiKey) };
+}
+
+// Encrypted key and display hint for a new API key
+function encryptApiKey(apiKey: string): Pick<InsertExtractionProfile, "encryptedApiKey" | "apiKeyHint"> {
+  return {
+    encryptedApiKey: encryptSecret(apiKey),
+    apiKeyHint: apiKey.slice(-4),
+  };
+}
+
+type ProfileRequirements = Pick<ExtractionProfile, "provider" | "assistantId"> & {
+  hasApiKey: boolean;
+};
+
+// Returns an error message when the profile lacks what its provider requires
+function missingSetting(profile: ProfileRequirements): string | null {
+  const provider = getExtractionProvider(profile.provider);
+  if (!provider) return `Unknown extraction provider: ${profile.provider}`;
+  if (provider.requires.includes("apiKey") && !profile.hasApiKey) {
+    return "API key is required";
+  }
+  if (provider.requires.includes("assistantId") && !profile.assistantId) {
+    return "Assistant ID is required";
+  }
+  return null;
+}
+
+export async function createProfile(
+  organizationId: number,
+  input: ProfileInput,
+  userId: number
+): Promise<ProfileSummary | { error: string }> {
+  const error = missingSetting({
+    provider: input.provider,
+    assistantId: input.assistantId ?? null,
+    hasApiKey: Boolean(input.apiKey),
+  });
+  if (error) return { error };
+  if (await storage.getProfileByName(organizationId, input.name)) {
+    return { error: "A profile with this name already exists" };
+  }
+
+  const { apiKey, ...settings } = input;
+  const profile = await storage.createProfile({
+    ...settings,
+    ...(apiKey ? encryptApiKey(apiKey) : {}),
+    organizationId,
+    createdBy: userId,
+  });
+  console.log(`[Profiles] Created profile ${profile.id} (${profile.name})`);
+  return toProfileSummary(profile);
+}
+
+export async function updateProfile(
+  organizationId: number,
+  id: number,
+  input: Partial<ProfileInput>
+): Promise<ProfileSummary | { error: string } | undefined> {
+  const existing = await storage.getProfile(organizationId, id);
+  if (!existing) return undefined;
+
+  const { apiKey, ...settings } = input;
+  const error = missingSetting({
+    provider: settings.provider ?? existing.provider,
+    assistantId: settings.assistantId !== undefined ? settings.assistantId : existing.assistantId,
+    hasApiKey: Boolean(apiKey) || Boolean(existing.encryptedApiKey),
+  });
+  if (error) return { error };
+  if (settings.name && settings.name !== existing.name && (await storage.getProfileByName(organizationId, settings.name))) {
+    return { error: "A profile with this name already exists" };
+  }
+
+  const profile = await storage.updateProfile(organizationId, id, {
+    ...settings,
+    ...(apiKey ? encryptApiKey(apiKey) : {}),
+  });
+  console.log(`[Profiles] Updated profile ${id}`);
+  return profile && toProfileSummary(profile);
+}
+
+// Decrypted settings of a profile, for use on the server only
+export function getProfileCredentials(profile: ExtractionProfile) {
+  return {
+    apiKey: profile.encryptedApiKey ? decryptSecret(profile.encryptedApiKey) : "",
+    assistantId: profile.assistantId ?? "",
+    model: profile.model ?? undefined,
+  };
+}
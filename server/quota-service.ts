@@ -0,0 +1,77 @@
+import type { QuotaUsage, Usage } from "@shared/schema";
+import { storage } from "./storage";
+import { submissionRateLimits } from "./rate-limit";
+
+export interface QuotaExceeded {
+  error: string;
+  status: 429;
+  // Seconds until the quota resets, sent as Retry-After
+  retryAfter: number;
+}
+
+// Quota periods follow UTC days and calendar months
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function periods(now: Date) {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const day = now.getUTCDate();
+  return {
+    daily: { from: toDay(now), resetsAt: new Date(Date.UTC(year, month, day + 1)) },
+    monthly: { from: toDay(new Date(Date.UTC(year, month, 1))), resetsAt: new Date(Date.UTC(year, month + 1, 1)) },
+  };
+}
+
+async function getQuotaUsage(organizationId: number, now: Date): Promise<{ daily: QuotaUsage; monthly: QuotaUsage }> {
+  const settings = await storage.getSettings(organizationId);
+  const { daily, monthly } = periods(now);
+  return {
+    daily: {
+      used: await storage.countSubmissions(organizationId, daily.from),
+      limit: settings.dailySubmissionQuota,
+      resetsAt: daily.resetsAt.toISOString(),
+    },
+    monthly: {
+      used: await storage.countSubmissions(organizationId, monthly.from),
+      limit: settings.monthlySubmissionQuota,
+      resetsAt: monthly.resetsAt.toISOString(),
+    },
+  };
+}
+
+export async function getUsage(organizationId: number, now = new Date()): Promise<Usage> {
+  return { ...(await getQuotaUsage(organizationId, now)), rateLimits: submissionRateLimits };
+}
+
+// Count one extraction run against the organization's quotas, unless one of
+// them is used up. Reused results are free and never reach this. The check and
+// the count are one storage operation, so concurrent submissions cannot both
+// take the last unit of a quota.
+export async function consumeSubmissionQuota(
+  organizationId: number,
+  now = new Date()
+): Promise<QuotaExceeded | undefined> {
+  const settings = await storage.getSettings(organizationId);
+  const { daily, monthly } = periods(now);
+  const limits = [
+    { fromDay: daily.from, limit: settings.dailySubmissionQuota },
+    { fromDay: monthly.from, limit: settings.monthlySubmissionQuota },
+  ].filter((quota): quota is { fromDay: string; limit: number } => quota.limit !== null);
+
+  if (await storage.incrementSubmissionCount(organizationId, toDay(now), limits)) {
+    return undefined;
+  }
+
+  // Only to tell which quota refused the submission
+  const usage = await getQuotaUsage(organizationId, now);
+  const period = usage.daily.limit !== null && usage.daily.used >= usage.daily.limit ? "daily" : "monthly";
+  const { limit, resetsAt } = usage[period];
+  console.log(`[Quota] Organization ${organizationId} used its ${period} quota of ${limit}`);
+  return {
+    error: `The ${period} submission quota of ${limit} is used up`,
+    status: 429,
+    retryAfter: Math.ceil((Date.parse(resetsAt) - now.getTime()) / 1000),
+  };
+}
@@ -0,0 +1,68 @@
+import type { Request, Response, NextFunction } from "express";
+
+const WINDOW_MS = 60 * 1000;
+
+// Limits are read once at startup; an unset variable keeps the default
+function readLimit(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === "") return fallback;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw new Error(`${name} must be a whole number of requests per minute`);
+  }
+  return limit;
+}
+
+// Submissions allowed per minute from one client IP, one signed-in user and
+// one API token. 0 turns a limit off.
+export const submissionRateLimits = {
+  perIp: readLimit("RATE_LIMIT_PER_IP", 30),
+  perUser: readLimit("RATE_LIMIT_PER_USER", 20),
+  perToken: readLimit("RATE_LIMIT_PER_TOKEN", 60),
+};
+
+// Fixed one-minute windows, counted in memory by this process
+const windows = new Map<string, { count: number; resetAt: number }>();
+let nextPruneAt = 0;
+
+// Count a request and return the seconds until its window resets when it
+// went over the limit
+function hit(key: string, limit: number, now: number): number | undefined {
+  if (now >= nextPruneAt) {
+    windows.forEach((window, windowKey) => {
+      if (window.resetAt <= now) windows.delete(windowKey);
+    });
+    nextPruneAt = now + WINDOW_MS;
+  }
+
+  let window = windows.get(key);
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + WINDOW_MS };
+    windows.set(key, window);
+  }
+  window.count += 1;
+  return window.count > limit ? Math.ceil((window.resetAt - now) / 1000) : undefined;
+}
+
+// Limit submissions per IP and per user or API token. Goes after the auth
+// middleware, and before the upload so refused requests are not buffered.
+export function limitSubmissions(req: Request, res: Response, next: NextFunction) {
+  const now = Date.now();
+  const limits: [string, number][] = [[`ip:${req.ip}`, submissionRateLimits.perIp]];
+  if (req.apiTokenId !== undefined) {
+    limits.push([`token:${req.apiTokenId}`, submissionRateLimits.perToken]);
+  } else if (req.user) {
+    limits.push([`user:${req.user.id}`, submissionRateLimits.perUser]);
+  }
+
+  for (const [key, limit] of limits) {
+    if (limit === 0) continue;
+    const retryAfter = hit(key, limit, now);
+    if (retryAfter !== undefined) {
+      console.log(`[Rate Limit] Refused a submission from ${key}`);
+      res.setHeader("Retry-After", String(retryAfter));
+      return res.status(429).json({ error: `Too many submissions, try again in ${retryAfter} seconds` });
+    }
+  }
+  next();
+}
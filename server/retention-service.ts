@@ -0,0 +1,54 @@
+import { storage } from "./storage";
+import { deleteImage, withImageLock } from "./image-store";
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Delete an organization's extractions older than its retention period, along
+// with image files no remaining extraction refers to. Returns how many were deleted.
+export async function purgeExpiredExtractions(
+  organizationId: number,
+  now = new Date()
+): Promise<number> {
+  const { retentionDays } = await storage.getSettings(organizationId);
+  if (retentionDays === null) return 0;
+
+  const cutoff = new Date(now.getTime() - retentionDays * DAY_MS);
+  const { deleted, images } = await storage.deleteExtractionsBefore(organizationId, cutoff);
+
+  // The same image can belong to several extractions, so a file is only
+  // removed once nothing references it. The check and the removal hold the
+  // image lock, so an extraction storing the same bytes meanwhile keeps them.
+  const sha256s = images.flatMap((image) =>
+    image.correctedSha256 ? [image.sha256, image.correctedSha256] : [image.sha256]
+  );
+  for (const sha256 of Array.from(new Set(sha256s))) {
+    await withImageLock(async () => {
+      if (!(await storage.isImageReferenced(sha256))) {
+        await deleteImage(sha256);
+      }
+    });
+  }
+
+  if (deleted > 0) {
+    console.log(
+      `[Retention] Deleted ${deleted} extractions of organization ${organizationId} created before ${cutoff.toISOString()}`
+    );
+  }
+  return deleted;
+}
+
+// Purge every organization once at startup and then every hour
+export function startRetentionSchedule(): void {
+  const run = async () => {
+    try {
+      for (const organization of await storage.listOrganizations()) {
+        await purgeExpiredExtractions(organization.id);
+      }
+    } catch (error) {
+      console.error("[Retention] Failed to purge expired extractions:", error);
+    }
+  };
+  run();
+  setInterval(run, PURGE_INTERVAL_MS).unref();
+}
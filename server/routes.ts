@@ -2,7 +2,53 @@ import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import multer from "multer";
-import { processImagesWithOpenAI } from "./openai-service";
+import {
+  getExtractionProvider,
+  type ExtractionProvider,
+  type ExtractionRequest,
+} from "./extraction-provider";
+import { correctExtraction, toResultDownload } from "./extraction-history";
+import { startJob, cancelJob, isJobFinished, processImages, subscribeToJob } from "./job-service";
+import { cancelBatch, createBatch, exportBatchResults, isZipFile, retryBatch } from "./batch-service";
+import { readImage } from "./image-store";
+import {
+  can,
+  hashPassword,
+  requireApiToken,
+  requireAuth,
+  requirePermission,
+  toPublicUser,
+} from "./auth";
+import { createApiToken, revokeApiToken, toApiTokenSummary } from "./api-token-service";
+import { purgeExpiredExtractions } from "./retention-service";
+import { getUsage } from "./quota-service";
+import { getCostReport } from "./cost-service";
+import { limitSubmissions } from "./rate-limit";
+import { assessImages, checkSubmissionQuality } from "./image-quality";
+import { convertHeicImages } from "./heic-decoder";
+import { setupApiDocs, validateRequest } from "./openapi";
+import { checkWebhookUrl, createWebhook, redeliverWebhook, toWebhookSummary } from "./webhook-service";
+import {
+  createProfile,
+  getProfileCredentials,
+  toProfileSummary,
+  updateProfile,
+} from "./profile-service";
+import { api } from "@shared/api";
+import type {
+  AppSettings,
+  CostReportQuery,
+  CreateApiToken,
+  CreateMember,
+  DocumentType,
+  DriverLicenseExtraction,
+  ExtractionListQuery,
+  ImageQuality,
+  ProfileInput,
+  ProgressEvent,
+  UpdateUserRole,
+  WebhookInput,
+} from "@shared/schema";
 
 // Extend the Express Request interface to support multer's req.files
 // Note: We're not overriding the original definition, just adding a custom property
@@ -30,59 +76,315 @@ const upload = multer({
   },
 });
 
+// Batches take ZIP archives of scans as well as images, so far larger
+// uploads. The limit holds for the whole request, not for each file.
+const MAX_BATCH_UPLOAD_BYTES = 200 * 1024 * 1024;
+
+const batchUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_BATCH_UPLOAD_BYTES,
+    files: 1000,
+  },
+  fileFilter: (_req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+    if (!file.mimetype.startsWith("image/") && !isZipFile(file)) {
+      console.log(`[Routes-Multer] Rejected batch file ${file.originalname}: not an image or ZIP archive`);
+      return cb(new Error("Only image files and ZIP archives are allowed"));
+    }
+    cb(null, true);
+  },
+});
+
+// Refuse a batch upload before its body is read when it is larger than a
+// batch may be. Node reads no more of the body than Content-Length states.
+function limitBatchUpload(req: Request, res: Response, next: NextFunction) {
+  const length = Number(req.headers["content-length"]);
+  if (!req.headers["content-length"] || !Number.isFinite(length)) {
+    return res.status(411).json({ error: "A batch upload must state its Content-Length" });
+  }
+  if (length > MAX_BATCH_UPLOAD_BYTES) {
+    return res.status(413).json({ error: "A batch upload may be at most 200 MB" });
+  }
+  next();
+}
+
+// HEIC photos are converted before anything reads their pixels. One that
+// cannot be decoded fails the upload, since no provider could read it either.
+async function readHeicUploads(
+  uploads: Express.Multer.File[]
+): Promise<{ files: Express.Multer.File[] } | { error: string }> {
+  const { files, unreadable } = await convertHeicImages(uploads);
+  if (unreadable.length > 0) {
+    const error = unreadable.map(({ fileName, reason }) => `${fileName}: ${reason}`).join("; ");
+    console.log(`[Routes] Error: ${error}`);
+    return { error: `Could not read ${error}` };
+  }
+  return { files: files as Express.Multer.File[] };
+}
+
+type ExtractionForm =
+  | {
+      provider: ExtractionProvider;
+      request: Omit<ExtractionRequest, "signal">;
+      profileId?: number;
+    }
+  | { error: string; status?: number; quality?: ImageQuality[] };
+
+// Resolve the multipart fields shared by the job, batch and process-images
+// routes, already validated against their contract. With a profileId the
+// provider and credentials come from that saved profile; otherwise they are
+// read from the form itself. Batches check quality per document instead.
+async function readExtractionForm(
+  req: Request,
+  { checkQuality = true, convertHeic = true }: { checkQuality?: boolean; convertHeic?: boolean } = {}
+): Promise<ExtractionForm> {
+  let files = req.files as Express.Multer.File[];
+  console.log(`[Routes] Files received: ${files?.length || 0}`);
+  if (files?.length) {
+    files.forEach((file, index) => {
+      console.log(`[Routes] File ${index + 1}: ${file.originalname}, ${file.size} bytes, ${file.mimetype}`);
+    });
+  }
+
+  let providerName = req.body.provider as string | undefined;
+  let apiKey = req.body.apiKey as string;
+  let assistantId = req.body.assistantId as string;
+  let model = req.body.model as string | undefined;
+  let documentType: DocumentType | undefined;
+
+  const profileId = req.body.profileId as number | undefined;
+  if (profileId !== undefined) {
+    const profile = await storage.getProfile(req.user!.organizationId, profileId);
+    if (!profile) {
+      console.log(`[Routes] Error: Unknown extraction profile ${req.body.profileId}`);
+      return { error: "Unknown extraction profile" };
+    }
+    console.log(`[Routes] Using extraction profile ${profile.id} (${profile.name})`);
+
+    try {
+      ({ apiKey, assistantId, model } = getProfileCredentials(profile));
+    } catch (error: any) {
+      console.error(`[Routes] Could not decrypt the API key of profile ${profile.id}:`, error);
+      return { error: error.message || "Could not read the profile credentials", status: 500 };
+    }
+    providerName = profile.provider;
+    documentType = profile.documentType;
+  }
+
+  console.log(`[Routes] API Key provided: ${apiKey ? "Yes (masked)" : "No"}`);
+  console.log(`[Routes] Assistant ID provided: ${assistantId ? "Yes" : "No"}`);
+
+  const provider = getExtractionProvider(providerName);
+  if (!provider) {
+    console.log(`[Routes] Error: Unknown extraction provider ${providerName}`);
+    return { error: `Unknown extraction provider: ${providerName}` };
+  }
+  console.log(`[Routes] Using extraction provider: ${provider.name}`);
+
+  if (provider.requires.includes("apiKey") && !apiKey) {
+    console.log("[Routes] Error: Missing API key");
+    return { error: "API key is required" };
+  }
+
+  if (provider.requires.includes("assistantId") && !assistantId) {
+    console.log("[Routes] Error: Missing Assistant ID");
+    return { error: "Assistant ID is required" };
+  }
+
+  if (!files || files.length === 0) {
+    console.log("[Routes] Error: No files uploaded");
+    return { error: "No image files were uploaded" };
+  }
+
+  if (convertHeic) {
+    const converted = await readHeicUploads(files);
+    if ("error" in converted) return converted;
+    files = converted.files;
+  }
+
+  // Checked before any model call, so unusable photos cost nothing
+  let quality: ImageQuality[] | undefined;
+  if (checkQuality) {
+    const checked = await checkSubmissionQuality(req.user!.organizationId, files);
+    if ("error" in checked) {
+      console.log(`[Routes] Error: ${checked.error}`);
+      return checked;
+    }
+    quality = checked.quality;
+  }
+
+  return {
+    provider,
+    request: { apiKey, assistantId, model, documentType, files, quality },
+    profileId,
+  };
+}
+
+// Jobs, batches and extractions of other users are reported as not found
+async function findOwnJob(req: Request) {
+  const job = await storage.getJob(req.params.id);
+  return job && job.userId === req.user!.id ? job : undefined;
+}
+
+async function findOwnBatch(req: Request) {
+  const batch = await storage.getBatch(req.params.id);
+  return batch && batch.userId === req.user!.id ? batch : undefined;
+}
+
+// Reviewers and admins see every extraction of their organization, operators
+// only their own
+async function findVisibleExtraction(req: Request) {
+  const extraction = await storage.getExtraction(req.user!.organizationId, Number(req.params.id));
+  if (!extraction) return undefined;
+  return extraction.userId === req.user!.id || can(req.user, "extractions:read_all")
+    ? extraction
+    : undefined;
+}
+
+// Handlers shared by the session routes and the token-authenticated /api/v1 ones
+
+async function createJob(req: Request, res: Response) {
+  console.log(`[Routes] Received request to ${req.path}`);
+
+  try {
+    const form = await readExtractionForm(req);
+    if ("error" in form) {
+      return res.status(form.status ?? 400).json({ error: form.error, quality: form.quality });
+    }
+
+    const started = await startJob(
+      form.provider,
+      form.request,
+      {
+        organizationId: req.user!.organizationId,
+        userId: req.user!.id,
+        profileId: form.profileId,
+      },
+      req.get("Idempotency-Key"),
+    );
+    if ("error" in started) {
+      if (started.retryAfter !== undefined) {
+        res.setHeader("Retry-After", String(started.retryAfter));
+      }
+      return res.status(started.status).json({ error: started.error });
+    }
+    if (started.replayed) {
+      res.setHeader("Idempotent-Replayed", "true");
+      return res.status(200).json(started.job);
+    }
+    return res.status(202).json(started.job);
+  } catch (error: any) {
+    console.error("[Routes] Unexpected error creating job:", error);
+    return res.status(500).json({
+      error: error.message || "An error occurred while creating the job",
+    });
+  }
+}
+
+async function getJob(req: Request, res: Response) {
+  const job = await findOwnJob(req);
+  if (!job) {
+    return res.status(404).json({ error: "Job not found" });
+  }
+  return res.status(200).json(job);
+}
+
+async function listExtractions(req: Request, res: Response) {
+  try {
+    const query = req.query as unknown as ExtractionListQuery;
+    const userId = can(req.user, "extractions:read_all") ? undefined : req.user!.id;
+    const page = await storage.listExtractions(req.user!.organizationId, { ...query, userId });
+    return res.status(200).json(page);
+  } catch (error: any) {
+    console.error("[Routes] Error listing extractions:", error);
+    return res.status(500).json({
+      error: error.message || "An error occurred while loading the history",
+    });
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   console.log("[Routes] Registering API routes");
   
-  // Process images with OpenAI Assistant
+  // Score photos locally so the user can retake them before submitting
   app.post(
-    "/api/process-images",
+    api.checkImageQuality.path,
+    requirePermission("extractions:submit"),
     upload.array("files"),
+    validateRequest(api.checkImageQuality),
+    async (req, res) => {
+      const uploads = req.files as Express.Multer.File[];
+      if (!uploads || uploads.length === 0) {
+        return res.status(400).json({ error: "No image files were uploaded" });
+      }
+      try {
+        const converted = await readHeicUploads(uploads);
+        if ("error" in converted) {
+          return res.status(400).json({ error: converted.error });
+        }
+        return res.status(200).json(await assessImages(converted.files));
+      } catch (error: any) {
+        console.error("[Routes] Error checking image quality:", error);
+        return res.status(500).json({
+          error: error.message || "An error occurred while checking the images",
+        });
+      }
+    }
+  );
+
+  // Process images with the selected extraction provider, as a single
+  // document; jobs are the way to submit several at once
+  app.post(
+    api.processImages.path,
+    requirePermission("extractions:submit"),
+    limitSubmissions,
+    upload.array("files"),
+    validateRequest(api.processImages),
     async (req, res) => {
       console.log("[Routes] Received request to /api/process-images");
       console.log(`[Routes] Request body keys: ${Object.keys(req.body).join(", ")}`);
       
       try {
-        const files = req.files as Express.Multer.File[];
-        console.log(`[Routes] Files received: ${files?.length || 0}`);
-        if (files?.length) {
-          files.forEach((file, index) => {
-            console.log(`[Routes] File ${index + 1}: ${file.originalname}, ${file.size} bytes, ${file.mimetype}`);
-          });
-        }
-        
-        const apiKey = req.body.apiKey as string;
-        const assistantId = req.body.assistantId as string;
-        console.log(`[Routes] API Key provided: ${apiKey ? "Yes (masked)" : "No"}`);
-        console.log(`[Routes] Assistant ID provided: ${assistantId ? "Yes" : "No"}`);
-
-        if (!apiKey || !assistantId) {
-          console.log("[Routes] Error: Missing API key or Assistant ID");
-          return res.status(400).json({
-            error: "API key and Assistant ID are required",
-          });
+        const form = await readExtractionForm(req);
+        if ("error" in form) {
+          return res.status(form.status ?? 400).json({ error: form.error, quality: form.quality });
         }
 
-        if (!files || files.length === 0) {
-          console.log("[Routes] Error: No files uploaded");
-          return res.status(400).json({
-            error: "No image files were uploaded",
-          });
-        }
+        // Stop the provider when the client goes away before the response is sent
+        const controller = new AbortController();
+        res.on("close", () => {
+          if (!res.writableFinished) {
+            console.log("[Routes] Client disconnected, aborting extraction");
+            controller.abort("client_disconnected");
+          }
+        });
 
-        console.log("[Routes] Processing images with OpenAI...");
-        const result = await processImagesWithOpenAI(
-          apiKey,
-          assistantId,
-          files
+        const processed = await processImages(
+          form.provider,
+          form.request,
+          {
+            organizationId: req.user!.organizationId,
+            userId: req.user!.id,
+            profileId: form.profileId,
+          },
+          { signal: controller.signal, idempotencyKey: req.get("Idempotency-Key") },
         );
-
-        console.log(`[Routes] Processing completed with ${result.error ? 'error' : 'success'}`);
-        if (result.error) {
-          console.log(`[Routes] Error from OpenAI service: ${result.error}`);
-        } else {
-          console.log(`[Routes] Response data received from OpenAI service`);
+        if ("error" in processed) {
+          if (processed.retryAfter !== undefined) {
+            res.setHeader("Retry-After", String(processed.retryAfter));
+          }
+          return res.status(processed.status).json({ error: processed.error });
+        }
+        if (processed.aborted) {
+          console.log("[Routes] Extraction aborted, not sending a response");
+          return;
         }
+        const result = processed.response;
+        console.log(`[Routes] Processing completed with ${result.error ? 'error' : 'success'}`);
 
+        if (processed.replayed) {
+          res.setHeader("Idempotent-Replayed", "true");
+        }
         return res.status(200).json(result);
       } catch (error: any) {
         console.error("[Routes] Unexpected error processing images:", error);
@@ -93,6 +395,610 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
+  // Start an extraction job and return its id without waiting for the result
+  app.post(
+    api.createJob.path,
+    requirePermission("extractions:submit"),
+    limitSubmissions,
+    upload.array("files"),
+    validateRequest(api.createJob),
+    createJob
+  );
+
+  // Job status, timestamps and, once finished, the result
+  app.get(api.getJob.path, requireAuth, validateRequest(api.getJob), getJob);
+
+  // Stream a job's progress as Server-Sent Events. Events recorded before
+  // the client connected are replayed first, so reconnecting is safe.
+  app.get(api.streamJobEvents.path, requireAuth, validateRequest(api.streamJobEvents), async (req, res) => {
+    const job = await findOwnJob(req);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    console.log(`[Routes] Client subscribed to progress of job ${job.id}`);
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    const send = (event: ProgressEvent) => {
+      res.write(`event: progress\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+    const finish = () => {
+      res.write("event: done\ndata: {}\n\n");
+      res.end();
+    };
+
+    job.progress.forEach(send);
+    if (isJobFinished(job)) {
+      return finish();
+    }
+
+    const unsubscribe = subscribeToJob(job.id, (event) => {
+      send(event);
+      if (event.phase === "completed" || event.phase === "failed" || event.phase === "cancelled") {
+        unsubscribe();
+        finish();
+      }
+    });
+    res.on("close", () => {
+      console.log(`[Routes] Client unsubscribed from progress of job ${job.id}`);
+      unsubscribe();
+    });
+  });
+
+  // Cancel a job, including its OpenAI run if one is in progress
+  app.delete(api.cancelJob.path, requireAuth, validateRequest(api.cancelJob), async (req, res) => {
+    console.log(`[Routes] Cancelling job ${req.params.id}`);
+    const job = (await findOwnJob(req)) && (await cancelJob(req.params.id));
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    return res.status(200).json(job);
+  });
+
+  // Start a batch: archives are unpacked and the images sorted into
+  // documents, which a pool of workers shared by all batches extracts
+  app.post(
+    api.createBatch.path,
+    requirePermission("extractions:submit"),
+    // An upload refused for its size does not count against the rate limit
+    limitBatchUpload,
+    limitSubmissions,
+    batchUpload.array("files"),
+    validateRequest(api.createBatch),
+    async (req, res) => {
+      try {
+        // Archives are unpacked and HEIC photos converted in the background
+        const form = await readExtractionForm(req, { checkQuality: false, convertHeic: false });
+        if ("error" in form) {
+          return res.status(form.status ?? 400).json({ error: form.error });
+        }
+
+        const { files, ...request } = form.request;
+        const created = await createBatch(
+          form.provider,
+          request,
+          {
+            organizationId: req.user!.organizationId,
+            userId: req.user!.id,
+            profileId: req.body.profileId as number,
+          },
+          files,
+        );
+        if ("error" in created) {
+          return res.status(created.status).json({ error: created.error });
+        }
+        return res.status(202).json(created.batch);
+      } catch (error: any) {
+        console.error("[Routes] Unexpected error creating batch:", error);
+        return res.status(500).json({
+          error: error.message || "An error occurred while creating the batch",
+        });
+      }
+    }
+  );
+
+  app.get(api.listBatches.path, requireAuth, validateRequest(api.listBatches), async (req, res) => {
+    return res.status(200).json(await storage.listBatches(req.user!.id));
+  });
+
+  app.get(api.getBatch.path, requireAuth, validateRequest(api.getBatch), async (req, res) => {
+    const batch = await findOwnBatch(req);
+    if (!batch) {
+      return res.status(404).json({ error: "Batch not found" });
+    }
+    return res.status(200).json(batch);
+  });
+
+  app.delete(api.cancelBatch.path, requireAuth, validateRequest(api.cancelBatch), async (req, res) => {
+    console.log(`[Routes] Cancelling batch ${req.params.id}`);
+    const batch = (await findOwnBatch(req)) && (await cancelBatch(req.params.id));
+    if (!batch) {
+      return res.status(404).json({ error: "Batch not found" });
+    }
+    return res.status(200).json(batch);
+  });
+
+  // Run failed documents again, all of them or the one in the path
+  const retryBatchDocuments = async (req: Request, res: Response) => {
+    if (!(await findOwnBatch(req))) {
+      return res.status(404).json({ error: "Batch not found" });
+    }
+    const index = req.params.index === undefined ? undefined : Number(req.params.index);
+    const retried = await retryBatch(req.params.id, index);
+    if ("error" in retried) {
+      return res.status(retried.status).json({ error: retried.error });
+    }
+    return res.status(200).json(retried.batch);
+  };
+  app.post(
+    api.retryBatch.path,
+    requirePermission("extractions:submit"),
+    validateRequest(api.retryBatch),
+    retryBatchDocuments
+  );
+  app.post(
+    api.retryBatchDocument.path,
+    requirePermission("extractions:submit"),
+    validateRequest(api.retryBatchDocument),
+    retryBatchDocuments
+  );
+
+  // The results of every document of a batch as one JSON download
+  app.get(
+    api.downloadBatchResults.path,
+    requireAuth,
+    validateRequest(api.downloadBatchResults),
+    async (req, res) => {
+      const batch = await findOwnBatch(req);
+      if (!batch) {
+        return res.status(404).json({ error: "Batch not found" });
+      }
+
+      res.setHeader("Content-Disposition", `attachment; filename="batch-${batch.id}.json"`);
+      return res.status(200).json(await exportBatchResults(req.user!.organizationId, batch));
+    }
+  );
+
+  // Past extractions, newest first, filtered by the query string
+  app.get(
+    api.listExtractions.path,
+    requireAuth,
+    validateRequest(api.listExtractions),
+    listExtractions
+  );
+
+  // One extraction with its images and parsed result
+  app.get(api.getExtraction.path, requireAuth, validateRequest(api.getExtraction), async (req, res) => {
+    const extraction = await findVisibleExtraction(req);
+    if (!extraction) {
+      return res.status(404).json({ error: "Extraction not found" });
+    }
+    return res.status(200).json(extraction);
+  });
+
+  // Replace the extracted fields with a reviewer's corrections
+  app.patch(
+    api.correctExtraction.path,
+    requirePermission("extractions:correct"),
+    validateRequest(api.correctExtraction),
+    async (req, res) => {
+      try {
+        const extraction = await correctExtraction(
+          req.user!.organizationId,
+          Number(req.params.id),
+          req.body as DriverLicenseExtraction,
+          req.user!.id,
+        );
+        if (!extraction) {
+          return res.status(404).json({ error: "Extraction result not found" });
+        }
+        return res.status(200).json(extraction);
+      } catch (error: any) {
+        console.error("[Routes] Error correcting extraction:", error);
+        return res.status(500).json({
+          error: error.message || "An error occurred while saving the corrections",
+        });
+      }
+    }
+  );
+
+  // The original bytes of one of an extraction's images
+  app.get(
+    api.getExtractionImage.path,
+    requireAuth,
+    validateRequest(api.getExtractionImage),
+    async (req, res) => {
+      const extraction = await findVisibleExtraction(req);
+      const image = extraction?.images.find(
+        (image) => image.position === Number(req.params.position),
+      );
+      const buffer = image && (await readImage(image.sha256));
+      if (!image || !buffer) {
+        return res.status(404).json({ error: "Image not found" });
+      }
+
+      res.setHeader("Content-Type", image.mimeType);
+      res.setHeader("Cache-Control", "private, max-age=86400, immutable");
+      return res.status(200).send(buffer);
+    }
+  );
+
+  app.get(
+    api.getCorrectedExtractionImage.path,
+    requireAuth,
+    validateRequest(api.getCorrectedExtractionImage),
+    async (req, res) => {
+      const extraction = await findVisibleExtraction(req);
+      const image = extraction?.images.find(
+        (image) => image.position === Number(req.params.position),
+      );
+      const buffer = image?.correctedSha256 && (await readImage(image.correctedSha256));
+      if (!buffer) {
+        return res.status(404).json({ error: "Image not found" });
+      }
+
+      // Corrected images are always re-encoded as JPEG
+      res.setHeader("Content-Type", "image/jpeg");
+      res.setHeader("Cache-Control", "private, max-age=86400, immutable");
+      return res.status(200).send(buffer);
+    }
+  );
+
+  // Saved extraction profiles, without their API keys
+  app.get(api.listProfiles.path, requireAuth, async (req, res) => {
+    const profiles = await storage.listProfiles(req.user!.organizationId);
+    return res.status(200).json(profiles.map(toProfileSummary));
+  });
+
+  app.post(
+    api.createProfile.path,
+    requirePermission("profiles:manage"),
+    validateRequest(api.createProfile),
+    async (req, res) => {
+      try {
+        const profile = await createProfile(req.user!.organizationId, req.body as ProfileInput, req.user!.id);
+        if ("error" in profile) {
+          return res.status(400).json({ error: profile.error });
+        }
+        return res.status(201).json(profile);
+      } catch (error: any) {
+        console.error("[Routes] Error creating profile:", error);
+        return res.status(500).json({
+          error: error.message || "An error occurred while saving the profile",
+        });
+      }
+    }
+  );
+
+  app.patch(
+    api.updateProfile.path,
+    requirePermission("profiles:manage"),
+    validateRequest(api.updateProfile),
+    async (req, res) => {
+      try {
+        const profile = await updateProfile(
+          req.user!.organizationId,
+          Number(req.params.id),
+          req.body as Partial<ProfileInput>,
+        );
+        if (!profile) {
+          return res.status(404).json({ error: "Profile not found" });
+        }
+        if ("error" in profile) {
+          return res.status(400).json({ error: profile.error });
+        }
+        return res.status(200).json(profile);
+      } catch (error: any) {
+        console.error("[Routes] Error updating profile:", error);
+        return res.status(500).json({
+          error: error.message || "An error occurred while saving the profile",
+        });
+      }
+    }
+  );
+
+  app.delete(
+    api.deleteProfile.path,
+    requirePermission("profiles:manage"),
+    validateRequest(api.deleteProfile),
+    async (req, res) => {
+      const deleted = await storage.deleteProfile(req.user!.organizationId, Number(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ error: "Profile not found" });
+      }
+      return res.sendStatus(204);
+    }
+  );
+
+  // The organization of the signed-in user
+  app.get(api.getOrganization.path, requireAuth, async (req, res) => {
+    const organization = await storage.getOrganization(req.user!.organizationId);
+    if (!organization) {
+      return res.status(404).json({ error: "Organization not found" });
+    }
+    return res.status(200).json(organization);
+  });
+
+  // Members of the admin's organization
+  app.get(api.listUsers.path, requirePermission("users:manage"), async (req, res) => {
+    const users = await storage.listUsers(req.user!.organizationId);
+    return res.status(200).json(users.map(toPublicUser));
+  });
+
+  app.post(
+    api.addUser.path,
+    requirePermission("users:manage"),
+    validateRequest(api.addUser),
+    async (req, res) => {
+      const input = req.body as CreateMember;
+      try {
+        if (await storage.getUserByUsername(input.username)) {
+          return res.status(409).json({ error: "Username already exists" });
+        }
+
+        const user = await storage.createUser(req.user!.organizationId, {
+          ...input,
+          password: await hashPassword(input.password),
+        });
+        console.log(`[Routes] User ${user.id} added to organization ${user.organizationId}`);
+        return res.status(201).json(toPublicUser(user));
+      } catch (error: any) {
+        console.error("[Routes] Error adding user:", error);
+        return res.status(500).json({
+          error: error.message || "An error occurred while adding the user",
+        });
+      }
+    }
+  );
+
+  app.patch(
+    api.updateUserRole.path,
+    requirePermission("users:manage"),
+    validateRequest(api.updateUserRole),
+    async (req, res) => {
+      const { role } = req.body as UpdateUserRole;
+      const organizationId = req.user!.organizationId;
+      const user = await storage.getUser(Number(req.params.id));
+      if (!user || user.organizationId !== organizationId) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      // Someone has to be able to hand out roles
+      if (user.role === "admin" && role !== "admin") {
+        const admins = (await storage.listUsers(organizationId)).filter((u) => u.role === "admin");
+        if (admins.length === 1) {
+          return res.status(400).json({ error: "The last admin cannot be demoted" });
+        }
+      }
+
+      const updated = await storage.updateUser(organizationId, user.id, { role });
+      console.log(`[Routes] User ${user.id} is now ${role}`);
+      return res.status(200).json(toPublicUser(updated!));
+    }
+  );
+
+  app.get(api.getSettings.path, requirePermission("settings:manage"), async (req, res) => {
+    return res.status(200).json(await storage.getSettings(req.user!.organizationId));
+  });
+
+  // Submissions counted against the organization's quotas, and the rate limits
+  app.get(api.getUsage.path, requirePermission("settings:manage"), async (req, res) => {
+    try {
+      return res.status(200).json(await getUsage(req.user!.organizationId));
+    } catch (error: any) {
+      console.error("[Routes] Error loading usage:", error);
+      return res.status(500).json({
+        error: error.message || "An error occurred while loading the usage",
+      });
+    }
+  });
+
+  // Token usage and estimated costs, rolled up for the cost dashboard
+  app.get(
+    api.getCostReport.path,
+    requirePermission("costs:read"),
+    validateRequest(api.getCostReport),
+    async (req, res) => {
+      try {
+        const query = req.query as CostReportQuery;
+        const report = await getCostReport(req.user!.organizationId, query);
+        if ("error" in report) {
+          return res.status(400).json({ error: report.error });
+        }
+        return res.status(200).json(report);
+      } catch (error: any) {
+        console.error("[Routes] Error building the cost report:", error);
+        return res.status(500).json({
+          error: error.message || "An error occurred while loading the costs",
+        });
+      }
+    }
+  );
+
+  app.put(
+    api.updateSettings.path,
+    requirePermission("settings:manage"),
+    validateRequest(api.updateSettings),
+    async (req, res) => {
+      try {
+        const settings = await storage.updateSettings(
+          req.user!.organizationId,
+          req.body as Partial<AppSettings>,
+        );
+        // A shorter retention period applies straight away
+        await purgeExpiredExtractions(req.user!.organizationId);
+        return res.status(200).json(settings);
+      } catch (error: any) {
+        console.error("[Routes] Error saving settings:", error);
+        return res.status(500).json({
+          error: error.message || "An error occurred while saving the settings",
+        });
+      }
+    }
+  );
+
+  // Personal API tokens of the signed-in user
+  app.get(api.listApiTokens.path, requireAuth, async (req, res) => {
+    const tokens = await storage.listApiTokens(req.user!.organizationId, req.user!.id);
+    return res.status(200).json(tokens.map(toApiTokenSummary));
+  });
+
+  app.post(api.createApiToken.path, requireAuth, validateRequest(api.createApiToken), async (req, res) => {
+    const token = await createApiToken(req.user!, req.body as CreateApiToken);
+    if ("error" in token) {
+      return res.status(403).json({ error: token.error });
+    }
+    return res.status(201).json(token);
+  });
+
+  app.delete(api.revokeApiToken.path, requireAuth, validateRequest(api.revokeApiToken), async (req, res) => {
+    const token = await revokeApiToken(req.user!, Number(req.params.id));
+    if (!token) {
+      return res.status(404).json({ error: "Token not found" });
+    }
+    return res.status(200).json(token);
+  });
+
+  // Endpoints of the organization that are pushed extraction events
+  app.get(api.listWebhooks.path, requirePermission("webhooks:manage"), async (req, res) => {
+    const webhooks = await storage.listWebhooks(req.user!.organizationId);
+    return res.status(200).json(webhooks.map(toWebhookSummary));
+  });
+
+  app.post(
+    api.createWebhook.path,
+    requirePermission("webhooks:manage"),
+    validateRequest(api.createWebhook),
+    async (req, res) => {
+      try {
+        const input = req.body as WebhookInput;
+        const urlError = await checkWebhookUrl(input.url);
+        if (urlError) {
+          return res.status(400).json({ error: urlError });
+        }
+
+        const webhook = await createWebhook(req.user!.organizationId, input, req.user!.id);
+        return res.status(201).json(webhook);
+      } catch (error: any) {
+        console.error("[Routes] Error creating webhook:", error);
+        return res.status(500).json({
+          error: error.message || "An error occurred while saving the webhook",
+        });
+      }
+    }
+  );
+
+  app.patch(
+    api.updateWebhook.path,
+    requirePermission("webhooks:manage"),
+    validateRequest(api.updateWebhook),
+    async (req, res) => {
+      const input = req.body as Partial<WebhookInput>;
+      const urlError = input.url === undefined ? undefined : await checkWebhookUrl(input.url);
+      if (urlError) {
+        return res.status(400).json({ error: urlError });
+      }
+
+      const webhook = await storage.updateWebhook(req.user!.organizationId, Number(req.params.id), input);
+      if (!webhook) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+      return res.status(200).json(toWebhookSummary(webhook));
+    }
+  );
+
+  app.delete(
+    api.deleteWebhook.path,
+    requirePermission("webhooks:manage"),
+    validateRequest(api.deleteWebhook),
+    async (req, res) => {
+      const deleted = await storage.deleteWebhook(req.user!.organizationId, Number(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+      return res.sendStatus(204);
+    }
+  );
+
+  // Recent deliveries of a webhook, newest first
+  app.get(
+    api.listWebhookDeliveries.path,
+    requirePermission("webhooks:manage"),
+    validateRequest(api.listWebhookDeliveries),
+    async (req, res) => {
+      const organizationId = req.user!.organizationId;
+      const webhook = await storage.getWebhook(organizationId, Number(req.params.id));
+      if (!webhook) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+      return res.status(200).json(await storage.listWebhookDeliveries(organizationId, webhook.id, 50));
+    }
+  );
+
+  app.post(
+    api.redeliverWebhook.path,
+    requirePermission("webhooks:manage"),
+    validateRequest(api.redeliverWebhook),
+    async (req, res) => {
+      const delivery = await redeliverWebhook(
+        req.user!.organizationId,
+        Number(req.params.id),
+        Number(req.params.deliveryId),
+      );
+      if (!delivery) {
+        return res.status(404).json({ error: "Delivery not found" });
+      }
+      return res.status(202).json(delivery);
+    }
+  );
+
+  // Versioned API for other systems, authenticated with a bearer token.
+  // Jobs always run with one of the organization's server-side profiles.
+  app.post(
+    api.createJobWithToken.path,
+    requireApiToken("jobs:write"),
+    limitSubmissions,
+    upload.array("files"),
+    validateRequest(api.createJobWithToken),
+    createJob
+  );
+
+  app.get(
+    api.getJobWithToken.path,
+    requireApiToken("jobs:read"),
+    validateRequest(api.getJobWithToken),
+    getJob
+  );
+
+  app.get(
+    api.listExtractionsWithToken.path,
+    requireApiToken("extractions:read"),
+    validateRequest(api.listExtractionsWithToken),
+    listExtractions
+  );
+
+  // The parsed result of one extraction as a JSON download
+  app.get(
+    api.downloadExtractionResult.path,
+    requireApiToken("extractions:read"),
+    validateRequest(api.downloadExtractionResult),
+    async (req, res) => {
+      const extraction = await findVisibleExtraction(req);
+      if (!extraction) {
+        return res.status(404).json({ error: "Extraction not found" });
+      }
+
+      res.setHeader("Content-Disposition", `attachment; filename="extraction-${extraction.id}.json"`);
+      return res.status(200).json(toResultDownload(extraction));
+    }
+  );
+
+  setupApiDocs(app);
+
   console.log("[Routes] Creating HTTP server");
   const httpServer = createServer(app);
   console.log("[Routes] HTTP server created");
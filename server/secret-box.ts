@@ -0,0 +1,42 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+// Secrets are encrypted with AES-256-GCM under a master key from the
+// environment, e.g. generated with `openssl rand -base64 32`
+const ALGORITHM = "aes-256-gcm";
+const VERSION = "v1";
+
+function masterKey(): Buffer {
+  const encoded = process.env.PROFILE_ENCRYPTION_KEY;
+  if (!encoded) {
+    throw new Error("PROFILE_ENCRYPTION_KEY is not set, profile credentials cannot be stored");
+  }
+  const key = Buffer.from(encoded, "base64");
+  if (key.length !== 32) {
+    throw new Error("PROFILE_ENCRYPTION_KEY must be 32 bytes, base64 encoded");
+  }
+  return key;
+}
+
+// Returns "v1.<iv>.<auth tag>.<ciphertext>", each part base64 encoded
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, masterKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VERSION, iv, tag, ciphertext].map((part) =>
+    typeof part === "string" ? part : part.toString("base64"),
+  ).join(".");
+}
+
+export function decryptSecret(payload: string): string {
+  const [version, iv, tag, ciphertext] = payload.split(".");
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error("Unrecognised encrypted secret format");
+  }
+  const decipher = createDecipheriv(ALGORITHM, masterKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
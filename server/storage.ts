@@ -1,21 +1,315 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { and, count, desc, eq, getTableColumns, gte, ilike, inArray, isNotNull, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import {
+  organizations,
+  users,
+  extractions,
+  extractionImages,
+  extractionResults,
+  extractionProfiles,
+  settings,
+  submissionCounts,
+  apiTokens,
+  webhooks,
+  webhookDeliveries,
+  type Organization,
+  type InsertOrganization,
+  type User,
+  type InsertUser,
+  type Job,
+  type Batch,
+  type BatchDocument,
+  type ProgressEvent,
+  type Extraction,
+  type InsertExtraction,
+  type ExtractionImage,
+  type InsertExtractionImage,
+  type ExtractionResult,
+  type InsertExtractionResult,
+  type ExtractionRecord,
+  type ExtractionProfile,
+  type InsertExtractionProfile,
+  type ExtractionListQuery,
+  type ExtractionPage,
+  type ExtractionSummary,
+  type DriverLicenseExtraction,
+  type UserRole,
+  type AppSettings,
+  type CostTotals,
+  type ApiToken,
+  type InsertApiToken,
+  type Webhook,
+  type InsertWebhook,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  defaultAppSettings,
+  appSettingsSchema,
+} from "@shared/schema";
+import { db, pool, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 // modify the interface with any CRUD methods
 // you might need
 
+type NewUser = InsertUser & { role?: UserRole };
+
+// Everything except users, organizations, jobs and batches is looked up within an
+// organization, so a record of another organization is simply not found
+// Token usage of extractions that share a UTC day, user and profile
+export interface ExtractionUsageGroup extends CostTotals {
+  day: string;
+  userId: number | null;
+  profileId: number | null;
+}
+
 export interface IStorage {
+  sessionStore: session.Store;
+  // Creates an organization together with its first user, who becomes its admin
+  createOrganization(
+    organization: InsertOrganization,
+    admin: InsertUser
+  ): Promise<{ organization: Organization; user: User }>;
+  getOrganization(id: number): Promise<Organization | undefined>;
+  getOrganizationByName(name: string): Promise<Organization | undefined>;
+  listOrganizations(): Promise<Organization[]>;
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  createUser(organizationId: number, user: NewUser): Promise<User>;
+  listUsers(organizationId: number): Promise<User[]>;
+  updateUser(
+    organizationId: number,
+    id: number,
+    update: Partial<Pick<User, "role">>
+  ): Promise<User | undefined>;
+  getJob(id: string): Promise<Job | undefined>;
+  createJob(job: Job): Promise<Job>;
+  updateJob(id: string, update: Partial<Job>): Promise<Job | undefined>;
+  appendJobProgress(id: string, event: ProgressEvent): Promise<Job | undefined>;
+  getBatch(id: string): Promise<Batch | undefined>;
+  // A user's batches, newest first
+  listBatches(userId: number): Promise<Batch[]>;
+  createBatch(batch: Batch): Promise<Batch>;
+  updateBatch(id: string, update: Partial<Batch>): Promise<Batch | undefined>;
+  // Documents are updated one by one, as workers finish them in any order
+  updateBatchDocument(id: string, index: number, update: Partial<BatchDocument>): Promise<Batch | undefined>;
+  createExtraction(extraction: InsertExtraction, images: InsertExtractionImage[]): Promise<Extraction>;
+  updateExtraction(
+    organizationId: number,
+    id: number,
+    update: Partial<InsertExtraction>
+  ): Promise<Extraction | undefined>;
+  // Record the corrected version of each image, in image order; null leaves
+  // an image without one
+  setCorrectedImages(
+    organizationId: number,
+    extractionId: number,
+    sha256s: Array<string | null>
+  ): Promise<void>;
+  saveExtractionResult(result: InsertExtractionResult): Promise<ExtractionResult>;
+  updateExtractionResult(
+    organizationId: number,
+    extractionId: number,
+    update: Partial<InsertExtractionResult>
+  ): Promise<ExtractionResult | undefined>;
+  getExtraction(organizationId: number, id: number): Promise<ExtractionRecord | undefined>;
+  // Without a userId, extractions of every member of the organization are listed
+  listExtractions(
+    organizationId: number,
+    query: ExtractionListQuery & { userId?: number }
+  ): Promise<ExtractionPage>;
+  deleteExtraction(organizationId: number, id: number): Promise<boolean>;
+  // Deletes extractions created before the cutoff, returning how many there
+  // were and the images they referenced
+  deleteExtractionsBefore(
+    organizationId: number,
+    cutoff: Date
+  ): Promise<{ deleted: number; images: ExtractionImage[] }>;
+  // Image files are shared by content, so this looks across organizations
+  isImageReferenced(sha256: string): Promise<boolean>;
+  // Extractions with token usage created between two inclusive UTC dates
+  summarizeExtractionUsage(
+    organizationId: number,
+    range: { from: string; to: string }
+  ): Promise<ExtractionUsageGroup[]>;
+  // The newest completed extraction of a profile created since the given time
+  // whose images are exactly these, in the same order
+  findExtractionByImages(
+    organizationId: number,
+    profileId: number,
+    sha256s: string[],
+    since: Date,
+    options?: { userId?: number }
+  ): Promise<ExtractionRecord | undefined>;
+  listProfiles(organizationId: number): Promise<ExtractionProfile[]>;
+  getProfile(organizationId: number, id: number): Promise<ExtractionProfile | undefined>;
+  getProfileByName(organizationId: number, name: string): Promise<ExtractionProfile | undefined>;
+  createProfile(profile: InsertExtractionProfile): Promise<ExtractionProfile>;
+  updateProfile(
+    organizationId: number,
+    id: number,
+    update: Partial<InsertExtractionProfile>
+  ): Promise<ExtractionProfile | undefined>;
+  deleteProfile(organizationId: number, id: number): Promise<boolean>;
+  getSettings(organizationId: number): Promise<AppSettings>;
+  updateSettings(organizationId: number, update: Partial<AppSettings>): Promise<AppSettings>;
+  // Days are UTC dates, e.g. 2024-01-31. Counts one submission on the day
+  // unless the submissions since the fromDay of one of the limits would then
+  // exceed it; checked and counted atomically. Returns whether it was counted.
+  incrementSubmissionCount(
+    organizationId: number,
+    day: string,
+    limits: Array<{ fromDay: string; limit: number }>
+  ): Promise<boolean>;
+  // Submissions counted on or after the given day
+  countSubmissions(organizationId: number, fromDay: string): Promise<number>;
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  // Tokens a user created, newest first, including revoked ones
+  listApiTokens(organizationId: number, userId: number): Promise<ApiToken[]>;
+  // Looked up by hash when a request presents a token, before any organization is known
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  updateApiToken(
+    organizationId: number,
+    id: number,
+    update: Partial<Pick<ApiToken, "lastUsedAt" | "revokedAt">>
+  ): Promise<ApiToken | undefined>;
+  createWebhook(webhook: InsertWebhook): Promise<Webhook>;
+  listWebhooks(organizationId: number): Promise<Webhook[]>;
+  getWebhook(organizationId: number, id: number): Promise<Webhook | undefined>;
+  updateWebhook(
+    organizationId: number,
+    id: number,
+    update: Partial<Pick<Webhook, "url" | "events" | "active">>
+  ): Promise<Webhook | undefined>;
+  // Also deletes the webhook's deliveries
+  deleteWebhook(organizationId: number, id: number): Promise<boolean>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  // Used by the sender, which works across organizations
+  updateWebhookDelivery(
+    id: number,
+    update: Partial<InsertWebhookDelivery>
+  ): Promise<WebhookDelivery | undefined>;
+  getWebhookDelivery(organizationId: number, id: number): Promise<WebhookDelivery | undefined>;
+  // Latest deliveries of a webhook, newest first
+  listWebhookDeliveries(
+    organizationId: number,
+    webhookId: number,
+    limit: number
+  ): Promise<WebhookDelivery[]>;
+  // Pending deliveries of every organization whose retry is due
+  listDueWebhookDeliveries(now: Date): Promise<WebhookDelivery[]>;
+}
+
+// Creation time bounds for the inclusive from/to dates of a list query
+function createdRange({ from, to }: Pick<ExtractionListQuery, "from" | "to">) {
+  const start = from ? new Date(`${from}T00:00:00Z`) : undefined;
+  const end = to ? new Date(Date.parse(`${to}T00:00:00Z`) + 24 * 60 * 60 * 1000) : undefined;
+  return { start, end };
+}
+
+function hasImages(images: ExtractionImage[], sha256s: string[]): boolean {
+  const ordered = [...images].sort((a, b) => a.position - b.position);
+  return ordered.length === sha256s.length && ordered.every((image, index) => image.sha256 === sha256s[index]);
+}
+
+function holderName(fields: DriverLicenseExtraction | null | undefined): string | null {
+  if (!fields) return null;
+  return [fields.firstName, fields.middleName, fields.lastName].filter(Boolean).join(" ") || null;
+}
+
+function toSummary(
+  { rawResponse: _rawResponse, ...extraction }: Omit<Extraction, "rawResponse"> & { rawResponse?: string | null },
+  result: Pick<ExtractionResult, "documentType" | "jurisdiction" | "fields"> | null | undefined
+): ExtractionSummary {
+  return {
+    ...extraction,
+    documentType: result?.documentType ?? null,
+    jurisdiction: result?.jurisdiction ?? null,
+    name: holderName(result?.fields),
+    licenseNumber: result?.fields.licenseNumber ?? null,
+  };
 }
 
 export class MemStorage implements IStorage {
+  private organizations: Map<number, Organization>;
   private users: Map<number, User>;
+  private jobs: Map<string, Job>;
+  private batches: Map<string, Batch>;
+  private extractions: Map<number, Extraction>;
+  private extractionImages: Map<number, ExtractionImage[]>;
+  private extractionResults: Map<number, ExtractionResult>;
+  private profiles: Map<number, ExtractionProfile>;
+  private settings: Map<number, AppSettings>;
+  // Keyed by "<organizationId>:<day>"
+  private submissionCounts: Map<string, number>;
+  private apiTokens: Map<number, ApiToken>;
+  private webhooks: Map<number, Webhook>;
+  private webhookDeliveries: Map<number, WebhookDelivery>;
+  currentOrganizationId: number;
   currentId: number;
+  currentExtractionId: number;
+  currentImageId: number;
+  currentResultId: number;
+  currentProfileId: number;
+  currentApiTokenId: number;
+  currentWebhookId: number;
+  currentWebhookDeliveryId: number;
+  sessionStore: session.Store;
 
   constructor() {
+    this.organizations = new Map();
     this.users = new Map();
+    this.jobs = new Map();
+    this.batches = new Map();
+    this.extractions = new Map();
+    this.extractionImages = new Map();
+    this.extractionResults = new Map();
+    this.currentOrganizationId = 1;
     this.currentId = 1;
+    this.currentExtractionId = 1;
+    this.currentImageId = 1;
+    this.currentResultId = 1;
+    this.profiles = new Map();
+    this.currentProfileId = 1;
+    this.settings = new Map();
+    this.submissionCounts = new Map();
+    this.apiTokens = new Map();
+    this.currentApiTokenId = 1;
+    this.webhooks = new Map();
+    this.currentWebhookId = 1;
+    this.webhookDeliveries = new Map();
+    this.currentWebhookDeliveryId = 1;
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 24 * 60 * 60 * 1000, // prune expired sessions daily
+    });
+  }
+
+  async createOrganization(
+    insertOrganization: InsertOrganization,
+    admin: InsertUser
+  ): Promise<{ organization: Organization; user: User }> {
+    const id = this.currentOrganizationId++;
+    const organization: Organization = { createdAt: new Date(), ...insertOrganization, id };
+    this.organizations.set(id, organization);
+    const user = await this.createUser(id, { ...admin, role: "admin" });
+    return { organization, user };
+  }
+
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    return this.organizations.get(id);
+  }
+
+  async getOrganizationByName(name: string): Promise<Organization | undefined> {
+    return Array.from(this.organizations.values()).find(
+      (organization) => organization.name.toLowerCase() === name.toLowerCase(),
+    );
+  }
+
+  async listOrganizations(): Promise<Organization[]> {
+    return Array.from(this.organizations.values());
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -28,12 +322,1139 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async createUser(organizationId: number, insertUser: NewUser): Promise<User> {
     const id = this.currentId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { role: "operator", ...insertUser, organizationId, id };
     this.users.set(id, user);
     return user;
   }
+
+  async listUsers(organizationId: number): Promise<User[]> {
+    return Array.from(this.users.values())
+      .filter((user) => user.organizationId === organizationId)
+      .sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async updateUser(
+    organizationId: number,
+    id: number,
+    update: Partial<Pick<User, "role">>
+  ): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (user?.organizationId !== organizationId) return undefined;
+    const updated = { ...user, ...update, id };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async createJob(job: Job): Promise<Job> {
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  async updateJob(id: string, update: Partial<Job>): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+    const updated = { ...job, ...update };
+    this.jobs.set(id, updated);
+    return updated;
+  }
+
+  async appendJobProgress(id: string, event: ProgressEvent): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+    const updated = { ...job, progress: [...job.progress, event] };
+    this.jobs.set(id, updated);
+    return updated;
+  }
+
+  async getBatch(id: string): Promise<Batch | undefined> {
+    return this.batches.get(id);
+  }
+
+  async listBatches(userId: number): Promise<Batch[]> {
+    return Array.from(this.batches.values())
+      .filter((batch) => batch.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async createBatch(batch: Batch): Promise<Batch> {
+    this.batches.set(batch.id, batch);
+    return batch;
+  }
+
+  async updateBatch(id: string, update: Partial<Batch>): Promise<Batch | undefined> {
+    const batch = this.batches.get(id);
+    if (!batch) return undefined;
+    const updated = { ...batch, ...update };
+    this.batches.set(id, updated);
+    return updated;
+  }
+
+  async updateBatchDocument(
+    id: string,
+    index: number,
+    update: Partial<BatchDocument>
+  ): Promise<Batch | undefined> {
+    const batch = this.batches.get(id);
+    if (!batch?.documents[index]) return undefined;
+    const documents = [...batch.documents];
+    documents[index] = { ...documents[index], ...update };
+    const updated = { ...batch, documents };
+    this.batches.set(id, updated);
+    return updated;
+  }
+
+  async createExtraction(
+    insertExtraction: InsertExtraction,
+    images: InsertExtractionImage[]
+  ): Promise<Extraction> {
+    const id = this.currentExtractionId++;
+    const extraction: Extraction = {
+      userId: null,
+      profileId: null,
+      jobId: null,
+      assistantId: null,
+      model: null,
+      completedAt: null,
+      rawResponse: null,
+      error: null,
+      errorCode: null,
+      promptTokens: null,
+      completionTokens: null,
+      estimatedCostUsd: null,
+      preprocessing: null,
+      quality: null,
+      createdAt: new Date(),
+      ...insertExtraction,
+      id,
+    };
+    this.extractions.set(id, extraction);
+    this.extractionImages.set(
+      id,
+      images.map((image) => ({
+        correctedSha256: null,
+        side: null,
+        ...image,
+        id: this.currentImageId++,
+        extractionId: id,
+      })),
+    );
+    return extraction;
+  }
+
+  async updateExtraction(
+    organizationId: number,
+    id: number,
+    update: Partial<InsertExtraction>
+  ): Promise<Extraction | undefined> {
+    const extraction = this.extractions.get(id);
+    if (extraction?.organizationId !== organizationId) return undefined;
+    const updated = { ...extraction, ...update, id, organizationId };
+    this.extractions.set(id, updated);
+    return updated;
+  }
+
+  async setCorrectedImages(
+    organizationId: number,
+    extractionId: number,
+    sha256s: Array<string | null>
+  ): Promise<void> {
+    const images = this.extractionImages.get(extractionId);
+    if (!images || this.extractions.get(extractionId)?.organizationId !== organizationId) return;
+    this.extractionImages.set(
+      extractionId,
+      images.map((image) => ({ ...image, correctedSha256: sha256s[image.position] ?? null })),
+    );
+  }
+
+  async saveExtractionResult(insertResult: InsertExtractionResult): Promise<ExtractionResult> {
+    const result: ExtractionResult = {
+      jurisdiction: null,
+      barcode: null,
+      crossValidation: null,
+      mrz: null,
+      correctedBy: null,
+      correctedAt: null,
+      ...insertResult,
+      id: this.extractionResults.get(insertResult.extractionId)?.id ?? this.currentResultId++,
+    };
+    this.extractionResults.set(result.extractionId, result);
+    return result;
+  }
+
+  async updateExtractionResult(
+    organizationId: number,
+    extractionId: number,
+    update: Partial<InsertExtractionResult>
+  ): Promise<ExtractionResult | undefined> {
+    const result = this.extractionResults.get(extractionId);
+    if (!result || this.extractions.get(extractionId)?.organizationId !== organizationId) {
+      return undefined;
+    }
+    const updated = { ...result, ...update, id: result.id, extractionId };
+    this.extractionResults.set(extractionId, updated);
+    return updated;
+  }
+
+  async getExtraction(organizationId: number, id: number): Promise<ExtractionRecord | undefined> {
+    const extraction = this.extractions.get(id);
+    if (extraction?.organizationId !== organizationId) return undefined;
+    return {
+      ...extraction,
+      images: this.extractionImages.get(id) ?? [],
+      result: this.extractionResults.get(id) ?? null,
+    };
+  }
+
+  async listExtractions(
+    organizationId: number,
+    query: ExtractionListQuery & { userId?: number }
+  ): Promise<ExtractionPage> {
+    const { start, end } = createdRange(query);
+    const search = query.search?.toLowerCase();
+
+    // Same candidates as the SQL search: full name, first and last name, license number
+    const matchesSearch = (result: ExtractionResult | undefined) => {
+      if (!search) return true;
+      if (!result) return false;
+      const { firstName, lastName, licenseNumber } = result.fields;
+      return [holderName(result.fields), [firstName, lastName].filter(Boolean).join(" "), licenseNumber]
+        .some((candidate) => candidate?.toLowerCase().includes(search));
+    };
+
+    const matches = Array.from(this.extractions.values())
+      .filter((extraction) => extraction.organizationId === organizationId)
+      .filter((extraction) => matchesSearch(this.extractionResults.get(extraction.id)))
+      .map((extraction) => toSummary(extraction, this.extractionResults.get(extraction.id)))
+      .filter((summary) =>
+        (query.userId === undefined || summary.userId === query.userId) &&
+        (!start || summary.createdAt >= start) &&
+        (!end || summary.createdAt < end) &&
+        (!query.status || summary.status === query.status) &&
+        (!query.jurisdiction || summary.jurisdiction === query.jurisdiction) &&
+        (!query.documentType || summary.documentType === query.documentType)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+
+    const offset = (query.page - 1) * query.pageSize;
+    return {
+      items: matches.slice(offset, offset + query.pageSize),
+      total: matches.length,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  async deleteExtraction(organizationId: number, id: number): Promise<boolean> {
+    if (this.extractions.get(id)?.organizationId !== organizationId) return false;
+    this.extractionImages.delete(id);
+    this.extractionResults.delete(id);
+    return this.extractions.delete(id);
+  }
+
+  async deleteExtractionsBefore(
+    organizationId: number,
+    cutoff: Date
+  ): Promise<{ deleted: number; images: ExtractionImage[] }> {
+    const expired = Array.from(this.extractions.values()).filter(
+      (extraction) => extraction.organizationId === organizationId && extraction.createdAt < cutoff
+    );
+    const images = expired.flatMap((extraction) => this.extractionImages.get(extraction.id) ?? []);
+    for (const extraction of expired) {
+      await this.deleteExtraction(organizationId, extraction.id);
+    }
+    return { deleted: expired.length, images };
+  }
+
+  async isImageReferenced(sha256: string): Promise<boolean> {
+    return Array.from(this.extractionImages.values()).some((images) =>
+      images.some((image) => image.sha256 === sha256 || image.correctedSha256 === sha256)
+    );
+  }
+
+  async summarizeExtractionUsage(
+    organizationId: number,
+    range: { from: string; to: string }
+  ): Promise<ExtractionUsageGroup[]> {
+    const { start, end } = createdRange(range);
+    const groups = new Map<string, ExtractionUsageGroup>();
+    for (const extraction of Array.from(this.extractions.values())) {
+      if (
+        extraction.organizationId !== organizationId ||
+        extraction.promptTokens === null ||
+        (start && extraction.createdAt < start) ||
+        (end && extraction.createdAt >= end)
+      ) {
+        continue;
+      }
+      const day = extraction.createdAt.toISOString().slice(0, 10);
+      const key = `${day}:${extraction.userId}:${extraction.profileId}`;
+      const group = groups.get(key) ?? {
+        day,
+        userId: extraction.userId,
+        profileId: extraction.profileId,
+        extractions: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        estimatedCostUsd: 0,
+        unpriced: 0,
+      };
+      group.extractions += 1;
+      group.promptTokens += extraction.promptTokens;
+      group.completionTokens += extraction.completionTokens ?? 0;
+      group.estimatedCostUsd += extraction.estimatedCostUsd ?? 0;
+      if (extraction.estimatedCostUsd === null) group.unpriced += 1;
+      groups.set(key, group);
+    }
+    return Array.from(groups.values());
+  }
+
+  async findExtractionByImages(
+    organizationId: number,
+    profileId: number,
+    sha256s: string[],
+    since: Date,
+    { userId }: { userId?: number } = {}
+  ): Promise<ExtractionRecord | undefined> {
+    const match = Array.from(this.extractions.values())
+      .filter(
+        (extraction) =>
+          extraction.organizationId === organizationId &&
+          extraction.profileId === profileId &&
+          (userId === undefined || extraction.userId === userId) &&
+          extraction.status === "completed" &&
+          extraction.createdAt >= since &&
+          hasImages(this.extractionImages.get(extraction.id) ?? [], sha256s)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)[0];
+    return match && this.getExtraction(organizationId, match.id);
+  }
+
+  async listProfiles(organizationId: number): Promise<ExtractionProfile[]> {
+    return Array.from(this.profiles.values())
+      .filter((profile) => profile.organizationId === organizationId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getProfile(organizationId: number, id: number): Promise<ExtractionProfile | undefined> {
+    const profile = this.profiles.get(id);
+    return profile?.organizationId === organizationId ? profile : undefined;
+  }
+
+  async getProfileByName(organizationId: number, name: string): Promise<ExtractionProfile | undefined> {
+    return Array.from(this.profiles.values()).find(
+      (profile) => profile.organizationId === organizationId && profile.name === name
+    );
+  }
+
+  async createProfile(insertProfile: InsertExtractionProfile): Promise<ExtractionProfile> {
+    const id = this.currentProfileId++;
+    const now = new Date();
+    const profile: ExtractionProfile = {
+      encryptedApiKey: null,
+      apiKeyHint: null,
+      assistantId: null,
+      model: null,
+      documentType: "driver_license",
+      createdBy: null,
+      createdAt: now,
+      updatedAt: now,
+      ...insertProfile,
+      id,
+    };
+    this.profiles.set(id, profile);
+    return profile;
+  }
+
+  async updateProfile(
+    organizationId: number,
+    id: number,
+    update: Partial<InsertExtractionProfile>
+  ): Promise<ExtractionProfile | undefined> {
+    const profile = await this.getProfile(organizationId, id);
+    if (!profile) return undefined;
+    const updated = { ...profile, ...update, id, updatedAt: new Date() };
+    this.profiles.set(id, updated);
+    return updated;
+  }
+
+  async deleteProfile(organizationId: number, id: number): Promise<boolean> {
+    if (!(await this.getProfile(organizationId, id))) return false;
+    return this.profiles.delete(id);
+  }
+
+  async getSettings(organizationId: number): Promise<AppSettings> {
+    return { ...defaultAppSettings, ...this.settings.get(organizationId) };
+  }
+
+  async updateSettings(organizationId: number, update: Partial<AppSettings>): Promise<AppSettings> {
+    const updated = { ...(await this.getSettings(organizationId)), ...update };
+    this.settings.set(organizationId, updated);
+    return { ...updated };
+  }
+
+  async incrementSubmissionCount(
+    organizationId: number,
+    day: string,
+    limits: Array<{ fromDay: string; limit: number }>
+  ): Promise<boolean> {
+    // Nothing is awaited between the check and the update, so it is atomic
+    const exceeded = limits.some(
+      ({ fromDay, limit }) => this.sumSubmissions(organizationId, fromDay) + 1 > limit
+    );
+    if (exceeded) return false;
+    const key = `${organizationId}:${day}`;
+    this.submissionCounts.set(key, (this.submissionCounts.get(key) ?? 0) + 1);
+    return true;
+  }
+
+  private sumSubmissions(organizationId: number, fromDay: string): number {
+    let total = 0;
+    this.submissionCounts.forEach((count, key) => {
+      const [organization, day] = key.split(":");
+      if (Number(organization) === organizationId && day >= fromDay) total += count;
+    });
+    return total;
+  }
+
+  async countSubmissions(organizationId: number, fromDay: string): Promise<number> {
+    return this.sumSubmissions(organizationId, fromDay);
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const id = this.currentApiTokenId++;
+    const token: ApiToken = {
+      createdAt: new Date(),
+      lastUsedAt: null,
+      revokedAt: null,
+      ...insertToken,
+      id,
+    };
+    this.apiTokens.set(id, token);
+    return token;
+  }
+
+  async listApiTokens(organizationId: number, userId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter((token) => token.organizationId === organizationId && token.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find((token) => token.tokenHash === tokenHash);
+  }
+
+  async updateApiToken(
+    organizationId: number,
+    id: number,
+    update: Partial<Pick<ApiToken, "lastUsedAt" | "revokedAt">>
+  ): Promise<ApiToken | undefined> {
+    const token = this.apiTokens.get(id);
+    if (token?.organizationId !== organizationId) return undefined;
+    const updated = { ...token, ...update, id };
+    this.apiTokens.set(id, updated);
+    return updated;
+  }
+
+  async createWebhook(insertWebhook: InsertWebhook): Promise<Webhook> {
+    const id = this.currentWebhookId++;
+    const webhook: Webhook = {
+      active: true,
+      createdBy: null,
+      createdAt: new Date(),
+      ...insertWebhook,
+      id,
+    };
+    this.webhooks.set(id, webhook);
+    return webhook;
+  }
+
+  async listWebhooks(organizationId: number): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values())
+      .filter((webhook) => webhook.organizationId === organizationId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getWebhook(organizationId: number, id: number): Promise<Webhook | undefined> {
+    const webhook = this.webhooks.get(id);
+    return webhook?.organizationId === organizationId ? webhook : undefined;
+  }
+
+  async updateWebhook(
+    organizationId: number,
+    id: number,
+    update: Partial<Pick<Webhook, "url" | "events" | "active">>
+  ): Promise<Webhook | undefined> {
+    const webhook = await this.getWebhook(organizationId, id);
+    if (!webhook) return undefined;
+    const updated = { ...webhook, ...update, id };
+    this.webhooks.set(id, updated);
+    return updated;
+  }
+
+  async deleteWebhook(organizationId: number, id: number): Promise<boolean> {
+    if (!(await this.getWebhook(organizationId, id))) return false;
+    Array.from(this.webhookDeliveries.values())
+      .filter((delivery) => delivery.webhookId === id)
+      .forEach((delivery) => this.webhookDeliveries.delete(delivery.id));
+    return this.webhooks.delete(id);
+  }
+
+  async createWebhookDelivery(insertDelivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const id = this.currentWebhookDeliveryId++;
+    const delivery: WebhookDelivery = {
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: null,
+      lastAttemptAt: null,
+      responseStatus: null,
+      error: null,
+      createdAt: new Date(),
+      ...insertDelivery,
+      id,
+    };
+    this.webhookDeliveries.set(id, delivery);
+    return delivery;
+  }
+
+  async updateWebhookDelivery(
+    id: number,
+    update: Partial<InsertWebhookDelivery>
+  ): Promise<WebhookDelivery | undefined> {
+    const delivery = this.webhookDeliveries.get(id);
+    if (!delivery) return undefined;
+    const updated = { ...delivery, ...update, id };
+    this.webhookDeliveries.set(id, updated);
+    return updated;
+  }
+
+  async getWebhookDelivery(organizationId: number, id: number): Promise<WebhookDelivery | undefined> {
+    const delivery = this.webhookDeliveries.get(id);
+    return delivery?.organizationId === organizationId ? delivery : undefined;
+  }
+
+  async listWebhookDeliveries(
+    organizationId: number,
+    webhookId: number,
+    limit: number
+  ): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter((delivery) => delivery.organizationId === organizationId && delivery.webhookId === webhookId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async listDueWebhookDeliveries(now: Date): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values()).filter(
+      (delivery) =>
+        delivery.status === "pending" &&
+        delivery.nextAttemptAt !== null &&
+        delivery.nextAttemptAt <= now,
+    );
+  }
+}
+
+// Users and extraction history live in Postgres. Jobs and batches only last
+// as long as the process that runs them, so they stay in memory.
+export class DatabaseStorage extends MemStorage {
+  constructor(private db: Database) {
+    super();
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    });
+  }
+
+  async createOrganization(
+    insertOrganization: InsertOrganization,
+    admin: InsertUser
+  ): Promise<{ organization: Organization; user: User }> {
+    return this.db.transaction(async (tx) => {
+      const [organization] = await tx.insert(organizations).values(insertOrganization).returning();
+      const [user] = await tx
+        .insert(users)
+        .values({ ...admin, organizationId: organization.id, role: "admin" })
+        .returning();
+      return { organization, user };
+    });
+  }
+
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    const [organization] = await this.db
+      .select()
+      .from(organizations)
+      .where(eq(organizations.id, id));
+    return organization;
+  }
+
+  async getOrganizationByName(name: string): Promise<Organization | undefined> {
+    const [organization] = await this.db
+      .select()
+      .from(organizations)
+      .where(sql`lower(${organizations.name}) = lower(${name})`);
+    return organization;
+  }
+
+  async listOrganizations(): Promise<Organization[]> {
+    return this.db.select().from(organizations);
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(organizationId: number, insertUser: NewUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values({ ...insertUser, organizationId })
+      .returning();
+    return user;
+  }
+
+  async listUsers(organizationId: number): Promise<User[]> {
+    return this.db
+      .select()
+      .from(users)
+      .where(eq(users.organizationId, organizationId))
+      .orderBy(users.username);
+  }
+
+  async updateUser(
+    organizationId: number,
+    id: number,
+    update: Partial<Pick<User, "role">>
+  ): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set(update)
+      .where(and(eq(users.organizationId, organizationId), eq(users.id, id)))
+      .returning();
+    return user;
+  }
+
+  async createExtraction(
+    insertExtraction: InsertExtraction,
+    images: InsertExtractionImage[]
+  ): Promise<Extraction> {
+    return this.db.transaction(async (tx) => {
+      const [extraction] = await tx.insert(extractions).values(insertExtraction).returning();
+      if (images.length > 0) {
+        await tx
+          .insert(extractionImages)
+          .values(images.map((image) => ({ ...image, extractionId: extraction.id })));
+      }
+      return extraction;
+    });
+  }
+
+  async updateExtraction(
+    organizationId: number,
+    id: number,
+    update: Partial<InsertExtraction>
+  ): Promise<Extraction | undefined> {
+    const [extraction] = await this.db
+      .update(extractions)
+      .set(update)
+      .where(and(eq(extractions.organizationId, organizationId), eq(extractions.id, id)))
+      .returning();
+    return extraction;
+  }
+
+  async setCorrectedImages(
+    organizationId: number,
+    extractionId: number,
+    sha256s: Array<string | null>
+  ): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const [extraction] = await tx
+        .select({ id: extractions.id })
+        .from(extractions)
+        .where(and(eq(extractions.organizationId, organizationId), eq(extractions.id, extractionId)));
+      if (!extraction) return;
+
+      for (let position = 0; position < sha256s.length; position++) {
+        await tx
+          .update(extractionImages)
+          .set({ correctedSha256: sha256s[position] })
+          .where(
+            and(eq(extractionImages.extractionId, extractionId), eq(extractionImages.position, position)),
+          );
+      }
+    });
+  }
+
+  async saveExtractionResult(insertResult: InsertExtractionResult): Promise<ExtractionResult> {
+    const [result] = await this.db
+      .insert(extractionResults)
+      .values(insertResult)
+      .onConflictDoUpdate({ target: extractionResults.extractionId, set: insertResult })
+      .returning();
+    return result;
+  }
+
+  async updateExtractionResult(
+    organizationId: number,
+    extractionId: number,
+    update: Partial<InsertExtractionResult>
+  ): Promise<ExtractionResult | undefined> {
+    const [result] = await this.db
+      .update(extractionResults)
+      .set(update)
+      .where(
+        inArray(
+          extractionResults.extractionId,
+          this.db
+            .select({ id: extractions.id })
+            .from(extractions)
+            .where(and(eq(extractions.organizationId, organizationId), eq(extractions.id, extractionId)))
+        )
+      )
+      .returning();
+    return result;
+  }
+
+  async getExtraction(organizationId: number, id: number): Promise<ExtractionRecord | undefined> {
+    const [extraction] = await this.db
+      .select()
+      .from(extractions)
+      .where(and(eq(extractions.organizationId, organizationId), eq(extractions.id, id)));
+    if (!extraction) return undefined;
+
+    const images = await this.db
+      .select()
+      .from(extractionImages)
+      .where(eq(extractionImages.extractionId, id))
+      .orderBy(extractionImages.position);
+    const [result] = await this.db
+      .select()
+      .from(extractionResults)
+      .where(eq(extractionResults.extractionId, id));
+    return { ...extraction, images, result: result ?? null };
+  }
+
+  async listExtractions(
+    organizationId: number,
+    query: ExtractionListQuery & { userId?: number }
+  ): Promise<ExtractionPage> {
+    const { start, end } = createdRange(query);
+    const conditions: SQL[] = [eq(extractions.organizationId, organizationId)];
+    if (query.userId !== undefined) conditions.push(eq(extractions.userId, query.userId));
+    if (start) conditions.push(gte(extractions.createdAt, start));
+    if (end) conditions.push(lt(extractions.createdAt, end));
+    if (query.status) conditions.push(eq(extractions.status, query.status));
+    if (query.jurisdiction) conditions.push(eq(extractionResults.jurisdiction, query.jurisdiction));
+    if (query.documentType) conditions.push(eq(extractionResults.documentType, query.documentType));
+    if (query.search) {
+      const pattern = `%${query.search.replace(/[\\%_]/g, "\\$&")}%`;
+      const field = (name: keyof DriverLicenseExtraction) =>
+        sql`${extractionResults.fields}->>${name}`;
+      conditions.push(
+        or(
+          ilike(
+            sql`concat_ws(' ', ${field("firstName")}, ${field("middleName")}, ${field("lastName")})`,
+            pattern,
+          ),
+          ilike(sql`concat_ws(' ', ${field("firstName")}, ${field("lastName")})`, pattern),
+          ilike(field("licenseNumber"), pattern),
+        )!,
+      );
+    }
+    const where = and(...conditions);
+
+    // The raw response can be large and is only needed on the detail page
+    const { rawResponse: _rawResponse, ...summaryColumns } = getTableColumns(extractions);
+
+    const rows = await this.db
+      .select({
+        extraction: summaryColumns,
+        documentType: extractionResults.documentType,
+        jurisdiction: extractionResults.jurisdiction,
+        fields: extractionResults.fields,
+      })
+      .from(extractions)
+      .leftJoin(extractionResults, eq(extractionResults.extractionId, extractions.id))
+      .where(where)
+      .orderBy(desc(extractions.createdAt), desc(extractions.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(extractions)
+      .leftJoin(extractionResults, eq(extractionResults.extractionId, extractions.id))
+      .where(where);
+
+    return {
+      items: rows.map(({ extraction, documentType, jurisdiction, fields }) =>
+        toSummary(extraction, documentType && fields ? { documentType, jurisdiction, fields } : null)
+      ),
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  async deleteExtraction(organizationId: number, id: number): Promise<boolean> {
+    // Images and results are removed by the foreign key cascade
+    const deleted = await this.db
+      .delete(extractions)
+      .where(and(eq(extractions.organizationId, organizationId), eq(extractions.id, id)))
+      .returning({ id: extractions.id });
+    return deleted.length > 0;
+  }
+
+  async deleteExtractionsBefore(
+    organizationId: number,
+    cutoff: Date
+  ): Promise<{ deleted: number; images: ExtractionImage[] }> {
+    return this.db.transaction(async (tx) => {
+      const expired = and(
+        eq(extractions.organizationId, organizationId),
+        lt(extractions.createdAt, cutoff),
+      );
+      const images = await tx
+        .select(getTableColumns(extractionImages))
+        .from(extractionImages)
+        .innerJoin(extractions, eq(extractionImages.extractionId, extractions.id))
+        .where(expired);
+      const deleted = await tx
+        .delete(extractions)
+        .where(expired)
+        .returning({ id: extractions.id });
+      return { deleted: deleted.length, images };
+    });
+  }
+
+  async isImageReferenced(sha256: string): Promise<boolean> {
+    const [image] = await this.db
+      .select({ id: extractionImages.id })
+      .from(extractionImages)
+      .where(or(eq(extractionImages.sha256, sha256), eq(extractionImages.correctedSha256, sha256)))
+      .limit(1);
+    return image !== undefined;
+  }
+
+  async summarizeExtractionUsage(
+    organizationId: number,
+    range: { from: string; to: string }
+  ): Promise<ExtractionUsageGroup[]> {
+    const { start, end } = createdRange(range);
+    const conditions: SQL[] = [
+      eq(extractions.organizationId, organizationId),
+      isNotNull(extractions.promptTokens),
+    ];
+    if (start) conditions.push(gte(extractions.createdAt, start));
+    if (end) conditions.push(lt(extractions.createdAt, end));
+
+    // Timestamps are stored in UTC
+    const day = sql<string>`to_char(${extractions.createdAt}, 'YYYY-MM-DD')`;
+    return this.db
+      .select({
+        day,
+        userId: extractions.userId,
+        profileId: extractions.profileId,
+        extractions: count(),
+        promptTokens: sql<number>`coalesce(sum(${extractions.promptTokens}), 0)`.mapWith(Number),
+        completionTokens: sql<number>`coalesce(sum(${extractions.completionTokens}), 0)`.mapWith(Number),
+        estimatedCostUsd: sql<number>`coalesce(sum(${extractions.estimatedCostUsd}), 0)`.mapWith(Number),
+        unpriced: sql<number>`count(*) filter (where ${extractions.estimatedCostUsd} is null)`.mapWith(Number),
+      })
+      .from(extractions)
+      .where(and(...conditions))
+      .groupBy(day, extractions.userId, extractions.profileId);
+  }
+
+  async findExtractionByImages(
+    organizationId: number,
+    profileId: number,
+    sha256s: string[],
+    since: Date,
+    { userId }: { userId?: number } = {}
+  ): Promise<ExtractionRecord | undefined> {
+    if (sha256s.length === 0) return undefined;
+
+    // Narrow down by the first image, then compare the full image lists
+    const candidates = await this.db
+      .select({ id: extractions.id })
+      .from(extractions)
+      .innerJoin(
+        extractionImages,
+        and(eq(extractionImages.extractionId, extractions.id), eq(extractionImages.position, 0))
+      )
+      .where(
+        and(
+          eq(extractions.organizationId, organizationId),
+          eq(extractions.profileId, profileId),
+          userId === undefined ? undefined : eq(extractions.userId, userId),
+          eq(extractions.status, "completed"),
+          gte(extractions.createdAt, since),
+          eq(extractionImages.sha256, sha256s[0])
+        )
+      )
+      .orderBy(desc(extractions.createdAt), desc(extractions.id))
+      .limit(10);
+
+    for (const { id } of candidates) {
+      const record = await this.getExtraction(organizationId, id);
+      if (record && hasImages(record.images, sha256s)) return record;
+    }
+    return undefined;
+  }
+
+  async listProfiles(organizationId: number): Promise<ExtractionProfile[]> {
+    return this.db
+      .select()
+      .from(extractionProfiles)
+      .where(eq(extractionProfiles.organizationId, organizationId))
+      .orderBy(extractionProfiles.name);
+  }
+
+  async getProfile(organizationId: number, id: number): Promise<ExtractionProfile | undefined> {
+    const [profile] = await this.db
+      .select()
+      .from(extractionProfiles)
+      .where(and(eq(extractionProfiles.organizationId, organizationId), eq(extractionProfiles.id, id)));
+    return profile;
+  }
+
+  async getProfileByName(organizationId: number, name: string): Promise<ExtractionProfile | undefined> {
+    const [profile] = await this.db
+      .select()
+      .from(extractionProfiles)
+      .where(and(eq(extractionProfiles.organizationId, organizationId), eq(extractionProfiles.name, name)));
+    return profile;
+  }
+
+  async createProfile(insertProfile: InsertExtractionProfile): Promise<ExtractionProfile> {
+    const [profile] = await this.db.insert(extractionProfiles).values(insertProfile).returning();
+    return profile;
+  }
+
+  async updateProfile(
+    organizationId: number,
+    id: number,
+    update: Partial<InsertExtractionProfile>
+  ): Promise<ExtractionProfile | undefined> {
+    const [profile] = await this.db
+      .update(extractionProfiles)
+      .set({ ...update, updatedAt: new Date() })
+      .where(and(eq(extractionProfiles.organizationId, organizationId), eq(extractionProfiles.id, id)))
+      .returning();
+    return profile;
+  }
+
+  async deleteProfile(organizationId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(extractionProfiles)
+      .where(and(eq(extractionProfiles.organizationId, organizationId), eq(extractionProfiles.id, id)))
+      .returning({ id: extractionProfiles.id });
+    return deleted.length > 0;
+  }
+
+  async getSettings(organizationId: number): Promise<AppSettings> {
+    const rows = await this.db
+      .select()
+      .from(settings)
+      .where(eq(settings.organizationId, organizationId));
+    const stored = Object.fromEntries(rows.map((row) => [row.key, row.value]));
+    // Unknown or malformed keys fall back to the defaults
+    const parsed = appSettingsSchema.partial().safeParse(stored);
+    return { ...defaultAppSettings, ...(parsed.success ? parsed.data : {}) };
+  }
+
+  async updateSettings(organizationId: number, update: Partial<AppSettings>): Promise<AppSettings> {
+    await this.db.transaction(async (tx) => {
+      for (const [key, value] of Object.entries(update)) {
+        await tx
+          .insert(settings)
+          .values({ organizationId, key, value })
+          .onConflictDoUpdate({ target: [settings.organizationId, settings.key], set: { value } });
+      }
+    });
+    return this.getSettings(organizationId);
+  }
+
+  async incrementSubmissionCount(
+    organizationId: number,
+    day: string,
+    limits: Array<{ fromDay: string; limit: number }>
+  ): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      // Locking the organization makes concurrent submissions of the same
+      // organization check and count one after the other
+      await tx
+        .select({ id: organizations.id })
+        .from(organizations)
+        .where(eq(organizations.id, organizationId))
+        .for("update");
+      for (const { fromDay, limit } of limits) {
+        if ((await this.countSubmissionsIn(tx, organizationId, fromDay)) + 1 > limit) return false;
+      }
+
+      await tx
+        .insert(submissionCounts)
+        .values({ organizationId, day, count: 1 })
+        .onConflictDoUpdate({
+          target: [submissionCounts.organizationId, submissionCounts.day],
+          set: { count: sql`${submissionCounts.count} + 1` },
+        });
+      return true;
+    });
+  }
+
+  private async countSubmissionsIn(
+    db: Pick<Database, "select">,
+    organizationId: number,
+    fromDay: string
+  ): Promise<number> {
+    const [{ total }] = await db
+      .select({ total: sql<number>`coalesce(sum(${submissionCounts.count}), 0)`.mapWith(Number) })
+      .from(submissionCounts)
+      .where(and(eq(submissionCounts.organizationId, organizationId), gte(submissionCounts.day, fromDay)));
+    return total;
+  }
+
+  async countSubmissions(organizationId: number, fromDay: string): Promise<number> {
+    return this.countSubmissionsIn(this.db, organizationId, fromDay);
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const [token] = await this.db.insert(apiTokens).values(insertToken).returning();
+    return token;
+  }
+
+  async listApiTokens(organizationId: number, userId: number): Promise<ApiToken[]> {
+    return this.db
+      .select()
+      .from(apiTokens)
+      .where(and(eq(apiTokens.organizationId, organizationId), eq(apiTokens.userId, userId)))
+      .orderBy(desc(apiTokens.createdAt), desc(apiTokens.id));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await this.db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async updateApiToken(
+    organizationId: number,
+    id: number,
+    update: Partial<Pick<ApiToken, "lastUsedAt" | "revokedAt">>
+  ): Promise<ApiToken | undefined> {
+    const [token] = await this.db
+      .update(apiTokens)
+      .set(update)
+      .where(and(eq(apiTokens.organizationId, organizationId), eq(apiTokens.id, id)))
+      .returning();
+    return token;
+  }
+
+  async createWebhook(insertWebhook: InsertWebhook): Promise<Webhook> {
+    const [webhook] = await this.db.insert(webhooks).values(insertWebhook).returning();
+    return webhook;
+  }
+
+  async listWebhooks(organizationId: number): Promise<Webhook[]> {
+    return this.db
+      .select()
+      .from(webhooks)
+      .where(eq(webhooks.organizationId, organizationId))
+      .orderBy(webhooks.id);
+  }
+
+  async getWebhook(organizationId: number, id: number): Promise<Webhook | undefined> {
+    const [webhook] = await this.db
+      .select()
+      .from(webhooks)
+      .where(and(eq(webhooks.organizationId, organizationId), eq(webhooks.id, id)));
+    return webhook;
+  }
+
+  async updateWebhook(
+    organizationId: number,
+    id: number,
+    update: Partial<Pick<Webhook, "url" | "events" | "active">>
+  ): Promise<Webhook | undefined> {
+    const [webhook] = await this.db
+      .update(webhooks)
+      .set(update)
+      .where(and(eq(webhooks.organizationId, organizationId), eq(webhooks.id, id)))
+      .returning();
+    return webhook;
+  }
+
+  async deleteWebhook(organizationId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(webhooks)
+      .where(and(eq(webhooks.organizationId, organizationId), eq(webhooks.id, id)))
+      .returning({ id: webhooks.id });
+    return deleted.length > 0;
+  }
+
+  async createWebhookDelivery(insertDelivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [delivery] = await this.db.insert(webhookDeliveries).values(insertDelivery).returning();
+    return delivery;
+  }
+
+  async updateWebhookDelivery(
+    id: number,
+    update: Partial<InsertWebhookDelivery>
+  ): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db
+      .update(webhookDeliveries)
+      .set(update)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return delivery;
+  }
+
+  async getWebhookDelivery(organizationId: number, id: number): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.organizationId, organizationId), eq(webhookDeliveries.id, id)));
+    return delivery;
+  }
+
+  async listWebhookDeliveries(
+    organizationId: number,
+    webhookId: number,
+    limit: number
+  ): Promise<WebhookDelivery[]> {
+    return this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(
+        and(
+          eq(webhookDeliveries.organizationId, organizationId),
+          eq(webhookDeliveries.webhookId, webhookId),
+        ),
+      )
+      .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+
+  async listDueWebhookDeliveries(now: Date): Promise<WebhookDelivery[]> {
+    return this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(
+        and(
+          eq(webhookDeliveries.status, "pending"),
+          lte(webhookDeliveries.nextAttemptAt, now),
+        ),
+      );
+  }
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = db ? new DatabaseStorage(db) : new MemStorage();
@@ -0,0 +1,268 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { lookup as lookupCallback, type LookupAddress } from "dns";
+import { lookup } from "dns/promises";
+import { BlockList, type LookupFunction } from "net";
+import { Agent, fetch as fetchWithAgent } from "undici";
+import type {
+  CreatedWebhook,
+  ExtractionResultDownload,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookInput,
+  WebhookPayload,
+  WebhookSummary,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { decryptSecret, encryptSecret } from "./secret-box";
+
+const SECRET_PREFIX = "whsec_";
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Retries wait 30s, 1m, 2m, 4m and 8m before the delivery is given up
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_INTERVAL_MS = 15 * 1000;
+
+// Addresses a webhook must not reach: this host, private networks, link-local
+// ones (which include cloud metadata endpoints) and other reserved ranges.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+function isBlockedAddress({ address, family }: LookupAddress): boolean {
+  return blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+// Deliveries resolve the host again when they connect, and refuse a blocked
+// address there too, so a host that changes its address after the check
+// below still cannot reach one. Addresses given as IPs are not looked up and
+// are only checked below.
+const checkedLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "", 0);
+    if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+      return callback(new Error(`${hostname} resolves to a loopback, private or link-local address`), "", 0);
+    }
+    if (options.all) return (callback as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const deliveryAgent = new Agent({ connect: { lookup: checkedLookup } });
+
+// Why a webhook may not be sent to the URL, or undefined when it may. Every
+// address the host resolves to must be public.
+export async function checkWebhookUrl(url: string): Promise<string | undefined> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Enter a valid URL";
+  }
+  if (parsed.protocol !== "https:") return "The URL must start with https://";
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  let addresses: Array<{ address: string; family: number }>;
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    return `The host ${host} could not be resolved`;
+  }
+  if (addresses.some(isBlockedAddress)) return "The URL must not point to a loopback, private or link-local address";
+  return undefined;
+}
+
+export function toWebhookSummary({ encryptedSecret: _encryptedSecret, ...webhook }: Webhook): WebhookSummary {
+  return webhook;
+}
+
+export async function createWebhook(
+  organizationId: number,
+  input: WebhookInput,
+  userId: number
+): Promise<CreatedWebhook> {
+  const secret = SECRET_PREFIX + randomBytes(24).toString("base64url");
+  const webhook = await storage.createWebhook({
+    organizationId,
+    url: input.url,
+    encryptedSecret: encryptSecret(secret),
+    events: Array.from(new Set(input.events)),
+    active: input.active,
+    createdBy: userId,
+  });
+  console.log(`[Webhooks] Created webhook ${webhook.id} for organization ${organizationId}`);
+  return { ...toWebhookSummary(webhook), secret };
+}
+
+// Receivers recompute this over "<timestamp>.<body>" with their copy of the
+// secret; the timestamp lets them reject replayed requests
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+function nextRetryAt(attempts: number, now: Date): Date | null {
+  if (attempts >= MAX_ATTEMPTS) return null;
+  return new Date(now.getTime() + RETRY_BASE_MS * 2 ** (attempts - 1));
+}
+
+// Make one attempt at a delivery and record its outcome. A failed attempt is
+// scheduled for a retry until MAX_ATTEMPTS is reached.
+async function attemptDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery | undefined> {
+  // Deliveries queued before a webhook was turned off or deleted are dropped
+  const webhook = await storage.getWebhook(delivery.organizationId, delivery.webhookId);
+  if (!webhook?.active) {
+    console.log(`[Webhooks] Dropping delivery ${delivery.id}, its webhook is inactive or deleted`);
+    return storage.updateWebhookDelivery(delivery.id, {
+      status: "failed",
+      error: "The webhook was deactivated or deleted",
+      nextAttemptAt: null,
+    });
+  }
+
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+  // Claim the delivery so the retry timer does not pick it up meanwhile
+  await storage.updateWebhookDelivery(delivery.id, { nextAttemptAt: null });
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(now.getTime() / 1000);
+  let responseStatus: number | null = null;
+  // Checked again before each attempt, since the host's address can change
+  let error = (await checkWebhookUrl(webhook.url)) ?? null;
+  if (error === null) {
+    try {
+      const response = await fetchWithAgent(webhook.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "license-extractor-webhooks",
+          "X-Webhook-Event": delivery.event,
+          "X-Webhook-Delivery": String(delivery.id),
+          "X-Webhook-Timestamp": String(timestamp),
+          "X-Webhook-Signature": `sha256=${signPayload(decryptSecret(webhook.encryptedSecret), timestamp, body)}`,
+        },
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        dispatcher: deliveryAgent,
+      });
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `Endpoint responded with ${response.status}`;
+      }
+    } catch (err: any) {
+      // Connection failures, including a refused address, are reported as the cause
+      error =
+        err?.name === "TimeoutError" ? "Request timed out" : err?.cause?.message || err?.message || String(err);
+    }
+  }
+
+  const succeeded = error === null;
+  const retryAt = succeeded ? null : nextRetryAt(attempts, now);
+  console.log(
+    `[Webhooks] Delivery ${delivery.id} attempt ${attempts} ${succeeded ? "succeeded" : `failed: ${error}`}` +
+      (retryAt ? `, retrying at ${retryAt.toISOString()}` : ""),
+  );
+  return storage.updateWebhookDelivery(delivery.id, {
+    attempts,
+    lastAttemptAt: now,
+    responseStatus,
+    error,
+    status: succeeded ? "succeeded" : retryAt ? "pending" : "failed",
+    nextAttemptAt: retryAt,
+  });
+}
+
+function sendInBackground(delivery: WebhookDelivery) {
+  attemptDelivery(delivery).catch((error) => {
+    console.error(`[Webhooks] Failed to send delivery ${delivery.id}:`, error);
+  });
+}
+
+// Queue an event for every active webhook of the organization subscribed to
+// it. Best effort: failures are logged and never fail the caller.
+export async function emitWebhookEvent(
+  organizationId: number,
+  event: WebhookEvent,
+  data: ExtractionResultDownload
+): Promise<void> {
+  try {
+    const subscribed = (await storage.listWebhooks(organizationId)).filter(
+      (webhook) => webhook.active && webhook.events.includes(event),
+    );
+    if (subscribed.length === 0) return;
+
+    // Dates are sent as ISO strings, which is also how they are stored
+    const payload: WebhookPayload = JSON.parse(
+      JSON.stringify({ id: randomUUID(), event, createdAt: new Date().toISOString(), data }),
+    );
+    for (const webhook of subscribed) {
+      const delivery = await storage.createWebhookDelivery({
+        organizationId,
+        webhookId: webhook.id,
+        event,
+        payload,
+      });
+      sendInBackground(delivery);
+    }
+  } catch (error) {
+    console.error(`[Webhooks] Failed to queue ${event} for organization ${organizationId}:`, error);
+  }
+}
+
+// Send a past delivery's payload again as a new delivery, with its own retries
+export async function redeliverWebhook(
+  organizationId: number,
+  webhookId: number,
+  deliveryId: number
+): Promise<WebhookDelivery | undefined> {
+  const original = await storage.getWebhookDelivery(organizationId, deliveryId);
+  if (!original || original.webhookId !== webhookId) return undefined;
+
+  const delivery = await storage.createWebhookDelivery({
+    organizationId,
+    webhookId,
+    event: original.event,
+    payload: original.payload,
+  });
+  console.log(`[Webhooks] Redelivering delivery ${original.id} as ${delivery.id}`);
+  sendInBackground(delivery);
+  return delivery;
+}
+
+// Retry failed deliveries whose backoff has elapsed
+export function startWebhookRetries(): void {
+  const run = async () => {
+    try {
+      for (const delivery of await storage.listDueWebhookDeliveries(new Date())) {
+        sendInBackground(delivery);
+      }
+    } catch (error) {
+      console.error("[Webhooks] Failed to retry deliveries:", error);
+    }
+  };
+  setInterval(run, RETRY_INTERVAL_MS).unref();
+}
@@ -0,0 +1,136 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { deflateRawSync } from "zlib";
+import { readZipEntries } from "./zip-reader";
+
+interface TestEntry {
+  name: string;
+  data: Buffer;
+  deflate?: boolean;
+  // Recorded in place of the real uncompressed size
+  size?: number;
+}
+
+// A ZIP archive as archivers write it: local headers with the data, then the
+// central directory and the end record. CRCs are left zero as the reader
+// does not check them.
+function zip(entries: TestEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const { name, data, deflate, size } of entries) {
+    const nameBytes = Buffer.from(name);
+    const stored = deflate ? deflateRawSync(data) : data;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(deflate ? 8 : 0, 8);
+    local.writeUInt32LE(stored.length, 18);
+    local.writeUInt32LE(size ?? data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, stored);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(deflate ? 8 : 0, 10);
+    header.writeUInt32LE(stored.length, 20);
+    header.writeUInt32LE(size ?? data.length, 24);
+    header.writeUInt16LE(nameBytes.length, 28);
+    header.writeUInt32LE(offset, 42);
+    central.push(header, nameBytes);
+
+    offset += local.length + nameBytes.length + stored.length;
+  }
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const JPEG = Buffer.from("not really a jpeg, but bytes all the same");
+
+describe("readZipEntries", () => {
+  test("reads stored and deflated entries", () => {
+    const entries = readZipEntries(
+      zip([
+        { name: "scans/front.jpg", data: JPEG },
+        { name: "scans/back.jpg", data: JPEG, deflate: true },
+      ]),
+    );
+    assert.deepEqual(
+      entries.map((entry) => [entry.name, entry.size]),
+      [
+        ["scans/front.jpg", JPEG.length],
+        ["scans/back.jpg", JPEG.length],
+      ],
+    );
+    assert.deepEqual(entries[0].read(), JPEG);
+    assert.deepEqual(entries[1].read(), JPEG);
+  });
+
+  test("leaves out directories", () => {
+    const entries = readZipEntries(
+      zip([
+        { name: "scans/", data: Buffer.alloc(0) },
+        { name: "scans/front.jpg", data: JPEG },
+      ]),
+    );
+    assert.deepEqual(
+      entries.map((entry) => entry.name),
+      ["scans/front.jpg"],
+    );
+  });
+
+  test("stops inflating an entry at its recorded size", () => {
+    // A few kilobytes that inflate to 50 MB while claiming a single kilobyte
+    const inflated = Buffer.alloc(50 * 1024 * 1024);
+    const [bomb] = readZipEntries(zip([{ name: "bomb.jpg", data: inflated, deflate: true, size: 1024 }]));
+    assert.equal(bomb.size, 1024);
+    assert.throws(() => bomb.read(), { message: "The ZIP entry bomb.jpg is damaged" });
+  });
+
+  test("rejects entries whose data does not match the recorded size", () => {
+    const [short] = readZipEntries(zip([{ name: "short.jpg", data: JPEG, deflate: true, size: JPEG.length + 1 }]));
+    assert.throws(() => short.read(), { message: "The ZIP entry short.jpg is damaged" });
+    const [stored] = readZipEntries(zip([{ name: "stored.jpg", data: JPEG, size: JPEG.length * 2 }]));
+    assert.throws(() => stored.read(), { message: "The ZIP entry stored.jpg is damaged" });
+  });
+
+  test("rejects truncated archives", () => {
+    const archive = zip([{ name: "front.jpg", data: JPEG }, { name: "back.jpg", data: JPEG, deflate: true }]);
+    assert.throws(() => readZipEntries(archive.subarray(0, archive.length - 10)), { message: "Not a ZIP archive" });
+    assert.throws(() => readZipEntries(Buffer.alloc(10)), { message: "Not a ZIP archive" });
+
+    // The end record kept, but the central directory it points to cut short
+    const end = archive.subarray(archive.length - 22);
+    const directoryStart = end.readUInt32LE(16);
+    const cut = Buffer.concat([archive.subarray(0, directoryStart + 50), end]);
+    assert.throws(() => readZipEntries(cut), { message: "The ZIP archive is damaged" });
+
+    // The central directory kept, but pointing past the data
+    const pastHeader = Buffer.from(archive);
+    pastHeader.writeUInt32LE(archive.length - 4, directoryStart + 42);
+    assert.throws(() => readZipEntries(pastHeader)[0].read(), { message: "The ZIP entry front.jpg is damaged" });
+    const pastData = Buffer.from(archive);
+    pastData.writeUInt32LE(archive.length, directoryStart + 20);
+    assert.throws(() => readZipEntries(pastData)[0].read(), { message: "The ZIP entry front.jpg is damaged" });
+  });
+
+  test("rejects entries that would write outside the archive's folder", () => {
+    for (const name of ["../evil.jpg", "scans/../../evil.jpg", "/etc/evil.jpg", "C:/evil.jpg", "..\\evil.jpg"]) {
+      assert.throws(() => readZipEntries(zip([{ name, data: JPEG }])), /has an unsafe path/, name);
+    }
+    assert.equal(readZipEntries(zip([{ name: "scans/..front.jpg", data: JPEG }])).length, 1);
+  });
+
+  test("rejects encrypted entries", () => {
+    const archive = zip([{ name: "front.jpg", data: JPEG }]);
+    const directoryStart = archive.readUInt32LE(archive.length - 22 + 16);
+    archive.writeUInt16LE(0x1, directoryStart + 8);
+    assert.throws(() => readZipEntries(archive), { message: "Encrypted ZIP archives are not supported" });
+  });
+});
@@ -0,0 +1,106 @@
+import { inflateRawSync } from "zlib";
+
+// Record signatures of the ZIP format
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const END_RECORD_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x1;
+
+// Sizes and offsets saturate at this value in archives that need ZIP64
+const ZIP64_MARKER = 0xffffffff;
+
+// A file in an archive, read only when asked for so entries that are skipped
+// are never inflated
+export interface ZipEntry {
+  // Path inside the archive, with forward slashes
+  name: string;
+  // Uncompressed size, as recorded in the archive
+  size: number;
+  read(): Buffer;
+}
+
+// The end of central directory record closes the archive, followed only by
+// an optional comment
+function findEndRecord(buffer: Buffer): number {
+  const lowest = Math.max(0, buffer.length - END_RECORD_SIZE - MAX_COMMENT_SIZE);
+  for (let offset = buffer.length - END_RECORD_SIZE; offset >= lowest; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error("Not a ZIP archive");
+}
+
+// List the files of a ZIP archive held in memory. Directories are left out.
+// Stored and deflated entries are supported; ZIP64 and encrypted archives
+// are not.
+export function readZipEntries(buffer: Buffer): ZipEntry[] {
+  const end = findEndRecord(buffer);
+  const entryCount = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  if (offset === ZIP64_MARKER) throw new Error("ZIP64 archives are not supported");
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("The ZIP archive is damaged");
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength).replace(/\\/g, "/");
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    // Names are only ever used for their last segment, but an archive built to
+    // write outside its folder is not one to trust
+    if (name.startsWith("/") || /^[a-z]:/i.test(name) || name.split("/").includes("..")) {
+      throw new Error(`The ZIP entry ${name} has an unsafe path`);
+    }
+    if (flags & FLAG_ENCRYPTED) throw new Error("Encrypted ZIP archives are not supported");
+    if (compressedSize === ZIP64_MARKER || size === ZIP64_MARKER || localOffset === ZIP64_MARKER) {
+      throw new Error("ZIP64 archives are not supported");
+    }
+
+    entries.push({
+      name,
+      size,
+      read: () => {
+        if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+          throw new Error(`The ZIP entry ${name} is damaged`);
+        }
+        // The local header repeats the name but may carry a different extra field
+        const start =
+          localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+        if (start + compressedSize > buffer.length) throw new Error(`The ZIP entry ${name} is damaged`);
+        const data = buffer.subarray(start, start + compressedSize);
+        if (method === METHOD_STORED) {
+          if (compressedSize !== size) throw new Error(`The ZIP entry ${name} is damaged`);
+          return Buffer.from(data);
+        }
+        if (method !== METHOD_DEFLATE) {
+          throw new Error(`The ZIP entry ${name} uses an unsupported compression method`);
+        }
+        // Capped at the recorded size, so a lying header cannot inflate without bound
+        let inflated: Buffer;
+        try {
+          inflated = inflateRawSync(data, { maxOutputLength: Math.max(size, 1) });
+        } catch {
+          throw new Error(`The ZIP entry ${name} is damaged`);
+        }
+        if (inflated.length !== size) throw new Error(`The ZIP entry ${name} is damaged`);
+        return inflated;
+      },
+    });
+  }
+  return entries;
+}
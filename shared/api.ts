@@ -0,0 +1,744 @@
+import { z } from "zod";
+import {
+  apiTokenSummarySchema,
+  appSettingsSchema,
+  batchResultsDownloadSchema,
+  batchSchema,
+  costReportQuerySchema,
+  costReportSchema,
+  createApiTokenSchema,
+  createdApiTokenSchema,
+  createdWebhookSchema,
+  createMemberSchema,
+  driverLicenseExtractionSchema,
+  extractionListQuerySchema,
+  extractionPageSchema,
+  extractionProviderNames,
+  extractionRecordSchema,
+  extractionResultDownloadSchema,
+  imageQualitySchema,
+  insertUserSchema,
+  jobSchema,
+  openAIResponseSchema,
+  organizationSchema,
+  profileInputSchema,
+  profileSummarySchema,
+  progressEventSchema,
+  publicUserSchema,
+  registerUserSchema,
+  submissionErrorSchema,
+  updateUserRoleSchema,
+  usageSchema,
+  webhookDeliverySchema,
+  webhookInputSchema,
+  webhookSummarySchema,
+  type ApiTokenScope,
+  type Permission,
+} from "./schema";
+
+// Contracts of the HTTP API. The server validates requests against these and
+// publishes them as an OpenAPI document, so every /api route must have one.
+
+export interface ApiResponse {
+  description: string;
+  schema?: z.ZodTypeAny;
+  // Defaults to application/json
+  contentType?: string;
+}
+
+export interface ApiRoute {
+  method: "get" | "post" | "put" | "patch" | "delete";
+  // Express path, e.g. /api/jobs/:id
+  path: string;
+  summary: string;
+  tag: string;
+  // "session" routes need a logged-in user, "token" ones a bearer API token
+  auth: "none" | "session" | "token";
+  // Role permission or token scope checked on top of authentication
+  permission?: Permission | ApiTokenScope;
+  params?: z.AnyZodObject;
+  query?: z.AnyZodObject;
+  // Request headers, named in lower case as Node reports them
+  headers?: z.AnyZodObject;
+  body?: z.ZodTypeAny;
+  // Fields of a multipart form whose images are sent as "files"
+  form?: z.AnyZodObject;
+  responses: Record<number, ApiResponse>;
+}
+
+const idParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+const jobParamsSchema = z.object({
+  id: z.string().uuid("Expected a job id"),
+});
+
+const imageParamsSchema = idParamsSchema.extend({
+  position: z.coerce.number().int().min(0),
+});
+
+const batchParamsSchema = z.object({
+  id: z.string().uuid("Expected a batch id"),
+});
+
+const batchDocumentParamsSchema = batchParamsSchema.extend({
+  index: z.coerce.number().int().min(0),
+});
+
+const deliveryParamsSchema = idParamsSchema.extend({
+  deliveryId: z.coerce.number().int().positive(),
+});
+
+// Form fields of extraction requests. A profileId takes the provider and its
+// credentials from a saved profile; otherwise they come from the form.
+export const extractionFormSchema = z.object({
+  profileId: z.coerce.number().int().positive().optional(),
+  provider: z.enum(extractionProviderNames).optional(),
+  apiKey: z.string().optional(),
+  assistantId: z.string().optional(),
+  model: z.string().optional(),
+});
+
+// /api/v1 jobs and batches always run with a saved profile
+const tokenExtractionFormSchema = z.object({
+  profileId: z.coerce
+    .number({ invalid_type_error: "profileId is required" })
+    .int()
+    .positive(),
+});
+
+// Retrying a submission with the same key returns what the first one did, so a
+// timeout or double click never starts a second run
+const idempotencyHeadersSchema = z.object({
+  "idempotency-key": z
+    .string()
+    .min(1)
+    .max(255)
+    .optional()
+    .describe("Unique key of this submission, e.g. a UUID. Kept for 24 hours."),
+});
+
+export const api = {
+  register: {
+    method: "post",
+    path: "/api/register",
+    summary: "Sign up, creating an organization with you as its admin",
+    tag: "Auth",
+    auth: "none",
+    body: registerUserSchema,
+    responses: {
+      201: { description: "The new user, now signed in", schema: publicUserSchema },
+      409: { description: "The username or organization name is taken" },
+    },
+  },
+  login: {
+    method: "post",
+    path: "/api/login",
+    summary: "Sign in",
+    tag: "Auth",
+    auth: "none",
+    body: insertUserSchema,
+    responses: {
+      200: { description: "The signed-in user", schema: publicUserSchema },
+      401: { description: "Invalid username or password" },
+    },
+  },
+  logout: {
+    method: "post",
+    path: "/api/logout",
+    summary: "Sign out",
+    tag: "Auth",
+    auth: "none",
+    responses: {
+      200: { description: "Signed out", contentType: "text/plain" },
+    },
+  },
+  getCurrentUser: {
+    method: "get",
+    path: "/api/user",
+    summary: "The signed-in user",
+    tag: "Auth",
+    auth: "session",
+    responses: {
+      200: { description: "The signed-in user", schema: publicUserSchema },
+    },
+  },
+  processImages: {
+    method: "post",
+    path: "/api/process-images",
+    summary: "Extract fields from images and wait for the result",
+    tag: "Extractions",
+    auth: "session",
+    permission: "extractions:submit",
+    headers: idempotencyHeadersSchema,
+    form: extractionFormSchema,
+    responses: {
+      200: {
+        description:
+          "The extraction result, with all images read as one document. A retry with the same Idempotency-Key gets the same result.",
+        schema: openAIResponseSchema,
+      },
+      422: {
+        description:
+          "The Idempotency-Key was used for a different request, or the images failed the quality check",
+        schema: submissionErrorSchema,
+      },
+      429: { description: "Too many submissions, or a submission quota is used up. See Retry-After." },
+    },
+  },
+  checkImageQuality: {
+    method: "post",
+    path: "/api/images/quality",
+    summary: "Check photos for blur, glare, resolution and framing before submitting them",
+    tag: "Extractions",
+    auth: "session",
+    permission: "extractions:submit",
+    form: z.object({}),
+    responses: {
+      200: { description: "The quality of each image, in upload order", schema: z.array(imageQualitySchema) },
+    },
+  },
+  createJob: {
+    method: "post",
+    path: "/api/jobs",
+    summary: "Start an extraction job",
+    tag: "Jobs",
+    auth: "session",
+    permission: "extractions:submit",
+    headers: idempotencyHeadersSchema,
+    form: extractionFormSchema,
+    responses: {
+      200: { description: "The job already started with this Idempotency-Key", schema: jobSchema },
+      202: {
+        description: "The queued job. Its images are paired into documents, each extracted on its own.",
+        schema: jobSchema,
+      },
+      422: {
+        description:
+          "The Idempotency-Key was used for a different request, or the images failed the quality check",
+        schema: submissionErrorSchema,
+      },
+      429: { description: "Too many submissions, or a submission quota is used up. See Retry-After." },
+    },
+  },
+  getJob: {
+    method: "get",
+    path: "/api/jobs/:id",
+    summary: "Status and, once finished, result of a job",
+    tag: "Jobs",
+    auth: "session",
+    params: jobParamsSchema,
+    responses: {
+      200: { description: "The job", schema: jobSchema },
+      404: { description: "No such job of yours" },
+    },
+  },
+  streamJobEvents: {
+    method: "get",
+    path: "/api/jobs/:id/events",
+    summary: "Stream the progress of a job as server-sent events",
+    tag: "Jobs",
+    auth: "session",
+    params: jobParamsSchema,
+    responses: {
+      200: {
+        description:
+          "\"progress\" events carrying a progress event as JSON, then a final \"done\" event",
+        contentType: "text/event-stream",
+        schema: progressEventSchema,
+      },
+      404: { description: "No such job of yours" },
+    },
+  },
+  cancelJob: {
+    method: "delete",
+    path: "/api/jobs/:id",
+    summary: "Cancel a job",
+    tag: "Jobs",
+    auth: "session",
+    params: jobParamsSchema,
+    responses: {
+      200: { description: "The cancelled job", schema: jobSchema },
+      404: { description: "No such job of yours" },
+    },
+  },
+  createBatch: {
+    method: "post",
+    path: "/api/batches",
+    summary: "Start a batch from images and ZIP archives of images, sorted into documents",
+    tag: "Batches",
+    auth: "session",
+    permission: "extractions:submit",
+    form: tokenExtractionFormSchema,
+    responses: {
+      202: { description: "The batch, queued while its images are sorted into documents", schema: batchSchema },
+      411: { description: "The upload did not state its Content-Length" },
+      413: { description: "The upload is larger than 200 MB" },
+      429: { description: "Too many submissions. See Retry-After." },
+    },
+  },
+  listBatches: {
+    method: "get",
+    path: "/api/batches",
+    summary: "Your batches, newest first",
+    tag: "Batches",
+    auth: "session",
+    responses: {
+      200: { description: "The batches", schema: z.array(batchSchema) },
+    },
+  },
+  getBatch: {
+    method: "get",
+    path: "/api/batches/:id",
+    summary: "Status of a batch and each of its documents",
+    tag: "Batches",
+    auth: "session",
+    params: batchParamsSchema,
+    responses: {
+      200: { description: "The batch", schema: batchSchema },
+      404: { description: "No such batch of yours" },
+    },
+  },
+  cancelBatch: {
+    method: "delete",
+    path: "/api/batches/:id",
+    summary: "Cancel a batch",
+    tag: "Batches",
+    auth: "session",
+    params: batchParamsSchema,
+    responses: {
+      200: { description: "The cancelled batch", schema: batchSchema },
+      404: { description: "No such batch of yours" },
+    },
+  },
+  retryBatch: {
+    method: "post",
+    path: "/api/batches/:id/retry",
+    summary: "Run every failed or cancelled document of a batch again",
+    tag: "Batches",
+    auth: "session",
+    permission: "extractions:submit",
+    params: batchParamsSchema,
+    responses: {
+      200: { description: "The batch", schema: batchSchema },
+      404: { description: "No such batch of yours" },
+      409: { description: "Nothing to retry, or the images of the batch are no longer kept" },
+    },
+  },
+  retryBatchDocument: {
+    method: "post",
+    path: "/api/batches/:id/documents/:index/retry",
+    summary: "Run a failed or cancelled document of a batch again",
+    tag: "Batches",
+    auth: "session",
+    permission: "extractions:submit",
+    params: batchDocumentParamsSchema,
+    responses: {
+      200: { description: "The batch", schema: batchSchema },
+      404: { description: "No such batch of yours, or no such document" },
+      409: { description: "The document has not failed, or the images of the batch are no longer kept" },
+    },
+  },
+  downloadBatchResults: {
+    method: "get",
+    path: "/api/batches/:id/results",
+    summary: "Download the results of every document of a batch",
+    tag: "Batches",
+    auth: "session",
+    params: batchParamsSchema,
+    responses: {
+      200: { description: "The results as a JSON attachment", schema: batchResultsDownloadSchema },
+      404: { description: "No such batch of yours" },
+    },
+  },
+  listExtractions: {
+    method: "get",
+    path: "/api/extractions",
+    summary: "Past extractions, newest first",
+    tag: "Extractions",
+    auth: "session",
+    query: extractionListQuerySchema,
+    responses: {
+      200: { description: "One page of extractions", schema: extractionPageSchema },
+    },
+  },
+  getExtraction: {
+    method: "get",
+    path: "/api/extractions/:id",
+    summary: "One extraction with its images and result",
+    tag: "Extractions",
+    auth: "session",
+    params: idParamsSchema,
+    responses: {
+      200: { description: "The extraction", schema: extractionRecordSchema },
+      404: { description: "Extraction not found" },
+    },
+  },
+  correctExtraction: {
+    method: "patch",
+    path: "/api/extractions/:id/fields",
+    summary: "Replace the extracted fields with corrections",
+    tag: "Extractions",
+    auth: "session",
+    permission: "extractions:correct",
+    params: idParamsSchema,
+    body: driverLicenseExtractionSchema,
+    responses: {
+      200: { description: "The corrected extraction", schema: extractionRecordSchema },
+      404: { description: "Extraction result not found" },
+    },
+  },
+  getExtractionImage: {
+    method: "get",
+    path: "/api/extractions/:id/images/:position",
+    summary: "The original bytes of an extraction's image",
+    tag: "Extractions",
+    auth: "session",
+    params: imageParamsSchema,
+    responses: {
+      200: { description: "The image", contentType: "image/*" },
+      404: { description: "Image not found" },
+    },
+  },
+  getCorrectedExtractionImage: {
+    method: "get",
+    path: "/api/extractions/:id/images/:position/corrected",
+    summary: "The card cropped and straightened from an extraction's image, as sent to the provider",
+    tag: "Extractions",
+    auth: "session",
+    params: imageParamsSchema,
+    responses: {
+      200: { description: "The image", contentType: "image/jpeg" },
+      404: { description: "The image was not cropped to a card" },
+    },
+  },
+  listProfiles: {
+    method: "get",
+    path: "/api/profiles",
+    summary: "Saved extraction profiles, without their API keys",
+    tag: "Profiles",
+    auth: "session",
+    responses: {
+      200: { description: "The profiles", schema: z.array(profileSummarySchema) },
+    },
+  },
+  createProfile: {
+    method: "post",
+    path: "/api/profiles",
+    summary: "Save an extraction profile",
+    tag: "Profiles",
+    auth: "session",
+    permission: "profiles:manage",
+    body: profileInputSchema,
+    responses: {
+      201: { description: "The new profile", schema: profileSummarySchema },
+    },
+  },
+  updateProfile: {
+    method: "patch",
+    path: "/api/profiles/:id",
+    summary: "Change an extraction profile",
+    tag: "Profiles",
+    auth: "session",
+    permission: "profiles:manage",
+    params: idParamsSchema,
+    body: profileInputSchema.partial(),
+    responses: {
+      200: { description: "The updated profile", schema: profileSummarySchema },
+      404: { description: "Profile not found" },
+    },
+  },
+  deleteProfile: {
+    method: "delete",
+    path: "/api/profiles/:id",
+    summary: "Delete an extraction profile",
+    tag: "Profiles",
+    auth: "session",
+    permission: "profiles:manage",
+    params: idParamsSchema,
+    responses: {
+      204: { description: "Deleted" },
+      404: { description: "Profile not found" },
+    },
+  },
+  getOrganization: {
+    method: "get",
+    path: "/api/organization",
+    summary: "The organization of the signed-in user",
+    tag: "Organization",
+    auth: "session",
+    responses: {
+      200: { description: "The organization", schema: organizationSchema },
+      404: { description: "Organization not found" },
+    },
+  },
+  listUsers: {
+    method: "get",
+    path: "/api/users",
+    summary: "Members of your organization",
+    tag: "Organization",
+    auth: "session",
+    permission: "users:manage",
+    responses: {
+      200: { description: "The members", schema: z.array(publicUserSchema) },
+    },
+  },
+  addUser: {
+    method: "post",
+    path: "/api/users",
+    summary: "Add a member to your organization",
+    tag: "Organization",
+    auth: "session",
+    permission: "users:manage",
+    body: createMemberSchema,
+    responses: {
+      201: { description: "The new member", schema: publicUserSchema },
+      409: { description: "The username is taken" },
+    },
+  },
+  updateUserRole: {
+    method: "patch",
+    path: "/api/users/:id",
+    summary: "Change the role of a member",
+    tag: "Organization",
+    auth: "session",
+    permission: "users:manage",
+    params: idParamsSchema,
+    body: updateUserRoleSchema,
+    responses: {
+      200: { description: "The updated member", schema: publicUserSchema },
+      404: { description: "User not found" },
+    },
+  },
+  getSettings: {
+    method: "get",
+    path: "/api/settings",
+    summary: "Settings of your organization",
+    tag: "Organization",
+    auth: "session",
+    permission: "settings:manage",
+    responses: {
+      200: { description: "The settings", schema: appSettingsSchema },
+    },
+  },
+  getUsage: {
+    method: "get",
+    path: "/api/usage",
+    summary: "Submissions used against your organization's quotas",
+    tag: "Organization",
+    auth: "session",
+    permission: "settings:manage",
+    responses: {
+      200: { description: "Quota usage and rate limits", schema: usageSchema },
+    },
+  },
+  getCostReport: {
+    method: "get",
+    path: "/api/costs",
+    summary: "Token usage and estimated cost per day, user and profile",
+    tag: "Organization",
+    auth: "session",
+    permission: "costs:read",
+    query: costReportQuerySchema,
+    responses: {
+      200: { description: "The cost report", schema: costReportSchema },
+    },
+  },
+  updateSettings: {
+    method: "put",
+    path: "/api/settings",
+    summary: "Change settings of your organization",
+    tag: "Organization",
+    auth: "session",
+    permission: "settings:manage",
+    body: appSettingsSchema.partial(),
+    responses: {
+      200: { description: "The updated settings", schema: appSettingsSchema },
+    },
+  },
+  listApiTokens: {
+    method: "get",
+    path: "/api/tokens",
+    summary: "Your API tokens",
+    tag: "API tokens",
+    auth: "session",
+    responses: {
+      200: { description: "The tokens, newest first", schema: z.array(apiTokenSummarySchema) },
+    },
+  },
+  createApiToken: {
+    method: "post",
+    path: "/api/tokens",
+    summary: "Create an API token",
+    tag: "API tokens",
+    auth: "session",
+    body: createApiTokenSchema,
+    responses: {
+      201: { description: "The token, shown only this once", schema: createdApiTokenSchema },
+      403: { description: "Your role does not allow one of the scopes" },
+    },
+  },
+  revokeApiToken: {
+    method: "delete",
+    path: "/api/tokens/:id",
+    summary: "Revoke an API token",
+    tag: "API tokens",
+    auth: "session",
+    params: idParamsSchema,
+    responses: {
+      200: { description: "The revoked token", schema: apiTokenSummarySchema },
+      404: { description: "Token not found" },
+    },
+  },
+  listWebhooks: {
+    method: "get",
+    path: "/api/webhooks",
+    summary: "Webhook endpoints of your organization",
+    tag: "Webhooks",
+    auth: "session",
+    permission: "webhooks:manage",
+    responses: {
+      200: { description: "The webhooks", schema: z.array(webhookSummarySchema) },
+    },
+  },
+  createWebhook: {
+    method: "post",
+    path: "/api/webhooks",
+    summary: "Add a webhook endpoint",
+    tag: "Webhooks",
+    auth: "session",
+    permission: "webhooks:manage",
+    body: webhookInputSchema,
+    responses: {
+      201: {
+        description: "The webhook with its signing secret, shown only this once",
+        schema: createdWebhookSchema,
+      },
+    },
+  },
+  updateWebhook: {
+    method: "patch",
+    path: "/api/webhooks/:id",
+    summary: "Change or pause a webhook endpoint",
+    tag: "Webhooks",
+    auth: "session",
+    permission: "webhooks:manage",
+    params: idParamsSchema,
+    body: webhookInputSchema.partial(),
+    responses: {
+      200: { description: "The updated webhook", schema: webhookSummarySchema },
+      404: { description: "Webhook not found" },
+    },
+  },
+  deleteWebhook: {
+    method: "delete",
+    path: "/api/webhooks/:id",
+    summary: "Delete a webhook endpoint and its delivery log",
+    tag: "Webhooks",
+    auth: "session",
+    permission: "webhooks:manage",
+    params: idParamsSchema,
+    responses: {
+      204: { description: "Deleted" },
+      404: { description: "Webhook not found" },
+    },
+  },
+  listWebhookDeliveries: {
+    method: "get",
+    path: "/api/webhooks/:id/deliveries",
+    summary: "The 50 latest deliveries of a webhook",
+    tag: "Webhooks",
+    auth: "session",
+    permission: "webhooks:manage",
+    params: idParamsSchema,
+    responses: {
+      200: { description: "The deliveries, newest first", schema: z.array(webhookDeliverySchema) },
+      404: { description: "Webhook not found" },
+    },
+  },
+  redeliverWebhook: {
+    method: "post",
+    path: "/api/webhooks/:id/deliveries/:deliveryId/redeliver",
+    summary: "Send a delivery's payload again",
+    tag: "Webhooks",
+    auth: "session",
+    permission: "webhooks:manage",
+    params: deliveryParamsSchema,
+    responses: {
+      202: { description: "The new delivery, being sent", schema: webhookDeliverySchema },
+      404: { description: "Delivery not found" },
+    },
+  },
+  createJobWithToken: {
+    method: "post",
+    path: "/api/v1/jobs",
+    summary: "Start an extraction job with a saved profile",
+    tag: "API v1",
+    auth: "token",
+    permission: "jobs:write",
+    headers: idempotencyHeadersSchema,
+    form: tokenExtractionFormSchema,
+    responses: {
+      200: { description: "The job already started with this Idempotency-Key", schema: jobSchema },
+      202: {
+        description: "The queued job. Its images are paired into documents, each extracted on its own.",
+        schema: jobSchema,
+      },
+      422: {
+        description:
+          "The Idempotency-Key was used for a different request, or the images failed the quality check",
+        schema: submissionErrorSchema,
+      },
+      429: { description: "Too many submissions, or a submission quota is used up. See Retry-After." },
+    },
+  },
+  getJobWithToken: {
+    method: "get",
+    path: "/api/v1/jobs/:id",
+    summary: "Status and, once finished, result of a job",
+    tag: "API v1",
+    auth: "token",
+    permission: "jobs:read",
+    params: jobParamsSchema,
+    responses: {
+      200: { description: "The job", schema: jobSchema },
+      404: { description: "No such job of yours" },
+    },
+  },
+  listExtractionsWithToken: {
+    method: "get",
+    path: "/api/v1/extractions",
+    summary: "Past extractions, newest first",
+    tag: "API v1",
+    auth: "token",
+    permission: "extractions:read",
+    query: extractionListQuerySchema,
+    responses: {
+      200: { description: "One page of extractions", schema: extractionPageSchema },
+    },
+  },
+  downloadExtractionResult: {
+    method: "get",
+    path: "/api/v1/extractions/:id/result",
+    summary: "Download the parsed result of an extraction",
+    tag: "API v1",
+    auth: "token",
+    permission: "extractions:read",
+    params: idParamsSchema,
+    responses: {
+      200: { description: "The result as a JSON attachment", schema: extractionResultDownloadSchema },
+      404: { description: "Extraction not found" },
+    },
+  },
+  getOpenApiDocument: {
+    method: "get",
+    path: "/api/openapi.json",
+    summary: "This API description as an OpenAPI 3.1 document",
+    tag: "Docs",
+    auth: "none",
+    responses: {
+      200: { description: "The OpenAPI document" },
+    },
+  },
+} satisfies Record<string, ApiRoute>;
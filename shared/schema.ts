@@ -1,11 +1,27 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
-import { createInsertSchema } from "drizzle-zod";
+import { pgTable, text, serial, integer, boolean, timestamp, date, doublePrecision, jsonb, primaryKey, unique } from "drizzle-orm/pg-core";
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Client businesses. Every user belongs to one, and their extractions,
+// profiles and settings are only visible inside it.
+export const organizations = pgTable("organizations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type InsertOrganization = typeof organizations.$inferInsert;
+export type Organization = typeof organizations.$inferSelect;
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  organizationId: integer("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  // Whoever signs up an organization is its admin; admins add the other members
+  role: text("role").$type<UserRole>().notNull().default("operator"),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -13,11 +29,1018 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+const newCredentialsSchema = insertUserSchema.extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(64),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+// Sign-up form, which also creates the user's organization
+export const registerUserSchema = newCredentialsSchema.extend({
+  organizationName: z
+    .string()
+    .trim()
+    .min(2, "Organization name must be at least 2 characters")
+    .max(100),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type RegisterUser = z.infer<typeof registerUserSchema>;
 export type User = typeof users.$inferSelect;
+// A user as sent to the client, without the password hash
+export type PublicUser = Omit<User, "password">;
 
-// OpenAI related types
-export interface OpenAIResponse {
-  data?: any;
-  error?: string;
+// Roles, from least to most privileged
+export const userRoles = ["operator", "reviewer", "admin"] as const;
+
+export type UserRole = typeof userRoles[number];
+
+export const permissions = [
+  "extractions:submit",
+  // Read extractions submitted by anyone, not only your own
+  "extractions:read_all",
+  "extractions:correct",
+  "profiles:manage",
+  "users:manage",
+  "settings:manage",
+  "webhooks:manage",
+  // Token usage and estimated costs of the whole organization
+  "costs:read",
+] as const;
+
+export type Permission = typeof permissions[number];
+
+export const rolePermissions: Record<UserRole, readonly Permission[]> = {
+  operator: ["extractions:submit"],
+  reviewer: ["extractions:submit", "extractions:read_all", "extractions:correct"],
+  admin: permissions,
+};
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return rolePermissions[role].includes(permission);
+}
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(userRoles),
+});
+
+// An admin adding a member to their organization
+export const createMemberSchema = newCredentialsSchema.extend({
+  role: z.enum(userRoles),
+});
+
+export type UpdateUserRole = z.infer<typeof updateUserRoleSchema>;
+export type CreateMember = z.infer<typeof createMemberSchema>;
+
+// Extraction backends selectable per request
+export const extractionProviderNames = [
+  "assistants",
+  "chat-completions",
+  "fixture",
+] as const;
+
+export type ExtractionProviderName = typeof extractionProviderNames[number];
+
+// Driver's license extraction result
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Whether a YYYY-MM-DD string names a day on the calendar; 2026-02-31
+// matches the pattern but is not one
+export function isCalendarDay(value: string): boolean {
+  const time = Date.parse(value);
+  return !Number.isNaN(time) && new Date(time).toISOString().slice(0, 10) === value;
+}
+
+// A day in YYYY-MM-DD form that exists on the calendar
+const calendarDay = z
+  .string()
+  .regex(ISO_DATE, "Expected a date in YYYY-MM-DD format")
+  .refine((value) => !ISO_DATE.test(value) || isCalendarDay(value), "Expected a valid date");
+
+// Accepts ISO dates as-is and rewrites US-style MM/DD/YYYY dates to ISO. A
+// date that is only real read as DD/MM/YYYY, such as 25/12/1990, is read that
+// way; one that is neither is left to fail validation.
+function normalizeDate(value: unknown) {
+  if (typeof value !== "string") return value;
+  const trimmed = value.trim();
+  const slashed = trimmed.match(/^(\d{1,2})[\/-](\d{1,2})[\/-](\d{4})$/);
+  if (slashed) {
+    const [, first, second, year] = slashed;
+    const toIso = (month: string, day: string) => `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+    if (isCalendarDay(toIso(first, second))) return toIso(first, second);
+    if (isCalendarDay(toIso(second, first))) return toIso(second, first);
+  }
+  return trimmed;
 }
+
+const optionalText = z.string().trim().min(1).nullable().optional();
+
+const optionalDate = z
+  .preprocess(normalizeDate, calendarDay)
+  .nullable()
+  .optional();
+
+export const licenseAddressSchema = z.object({
+  street: optionalText,
+  city: optionalText,
+  state: optionalText,
+  postalCode: optionalText,
+  country: optionalText,
+});
+
+export const driverLicenseExtractionSchema = z.object({
+  firstName: optionalText,
+  middleName: optionalText,
+  lastName: optionalText,
+  dateOfBirth: optionalDate,
+  licenseNumber: optionalText,
+  licenseClass: optionalText,
+  issueDate: optionalDate,
+  expiryDate: optionalDate,
+  address: licenseAddressSchema.nullable().optional(),
+  sex: z
+    .preprocess(
+      (value) => (typeof value === "string" ? value.trim().charAt(0).toUpperCase() : value),
+      z.enum(["M", "F", "X"]),
+    )
+    .nullable()
+    .optional(),
+  height: optionalText,
+  eyeColor: optionalText,
+  restrictions: optionalText,
+  endorsements: optionalText,
+  issuingJurisdiction: optionalText,
+});
+
+// Fields without which an extraction is not usable
+export const requiredLicenseFields = [
+  "lastName",
+  "dateOfBirth",
+  "licenseNumber",
+] as const;
+
+export type LicenseAddress = z.infer<typeof licenseAddressSchema>;
+export type DriverLicenseExtraction = z.infer<typeof driverLicenseExtractionSchema>;
+
+export const extractionIssueSchema = z.object({
+  path: z.string(),
+  message: z.string(),
+});
+
+export type ExtractionIssue = z.infer<typeof extractionIssueSchema>;
+
+// Data decoded from the AAMVA PDF417 barcode on the back of a license
+export const aamvaBarcodeSchema = z.object({
+  fileName: z.string(),
+  issuerIdentificationNumber: z.string(),
+  aamvaVersion: z.number().int(),
+  jurisdictionVersion: z.number().int().nullable(),
+  subfileType: z.string(),
+  // Raw data elements keyed by element ID (DAQ, DCS, DBB...)
+  elements: z.record(z.string()),
+  fields: driverLicenseExtractionSchema,
+});
+
+export type AamvaBarcode = z.infer<typeof aamvaBarcodeSchema>;
+
+// Agreement between the barcode and the visual (front-of-card) extraction
+export const fieldAgreementStatuses = [
+  "match",
+  "mismatch",
+  "visual_only",
+  "barcode_only",
+] as const;
+
+export type FieldAgreementStatus = typeof fieldAgreementStatuses[number];
+
+export const fieldComparisonSchema = z.object({
+  field: z.string(),
+  status: z.enum(fieldAgreementStatuses),
+  visual: z.string().nullable(),
+  barcode: z.string().nullable(),
+});
+
+export const crossValidationResultSchema = z.object({
+  comparisons: z.array(fieldComparisonSchema),
+  mismatchCount: z.number().int(),
+});
+
+export type FieldComparison = z.infer<typeof fieldComparisonSchema>;
+export type CrossValidationResult = z.infer<typeof crossValidationResultSchema>;
+
+// ICAO 9303 machine-readable zone of passports and ID cards
+export const mrzFormats = ["TD1", "TD2", "TD3"] as const;
+
+export type MrzFormat = typeof mrzFormats[number];
+
+export const mrzCheckDigitSchema = z.object({
+  field: z.string(),
+  // Check digit printed in the MRZ and the one computed from the field
+  actual: z.string(),
+  expected: z.string(),
+  valid: z.boolean(),
+});
+
+export const mrzResultSchema = z.object({
+  format: z.enum(mrzFormats),
+  lines: z.array(z.string()),
+  documentCode: z.string(),
+  issuingState: z.string(),
+  documentNumber: z.string(),
+  nationality: z.string(),
+  dateOfBirth: z.string().nullable(),
+  sex: z.enum(["M", "F", "X"]),
+  expiryDate: z.string().nullable(),
+  lastName: z.string(),
+  givenNames: z.string(),
+  optionalData: z.array(z.string()),
+  checkDigits: z.array(mrzCheckDigitSchema),
+  // False as soon as any check digit fails
+  valid: z.boolean(),
+});
+
+export type MrzCheckDigit = z.infer<typeof mrzCheckDigitSchema>;
+export type MrzResult = z.infer<typeof mrzResultSchema>;
+
+// Why an extraction ended without a result
+export const extractionErrorCodes = [
+  // Caller side
+  "cancelled",
+  "client_disconnected",
+  "timeout",
+  // Terminal OpenAI run statuses other than "completed"
+  "run_failed",
+  "run_cancelled",
+  "run_expired",
+  "run_incomplete",
+  "requires_action",
+  // Anything else that went wrong talking to the provider
+  "no_response",
+  "provider_error",
+  // The provider refused the request for going over its rate limit
+  "rate_limited",
+] as const;
+
+export type ExtractionErrorCode = typeof extractionErrorCodes[number];
+
+// OpenAI related types
+// What preprocessing did to an image before it was sent to the provider
+export const preprocessingChanges = [
+  "oriented", // rotated upright from its EXIF orientation
+  "converted", // re-encoded from a format providers do not accept
+  "resized", // scaled down to the maximum dimension
+  "metadata_stripped",
+  "recompressed",
+  "cropped_to_card", // straightened and cropped to the card found in the photo
+] as const;
+
+export type PreprocessingChange = typeof preprocessingChanges[number];
+
+// Corners of a card in an image: top-left, top-right, bottom-right and
+// bottom-left as the card is read, in pixels
+const pointSchema = z.object({ x: z.number(), y: z.number() });
+export const cardCornersSchema = z.tuple([pointSchema, pointSchema, pointSchema, pointSchema]);
+
+export type CardCorners = z.infer<typeof cardCornersSchema>;
+
+export const imagePreprocessingSchema = z.object({
+  fileName: z.string(),
+  originalFormat: z.string().nullable(),
+  originalWidth: z.number().int().nullable(),
+  originalHeight: z.number().int().nullable(),
+  originalSize: z.number().int(),
+  format: z.string().nullable(),
+  width: z.number().int().nullable(),
+  height: z.number().int().nullable(),
+  size: z.number().int(),
+  changes: z.array(z.enum(preprocessingChanges)),
+  // The card found in the upright original, when the image was cropped to it
+  cardCorners: cardCornersSchema.nullable(),
+  // The cropped card as sent, kept for review next to the original
+  correctedSha256: z.string().nullable(),
+  // Set when the image could not be read; it is then sent unchanged
+  error: z.string().nullable(),
+});
+
+export type ImagePreprocessing = z.infer<typeof imagePreprocessingSchema>;
+
+// Problems the local quality check finds in a photo before any model call
+export const imageQualityIssueCodes = [
+  "blurry",
+  "overexposed",
+  "glare",
+  "low_resolution",
+  "cropped", // the card seems to extend past the frame
+] as const;
+
+export type ImageQualityIssueCode = typeof imageQualityIssueCodes[number];
+
+export const imageQualityIssueSchema = z.object({
+  code: z.enum(imageQualityIssueCodes),
+  // Errors make an extraction unlikely to succeed; warnings may cost accuracy
+  severity: z.enum(["error", "warning"]),
+  // Guidance for retaking the photo
+  message: z.string(),
+});
+
+export type ImageQualityIssue = z.infer<typeof imageQualityIssueSchema>;
+
+export const imageQualitySchema = z.object({
+  fileName: z.string(),
+  width: z.number().int().nullable(),
+  height: z.number().int().nullable(),
+  // Variance of the Laplacian; higher is sharper
+  sharpness: z.number().nullable(),
+  // Mean grey level of the card from 0 to 255
+  brightness: z.number().nullable(),
+  // Share of clipped white pixels on the card
+  glare: z.number().nullable(),
+  issues: z.array(imageQualityIssueSchema),
+  // Set when the image could not be read; it is then not judged
+  error: z.string().nullable(),
+});
+
+export type ImageQuality = z.infer<typeof imageQualitySchema>;
+
+// What happens to a submission whose images fail the quality check
+export const imageQualityGateModes = ["off", "warn", "reject"] as const;
+
+export type ImageQualityGateMode = typeof imageQualityGateModes[number];
+
+// Tokens a provider reported for one run, and the model that actually ran
+export const tokenUsageSchema = z.object({
+  model: z.string(),
+  promptTokens: z.number().int(),
+  completionTokens: z.number().int(),
+});
+
+export type TokenUsage = z.infer<typeof tokenUsageSchema>;
+
+export const openAIResponseSchema = z.object({
+  // Raw text returned by the extraction provider
+  raw: z.string().nullable().optional(),
+  // Fields that passed validation; fields with issues are left out
+  fields: driverLicenseExtractionSchema.optional(),
+  issues: z.array(extractionIssueSchema).optional(),
+  // Decoded locally, independent of the extraction provider
+  barcode: aamvaBarcodeSchema.nullable().optional(),
+  // Present only when both a barcode and visual fields are available
+  crossValidation: crossValidationResultSchema.nullable().optional(),
+  mrz: mrzResultSchema.nullable().optional(),
+  usage: tokenUsageSchema.optional(),
+  // One entry per image, in upload order
+  preprocessing: z.array(imagePreprocessingSchema).optional(),
+  quality: z.array(imageQualitySchema).optional(),
+  error: z.string().optional(),
+  errorCode: z.enum(extractionErrorCodes).optional(),
+});
+
+export type OpenAIResponse = z.infer<typeof openAIResponseSchema>;
+
+// Progress reported while a job runs
+export const progressPhases = [
+  "queued",
+  "started",
+  "classifying",
+  "preprocessing",
+  "uploading",
+  "uploaded",
+  "thread_created",
+  "run_created",
+  "run_status",
+  "retrieving",
+  "cleanup",
+  "parsing",
+  "completed",
+  "failed",
+  "cancelled",
+] as const;
+
+export type ProgressPhase = typeof progressPhases[number];
+
+export const progressEventSchema = z.object({
+  phase: z.enum(progressPhases),
+  message: z.string(),
+  timestamp: z.string(),
+  // Set for per-file phases (uploading, uploaded)
+  fileIndex: z.number().int().optional(),
+  fileCount: z.number().int().optional(),
+  fileName: z.string().optional(),
+  // Set for run_status
+  runStatus: z.string().optional(),
+  // Set for events of one document of a job with several
+  documentIndex: z.number().int().optional(),
+});
+
+export type ProgressEvent = z.infer<typeof progressEventSchema>;
+
+// Asynchronous extraction jobs
+export const jobStatuses = [
+  "queued",
+  "running",
+  "completed",
+  "failed",
+  "cancelled",
+] as const;
+
+export type JobStatus = typeof jobStatuses[number];
+
+// Which side of a document an image shows. Backs carry the barcode; images
+// with neither a barcode nor a card in them are "other".
+export const documentSides = ["front", "back", "other"] as const;
+
+export type DocumentSide = typeof documentSides[number];
+
+// One document of a job: the images paired as its front and back, and its
+// own extraction
+export const jobDocumentSchema = z.object({
+  images: z.array(
+    z.object({
+      // Index among the job's images, in upload order
+      position: z.number().int(),
+      fileName: z.string(),
+      side: z.enum(documentSides),
+    })
+  ),
+  status: z.enum(jobStatuses),
+  extractionId: z.number().int().nullable(),
+  result: openAIResponseSchema.nullable(),
+  error: z.string().nullable(),
+});
+
+export type JobDocument = z.infer<typeof jobDocumentSchema>;
+
+export const jobSchema = z.object({
+  id: z.string().uuid(),
+  // The user who started the job; only they can see or cancel it
+  userId: z.number().int(),
+  status: z.enum(jobStatuses),
+  provider: z.enum(extractionProviderNames),
+  fileCount: z.number().int(),
+  createdAt: z.string(),
+  startedAt: z.string().nullable(),
+  completedAt: z.string().nullable(),
+  // Result of a job with a single document; with several, each document
+  // carries its own
+  result: openAIResponseSchema.nullable(),
+  error: z.string().nullable(),
+  errorCode: z.enum(extractionErrorCodes).nullable(),
+  progress: z.array(progressEventSchema),
+  // Filled in once the images are classified and paired
+  documents: z.array(jobDocumentSchema),
+  // Set when the result was reused from this earlier extraction of the same images
+  duplicateOf: z.number().int().nullable(),
+});
+
+export type Job = z.infer<typeof jobSchema>;
+
+// Batches: many documents at once, from ZIP archives or a large selection of
+// images, extracted by a pool of workers shared by all batches. Like jobs,
+// they only live in memory.
+export const batchDocumentSchema = jobDocumentSchema.omit({ result: true }).extend({
+  errorCode: z.enum(extractionErrorCodes).nullable(),
+  // Runs so far, automatic and manual retries included
+  attempts: z.number().int(),
+});
+
+export type BatchDocument = z.infer<typeof batchDocumentSchema>;
+
+export const batchSchema = z.object({
+  id: z.string().uuid(),
+  // The user who started the batch; only they can see or change it
+  userId: z.number().int(),
+  profileId: z.number().int(),
+  // queued while the images are sorted into documents
+  status: z.enum(jobStatuses),
+  provider: z.enum(extractionProviderNames),
+  fileCount: z.number().int(),
+  // Uploaded files and archive entries that were left out
+  skipped: z.array(z.object({ fileName: z.string(), reason: z.string() })),
+  createdAt: z.string(),
+  startedAt: z.string().nullable(),
+  completedAt: z.string().nullable(),
+  error: z.string().nullable(),
+  documents: z.array(batchDocumentSchema),
+});
+
+export type Batch = z.infer<typeof batchSchema>;
+
+// Extraction history
+export const extractionStatuses = [
+  "running",
+  "completed",
+  "failed",
+  "cancelled",
+] as const;
+
+export type ExtractionStatus = typeof extractionStatuses[number];
+
+// Kind of document an extraction was run on, inferred from its result
+export const documentTypes = [
+  "driver_license",
+  "passport",
+  "id_card",
+  "unknown",
+] as const;
+
+export type DocumentType = typeof documentTypes[number];
+
+export const extractions = pgTable("extractions", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  // The user who submitted the images
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  // The profile whose credentials were used, if any
+  profileId: integer("profile_id").references(() => extractionProfiles.id, { onDelete: "set null" }),
+  // Set when the extraction ran as an asynchronous job
+  jobId: text("job_id"),
+  provider: text("provider").$type<ExtractionProviderName>().notNull(),
+  assistantId: text("assistant_id"),
+  model: text("model"),
+  status: text("status").$type<ExtractionStatus>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+  rawResponse: text("raw_response"),
+  error: text("error"),
+  errorCode: text("error_code").$type<ExtractionErrorCode>(),
+  // As reported by the provider. The cost is estimated with the organization's
+  // prices when the extraction finishes and is null for unpriced models.
+  promptTokens: integer("prompt_tokens"),
+  completionTokens: integer("completion_tokens"),
+  estimatedCostUsd: doublePrecision("estimated_cost_usd"),
+  // What was changed in each image before it was sent, in image order
+  preprocessing: jsonb("preprocessing").$type<ImagePreprocessing[]>(),
+  // Quality check of each image, unless the check was turned off
+  quality: jsonb("quality").$type<ImageQuality[]>(),
+});
+
+// Image bytes are not kept, only enough to identify the source images
+export const extractionImages = pgTable("extraction_images", {
+  id: serial("id").primaryKey(),
+  extractionId: integer("extraction_id")
+    .notNull()
+    .references(() => extractions.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  sha256: text("sha256").notNull(),
+  // The card cropped and straightened from the image, as sent to the provider
+  correctedSha256: text("corrected_sha256"),
+  side: text("side").$type<DocumentSide>(),
+});
+
+// Parsed output of a successful extraction
+export const extractionResults = pgTable("extraction_results", {
+  id: serial("id").primaryKey(),
+  extractionId: integer("extraction_id")
+    .notNull()
+    .unique()
+    .references(() => extractions.id, { onDelete: "cascade" }),
+  documentType: text("document_type").$type<DocumentType>().notNull(),
+  // Two-letter state or three-letter country code that issued the document
+  jurisdiction: text("jurisdiction"),
+  fields: jsonb("fields").$type<DriverLicenseExtraction>().notNull(),
+  issues: jsonb("issues").$type<ExtractionIssue[]>().notNull(),
+  barcode: jsonb("barcode").$type<AamvaBarcode>(),
+  crossValidation: jsonb("cross_validation").$type<CrossValidationResult>(),
+  mrz: jsonb("mrz").$type<MrzResult>(),
+  // Set once a reviewer has corrected the fields
+  correctedBy: integer("corrected_by").references(() => users.id, { onDelete: "set null" }),
+  correctedAt: timestamp("corrected_at"),
+});
+
+export type InsertExtraction = typeof extractions.$inferInsert;
+export type Extraction = typeof extractions.$inferSelect;
+export type InsertExtractionImage = Omit<typeof extractionImages.$inferInsert, "id" | "extractionId">;
+export type ExtractionImage = typeof extractionImages.$inferSelect;
+export type InsertExtractionResult = Omit<typeof extractionResults.$inferInsert, "id">;
+export type ExtractionResult = typeof extractionResults.$inferSelect;
+
+// Row schemas of the extraction tables, with the typed text and jsonb columns
+// narrowed to what is actually stored
+export const extractionSchema = createSelectSchema(extractions, {
+  provider: z.enum(extractionProviderNames),
+  preprocessing: z.array(imagePreprocessingSchema).nullable(),
+  quality: z.array(imageQualitySchema).nullable(),
+  status: z.enum(extractionStatuses),
+  errorCode: z.enum(extractionErrorCodes).nullable(),
+});
+
+export const extractionResultSchema = createSelectSchema(extractionResults, {
+  documentType: z.enum(documentTypes),
+  fields: driverLicenseExtractionSchema,
+  issues: z.array(extractionIssueSchema),
+  barcode: aamvaBarcodeSchema.nullable(),
+  crossValidation: crossValidationResultSchema.nullable(),
+  mrz: mrzResultSchema.nullable(),
+});
+
+// An extraction with its images and, when it succeeded, its result
+export const extractionRecordSchema = extractionSchema.extend({
+  images: z.array(createSelectSchema(extractionImages, { side: z.enum(documentSides).nullable() })),
+  result: extractionResultSchema.nullable(),
+});
+
+export type ExtractionRecord = z.infer<typeof extractionRecordSchema>;
+
+// Past extractions as listed on the history page
+export const extractionSummarySchema = extractionSchema.omit({ rawResponse: true }).extend({
+  documentType: z.enum(documentTypes).nullable(),
+  jurisdiction: z.string().nullable(),
+  name: z.string().nullable(),
+  licenseNumber: z.string().nullable(),
+});
+
+export type ExtractionSummary = z.infer<typeof extractionSummarySchema>;
+
+export const extractionListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  // Inclusive range of creation dates
+  from: calendarDay.optional(),
+  to: calendarDay.optional(),
+  status: z.enum(extractionStatuses).optional(),
+  jurisdiction: z.string().trim().toUpperCase().optional(),
+  documentType: z.enum(documentTypes).optional(),
+  // Matches the holder's name or the license number
+  search: z.string().trim().optional(),
+});
+
+export type ExtractionListQuery = z.infer<typeof extractionListQuerySchema>;
+
+// Defaults to the last 30 days
+export const costReportQuerySchema = extractionListQuerySchema.pick({ from: true, to: true });
+
+export type CostReportQuery = z.infer<typeof costReportQuerySchema>;
+
+export const costTotalsSchema = z.object({
+  extractions: z.number().int(),
+  promptTokens: z.number().int(),
+  completionTokens: z.number().int(),
+  estimatedCostUsd: z.number(),
+  // Extractions with token usage but no price for their model
+  unpriced: z.number().int(),
+});
+
+export type CostTotals = z.infer<typeof costTotalsSchema>;
+
+export const costReportSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  total: costTotalsSchema,
+  byDay: z.array(costTotalsSchema.extend({ day: z.string() })),
+  byUser: z.array(costTotalsSchema.extend({ userId: z.number().int().nullable(), username: z.string().nullable() })),
+  byProfile: z.array(
+    costTotalsSchema.extend({ profileId: z.number().int().nullable(), profileName: z.string().nullable() }),
+  ),
+});
+
+export type CostReport = z.infer<typeof costReportSchema>;
+
+export const extractionPageSchema = z.object({
+  items: z.array(extractionSummarySchema),
+  total: z.number().int(),
+  page: z.number().int(),
+  pageSize: z.number().int(),
+});
+
+export type ExtractionPage = z.infer<typeof extractionPageSchema>;
+
+// Named provider settings saved by admins. The API key is encrypted at rest
+// and never sent back to the browser.
+export const extractionProfiles = pgTable("extraction_profiles", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  provider: text("provider").$type<ExtractionProviderName>().notNull(),
+  encryptedApiKey: text("encrypted_api_key"),
+  // Last characters of the key, so admins can tell keys apart
+  apiKeyHint: text("api_key_hint"),
+  assistantId: text("assistant_id"),
+  model: text("model"),
+  // The kind of document this profile is meant for
+  documentType: text("document_type").$type<DocumentType>().notNull().default("driver_license"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  // Names only need to be unique within an organization
+  unique("extraction_profiles_organization_name").on(table.organizationId, table.name),
+]);
+
+const optionalSetting = z
+  .string()
+  .trim()
+  .transform((value) => value || null)
+  .nullable()
+  .optional();
+
+// Body of profile create requests; every field is optional on update. An
+// empty or missing apiKey on update keeps the stored key.
+export const profileInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  provider: z.enum(extractionProviderNames),
+  apiKey: optionalSetting,
+  assistantId: optionalSetting,
+  model: optionalSetting,
+  documentType: z.enum(documentTypes).default("driver_license"),
+});
+
+export type ProfileInput = z.infer<typeof profileInputSchema>;
+export type InsertExtractionProfile = typeof extractionProfiles.$inferInsert;
+export type ExtractionProfile = typeof extractionProfiles.$inferSelect;
+
+// A profile as sent to the client
+export const profileSummarySchema = createSelectSchema(extractionProfiles, {
+  provider: z.enum(extractionProviderNames),
+  documentType: z.enum(documentTypes),
+})
+  .omit({ encryptedApiKey: true })
+  .extend({ hasApiKey: z.boolean() });
+
+export type ProfileSummary = z.infer<typeof profileSummarySchema>;
+
+// Per-organization settings, stored one row per key
+export const settings = pgTable("settings", {
+  organizationId: integer("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  key: text("key").notNull(),
+  // SQL null stores an explicit "not set", e.g. no retention limit
+  value: jsonb("value"),
+}, (table) => [primaryKey({ columns: [table.organizationId, table.key] })]);
+
+// US dollars per million tokens. A price applies to every model whose name
+// starts with it, so gpt-4o also covers gpt-4o-2024-08-06.
+export const modelPriceSchema = z.object({
+  model: z.string().trim().min(1, "Model is required").max(100),
+  promptPerMillion: z.number().min(0),
+  completionPerMillion: z.number().min(0),
+});
+
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+
+export const appSettingsSchema = z.object({
+  // Extractions older than this many days are deleted; null keeps them forever
+  retentionDays: z.number().int().min(1).max(3650).nullable(),
+  // An identical image set submitted to the same profile within this many
+  // minutes reuses the earlier result; null always runs a new extraction
+  duplicateWindowMinutes: z.number().int().min(1).max(10080).nullable(),
+  // Extractions the organization may run per UTC day and calendar month;
+  // null is unlimited
+  dailySubmissionQuota: z.number().int().min(1).max(1000000).nullable(),
+  monthlySubmissionQuota: z.number().int().min(1).max(1000000).nullable(),
+  modelPrices: z.array(modelPriceSchema).max(50),
+  // Whether images with quality errors are only flagged or refused
+  imageQualityGate: z.enum(imageQualityGateModes),
+});
+
+export type AppSettings = z.infer<typeof appSettingsSchema>;
+
+export const defaultAppSettings: AppSettings = {
+  retentionDays: null,
+  duplicateWindowMinutes: 60,
+  dailySubmissionQuota: null,
+  monthlySubmissionQuota: null,
+  modelPrices: [
+    { model: "gpt-4o", promptPerMillion: 2.5, completionPerMillion: 10 },
+    { model: "gpt-4o-mini", promptPerMillion: 0.15, completionPerMillion: 0.6 },
+    { model: "gpt-4.1", promptPerMillion: 2, completionPerMillion: 8 },
+    { model: "gpt-4.1-mini", promptPerMillion: 0.4, completionPerMillion: 1.6 },
+  ],
+  imageQualityGate: "warn",
+};
+
+// Extractions run per organization and UTC day, counted against the quotas.
+// Kept apart from the history so deleting extractions does not free quota.
+export const submissionCounts = pgTable("submission_counts", {
+  organizationId: integer("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  day: date("day", { mode: "string" }).notNull(),
+  count: integer("count").notNull().default(0),
+}, (table) => [primaryKey({ columns: [table.organizationId, table.day] })]);
+
+export const quotaUsageSchema = z.object({
+  used: z.number().int(),
+  limit: z.number().int().nullable(),
+  resetsAt: z.string(),
+});
+
+export type QuotaUsage = z.infer<typeof quotaUsageSchema>;
+
+export const usageSchema = z.object({
+  daily: quotaUsageSchema,
+  monthly: quotaUsageSchema,
+  // Submissions allowed per minute; 0 means no limit
+  rateLimits: z.object({
+    perIp: z.number().int(),
+    perUser: z.number().int(),
+    perToken: z.number().int(),
+  }),
+});
+
+export type Usage = z.infer<typeof usageSchema>;
+
+// What a personal API token may do on the /api/v1 surface. A token never
+// grants more than its owner's role allows.
+export const apiTokenScopes = [
+  "jobs:write",
+  "jobs:read",
+  "extractions:read",
+] as const;
+
+export type ApiTokenScope = typeof apiTokenScopes[number];
+
+export const apiTokenScopePermissions: Record<ApiTokenScope, Permission | null> = {
+  "jobs:write": "extractions:submit",
+  "jobs:read": null,
+  "extractions:read": null,
+};
+
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // SHA-256 of the token; the token itself is only shown once, on creation
+  tokenHash: text("token_hash").notNull().unique(),
+  // Start of the token, so users can tell their tokens apart
+  tokenPrefix: text("token_prefix").notNull(),
+  scopes: jsonb("scopes").$type<ApiTokenScope[]>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z.array(z.enum(apiTokenScopes)).min(1, "Choose at least one scope"),
+});
+
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+export type InsertApiToken = typeof apiTokens.$inferInsert;
+export type ApiToken = typeof apiTokens.$inferSelect;
+// A token as listed to its owner, without the hash
+export const apiTokenSummarySchema = createSelectSchema(apiTokens, {
+  scopes: z.array(z.enum(apiTokenScopes)),
+}).omit({ tokenHash: true });
+
+// Reply to creating a token, the only time the token is sent
+export const createdApiTokenSchema = apiTokenSummarySchema.extend({
+  token: z.string(),
+});
+
+export type ApiTokenSummary = z.infer<typeof apiTokenSummarySchema>;
+export type CreatedApiToken = z.infer<typeof createdApiTokenSchema>;
+
+// A stored extraction result as downloaded from /api/v1
+export const extractionResultDownloadSchema = extractionSchema
+  .pick({ id: true, status: true, createdAt: true, completedAt: true })
+  .extend({
+    documentType: z.enum(documentTypes).nullable(),
+    jurisdiction: z.string().nullable(),
+    fields: driverLicenseExtractionSchema.nullable(),
+    issues: z.array(extractionIssueSchema),
+    barcode: aamvaBarcodeSchema.nullable(),
+    crossValidation: crossValidationResultSchema.nullable(),
+    mrz: mrzResultSchema.nullable(),
+    correctedAt: z.date().nullable(),
+  });
+
+export type ExtractionResultDownload = z.infer<typeof extractionResultDownloadSchema>;
+
+// The results of every document of a batch, downloaded at once
+export const batchResultsDownloadSchema = z.object({
+  batchId: z.string().uuid(),
+  documents: z.array(
+    z.object({
+      index: z.number().int(),
+      fileNames: z.array(z.string()),
+      status: z.enum(jobStatuses),
+      error: z.string().nullable(),
+      result: extractionResultDownloadSchema.nullable(),
+    })
+  ),
+});
+
+export type BatchResultsDownload = z.infer<typeof batchResultsDownloadSchema>;
+
+// Events pushed to an organization's webhook endpoints
+export const webhookEvents = [
+  "extraction.completed",
+  "extraction.failed",
+  "review.completed",
+] as const;
+
+export type WebhookEvent = typeof webhookEvents[number];
+
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  // Signing secret, encrypted at rest like profile API keys
+  encryptedSecret: text("encrypted_secret").notNull(),
+  events: jsonb("events").$type<WebhookEvent[]>().notNull(),
+  active: boolean("active").notNull().default(true),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Body of every webhook request
+export const webhookPayloadSchema = z.object({
+  // Unique per event; a redelivery repeats it so receivers can deduplicate
+  id: z.string().uuid(),
+  event: z.enum(webhookEvents),
+  createdAt: z.string(),
+  data: extractionResultDownloadSchema,
+});
+
+export type WebhookPayload = z.infer<typeof webhookPayloadSchema>;
+
+export const webhookDeliveryStatuses = ["pending", "succeeded", "failed"] as const;
+
+export type WebhookDeliveryStatus = typeof webhookDeliveryStatuses[number];
+
+// One event sent to one endpoint, with the outcome of its latest attempt
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  webhookId: integer("webhook_id")
+    .notNull()
+    .references(() => webhooks.id, { onDelete: "cascade" }),
+  event: text("event").$type<WebhookEvent>().notNull(),
+  payload: jsonb("payload").$type<WebhookPayload>().notNull(),
+  status: text("status").$type<WebhookDeliveryStatus>().notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  // When a failed delivery is retried next; null once it succeeded or gave up
+  nextAttemptAt: timestamp("next_attempt_at"),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  responseStatus: integer("response_status"),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const webhookInputSchema = z.object({
+  url: z
+    .string()
+    .trim()
+    .url("Enter a valid URL")
+    .refine((url) => /^https:\/\//i.test(url), "The URL must start with https://"),
+  events: z.array(z.enum(webhookEvents)).min(1, "Choose at least one event"),
+  active: z.boolean().default(true),
+});
+
+export type WebhookInput = z.infer<typeof webhookInputSchema>;
+export type InsertWebhook = typeof webhooks.$inferInsert;
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+// A webhook as sent to the client, without its secret
+export const webhookSummarySchema = createSelectSchema(webhooks, {
+  events: z.array(z.enum(webhookEvents)),
+}).omit({ encryptedSecret: true });
+
+// Reply to creating a webhook, the only time the secret is sent
+export const createdWebhookSchema = webhookSummarySchema.extend({
+  secret: z.string(),
+});
+
+export const webhookDeliverySchema = createSelectSchema(webhookDeliveries, {
+  event: z.enum(webhookEvents),
+  payload: webhookPayloadSchema,
+  status: z.enum(webhookDeliveryStatuses),
+});
+
+export type WebhookSummary = z.infer<typeof webhookSummarySchema>;
+export type CreatedWebhook = z.infer<typeof createdWebhookSchema>;
+
+// Response schemas of the remaining tables, for the API description
+export const organizationSchema = createSelectSchema(organizations);
+
+export const publicUserSchema = createSelectSchema(users, {
+  role: z.enum(userRoles),
+}).omit({ password: true });
+
+// Body of every error response
+export const errorResponseSchema = z.object({
+  error: z.string(),
+});
+
+// A refused submission carries the quality check of every image it contained
+export const submissionErrorSchema = errorResponseSchema.extend({
+  quality: z.array(imageQualitySchema).optional(),
+});